@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseParams, REVIEW_PARAMETERS, SEARCH_PARAMETERS } from "./api.js";
+
+describe("parseParams", () => {
+  it("fills in defaults", () => {
+    assert.deepEqual(parseParams(SEARCH_PARAMETERS, { query: "auth" }), {
+      query: "auth",
+      topK: 8,
+      retrievalMode: "hybrid"
+    });
+  });
+
+  it("validates nested parameters", () => {
+    assert.deepEqual(parseParams(SEARCH_PARAMETERS, { query: "q", filter: { paths: ["src"] } }), {
+      query: "q",
+      topK: 8,
+      retrievalMode: "hybrid",
+      filter: { paths: ["src"] }
+    });
+    assert.throws(
+      () => parseParams(SEARCH_PARAMETERS, { query: "q", filter: { paths: "src" } }),
+      /"filter.paths" must be an array of strings/
+    );
+    assert.throws(() => parseParams(SEARCH_PARAMETERS, { query: "q", filter: { paths: [1] } }), /"filter.paths\[0\]"/);
+  });
+
+  it("rejects missing, unknown and out-of-range parameters", () => {
+    assert.throws(() => parseParams(REVIEW_PARAMETERS, { diff: "  " }), /"diff" is required/);
+    assert.throws(() => parseParams(SEARCH_PARAMETERS, { query: "q", top_k: 3 }), /Unknown parameter "top_k"/);
+    assert.throws(() => parseParams(SEARCH_PARAMETERS, { query: "q", topK: 0 }), /"topK" must be an integer/);
+    assert.throws(
+      () => parseParams(SEARCH_PARAMETERS, { query: "q", retrievalMode: "fuzzy" }),
+      /must be one of: vector, lexical, hybrid/
+    );
+  });
+});
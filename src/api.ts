@@ -0,0 +1,239 @@
+import { DEFAULT_REVIEW_QUERY, REVIEW_PRESETS } from "./prompts.js";
+import type { ReviewOptions } from "./review.js";
+import type { SearchOptions } from "./search.js";
+import type { ChunkFilter } from "./store.js";
+import type { Chunk, RetrievalResult } from "./types.js";
+import type { WorkspaceConfig } from "./workspace.js";
+
+/** The JSON Schema subset used to describe and validate API parameters. */
+export interface JsonSchema {
+  type: "string" | "integer" | "boolean" | "array" | "object";
+  description?: string;
+  enum?: readonly string[];
+  minimum?: number;
+  maximum?: number;
+  // Strings only; counted after trimming, so whitespace-only values are rejected too.
+  minLength?: number;
+  default?: unknown;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: false;
+}
+
+// Keys are checked against the option types, so renamed or removed options fail to compile here.
+type ParameterSchemas<T> = { [K in keyof T]?: JsonSchema };
+
+/** Invalid API parameters; servers report it as a client error. */
+export class ParamError extends Error {}
+
+const MAX_TOP_K = 200;
+
+function objectSchema<T>(properties: ParameterSchemas<T>, required: Array<keyof T & string> = []): JsonSchema {
+  return {
+    type: "object",
+    properties: properties as Record<string, JsonSchema>,
+    ...(required.length > 0 ? { required } : {}),
+    additionalProperties: false
+  };
+}
+
+const stringList = (description: string): JsonSchema => ({ type: "array", items: { type: "string" }, description });
+const count = (description: string, defaultValue?: number): JsonSchema => ({
+  type: "integer",
+  minimum: 0,
+  maximum: MAX_TOP_K,
+  description,
+  ...(defaultValue !== undefined ? { default: defaultValue } : {})
+});
+
+const FILTER_SCHEMA = objectSchema<ChunkFilter>({
+  paths: stringList("Gitignore-style path globs; a directory glob selects everything inside it"),
+  languages: stringList("Languages as file extensions, e.g. ts"),
+  nodeTypes: stringList("AST node types, e.g. FunctionDeclaration"),
+  symbols: stringList("Symbol name globs, e.g. User*")
+});
+
+const SHARED_RETRIEVAL_PARAMETERS = {
+  topK: { ...count("How many chunks to retrieve", 8), minimum: 1 },
+  embeddingModel: { type: "string", description: "Override the embedding model recorded in the index" },
+  retrievalMode: { type: "string", enum: ["vector", "lexical", "hybrid"], default: "hybrid" },
+  rerankModel: { type: "string", description: "Model that reranks retrieved chunks" },
+  rerankCandidates: { ...count("Candidates fetched before reranking (default: 3 x topK)"), minimum: 1 },
+  repoFilter: stringList("Workspace repositories to search; all when omitted"),
+  filter: { ...FILTER_SCHEMA, description: "Metadata prefilter; values of a field are alternatives" }
+} satisfies ParameterSchemas<SearchOptions & ReviewOptions>;
+
+/** Search options a caller may set; the server supplies the repository, index and model provider. */
+export type SearchParameters = Omit<SearchOptions, "repoRoot" | "indexDir" | "provider">;
+
+export const SEARCH_PARAMETERS = objectSchema<SearchParameters>(
+  {
+    query: { type: "string", minLength: 1, description: "Natural-language or code query" },
+    ...SHARED_RETRIEVAL_PARAMETERS
+  },
+  ["query"]
+);
+
+/** Review options a caller may set; `repo` names the reviewed workspace repository. */
+export type ReviewParameters = Omit<
+  ReviewOptions,
+  "repoRoot" | "indexDir" | "provider" | "reviewModel" | "promptTemplate" | "onPass" | "onToken" | "signal"
+> & {
+  reviewModel?: string;
+  repo?: string;
+};
+
+export const REVIEW_PARAMETERS = objectSchema<ReviewParameters>(
+  {
+    diff: { type: "string", minLength: 1, description: "Unified diff to review" },
+    query: { type: "string", default: DEFAULT_REVIEW_QUERY, description: "Review task" },
+    repo: { type: "string", description: "Workspace repository the diff belongs to" },
+    reviewModel: { type: "string", description: "Review LLM model" },
+    maxDiffChars: { type: "integer", minimum: 1, default: 18000, description: "Diff chars passed into the prompt" },
+    language: { type: "string", minLength: 1, description: "Answer language, e.g. en or ru (default: the user's)" },
+    preset: {
+      type: "string",
+      enum: [...REVIEW_PRESETS],
+      default: "general",
+      description: "Review focus added to the system prompt"
+    },
+    strategy: {
+      type: "string",
+      enum: ["single", "per-file"],
+      default: "single",
+      description: "Review in one prompt, or per file with a final pass that merges findings and assesses risk"
+    },
+    contextTokens: {
+      type: "integer",
+      minimum: 1024,
+      description: "Review model context window in tokens (default: reported by the provider)"
+    },
+    retrievalUnit: { type: "string", enum: ["hunk", "file"], default: "hunk" },
+    changedContext: count("Declarations enclosing changed lines, plus siblings (0 disables)"),
+    graphContext: count("Definitions/callers/callees from the code graph (0 disables)"),
+    perFileQuota: count("Chunks reserved per changed file"),
+    ...SHARED_RETRIEVAL_PARAMETERS
+  },
+  ["diff"]
+);
+
+function describeType(schema: JsonSchema): string {
+  switch (schema.type) {
+    case "array":
+      return schema.items ? `an array of ${schema.items.type}s` : "an array";
+    case "integer":
+      return `an integer between ${schema.minimum ?? Number.MIN_SAFE_INTEGER} and ${schema.maximum ?? Number.MAX_SAFE_INTEGER}`;
+    default:
+      return `a ${schema.type}`;
+  }
+}
+
+function matchesType(schema: JsonSchema, value: unknown): boolean {
+  switch (schema.type) {
+    case "string":
+      return typeof value === "string";
+    case "boolean":
+      return typeof value === "boolean";
+    case "integer":
+      return (
+        typeof value === "number" &&
+        Number.isInteger(value) &&
+        value >= (schema.minimum ?? Number.MIN_SAFE_INTEGER) &&
+        value <= (schema.maximum ?? Number.MAX_SAFE_INTEGER)
+      );
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+}
+
+/**
+ * Validates `value` against `schema` and fills in defaults. Errors name the offending parameter, e.g.
+ * `"filter.paths" must be an array of strings`.
+ */
+export function parseParams<T>(schema: JsonSchema, value: unknown, name = ""): T {
+  return parseValue(schema, value ?? (schema.type === "object" ? {} : value), name) as T;
+}
+
+function parseValue(schema: JsonSchema, value: unknown, name: string): unknown {
+  const label = `"${name}"`;
+  if (!matchesType(schema, value)) {
+    throw new ParamError(`${name ? label : "Parameters"} must be ${describeType(schema)}`);
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    throw new ParamError(`${label} must be one of: ${schema.enum.join(", ")}`);
+  }
+  if (schema.minLength !== undefined && (value as string).trim().length < schema.minLength) {
+    throw new ParamError(`${label} is required`);
+  }
+  if (schema.type === "array") {
+    const items = schema.items;
+    return items ? (value as unknown[]).map((entry, index) => parseValue(items, entry, `${name}[${index}]`)) : value;
+  }
+  if (schema.type !== "object") {
+    return value;
+  }
+
+  const record = value as Record<string, unknown>;
+  const properties = schema.properties ?? {};
+  const prefix = name ? `${name}.` : "";
+  const parsed: Record<string, unknown> = {};
+  for (const key of Object.keys(record)) {
+    if (!(key in properties) && schema.additionalProperties === false) {
+      throw new ParamError(`Unknown parameter "${prefix}${key}"`);
+    }
+  }
+  for (const [key, property] of Object.entries(properties)) {
+    const entry = record[key];
+    if (entry === undefined) {
+      if (schema.required?.includes(key)) {
+        throw new ParamError(`"${prefix}${key}" is required`);
+      }
+      if (property.default !== undefined) {
+        parsed[key] = property.default;
+      }
+      continue;
+    }
+    parsed[key] = parseValue(property, entry, `${prefix}${key}`);
+  }
+  return parsed;
+}
+
+/** Root of a workspace repository named in a request. */
+export function workspaceRepoRoot(workspace: WorkspaceConfig | null, name: string): string {
+  const member = workspace?.repos.find((repo) => repo.name === name);
+  if (!member) {
+    throw new ParamError(`Unknown repository "${name}"`);
+  }
+  return member.root;
+}
+
+export function checkRepoNames(workspace: WorkspaceConfig | null, names: string[] | undefined): string[] | undefined {
+  const known = workspace?.repos.map((repo) => repo.name) ?? [];
+  const unknown = (names ?? []).filter((name) => !known.includes(name));
+  if (unknown.length > 0) {
+    throw new ParamError(`Unknown repositories: ${unknown.join(", ")}`);
+  }
+  return names;
+}
+
+export type ChunkView = Omit<Chunk, "embedding" | "contentHash" | "fileMtimeMs" | "fileSize" | "fileBlobSha">;
+
+/** Chunk without its vector and change-detection fields, for API responses. */
+export function toChunkView(chunk: Chunk): ChunkView {
+  const {
+    embedding: _embedding,
+    contentHash: _contentHash,
+    fileMtimeMs: _fileMtimeMs,
+    fileSize: _fileSize,
+    fileBlobSha: _fileBlobSha,
+    ...view
+  } = chunk;
+  return view;
+}
+
+export function toSearchHits(results: RetrievalResult[]): Array<Omit<RetrievalResult, "chunk"> & { chunk: ChunkView }> {
+  return results.map((result) => ({ ...result, chunk: toChunkView(result.chunk) }));
+}
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { citedSources, createSession, loadSession, parseCitations, saveSession } from "./ask.js";
+import type { PackedContext } from "./budget.js";
+
+function block(id: string, filePath: string, startLine: number, endLine: number, repo?: string): PackedContext {
+  return {
+    ids: [id],
+    result: {
+      score: 0.5,
+      chunk: {
+        id,
+        path: filePath,
+        repo,
+        language: "ts",
+        startLine,
+        endLine,
+        content: "",
+        chunkingStrategy: "text",
+        contentHash: "",
+        fileMtimeMs: 0,
+        fileSize: 0,
+        embedding: []
+      }
+    }
+  };
+}
+
+describe("parseCitations", () => {
+  it("reads [path:start-end] references", () => {
+    assert.deepEqual(parseCitations("See [src/a.ts:10-20] and [api:src/b.ts:3-4], not [note] or src/c.ts:1-2."), [
+      { path: "src/a.ts", startLine: 10, endLine: 20 },
+      { path: "api:src/b.ts", startLine: 3, endLine: 4 }
+    ]);
+  });
+});
+
+describe("citedSources", () => {
+  it("marks blocks whose file and lines a citation names", () => {
+    const sources = citedSources(
+      [block("a", "src/a.ts", 1, 30), block("b", "src/a.ts", 40, 50), block("c", "src/b.ts", 1, 9, "api")],
+      "Cached in [src/a.ts:12-14], keyed in [api:src/b.ts:5-5]."
+    );
+    assert.deepEqual(sources, [
+      { ids: ["a"], location: "src/a.ts:1-30", cited: true },
+      { ids: ["b"], location: "src/a.ts:40-50", cited: false },
+      { ids: ["c"], location: "api:src/b.ts:1-9", cited: true }
+    ]);
+  });
+});
+
+describe("sessions", () => {
+  let indexDir = "";
+
+  before(async () => {
+    indexDir = await mkdtemp(path.join(tmpdir(), "code-rag-ask-"));
+  });
+
+  after(async () => {
+    await rm(indexDir, { recursive: true, force: true });
+  });
+
+  it("saves and loads a session by id", async () => {
+    const session = createSession("qwen3:8b", new Date("2026-01-02T03:04:05.678Z"));
+    assert.equal(session.id, "2026-01-02T03-04-05-678Z");
+    session.turns.push({
+      question: "q",
+      searchQuery: "q",
+      answer: "a",
+      sources: [],
+      askedAt: session.createdAt
+    });
+    const saved = await saveSession(indexDir, session);
+    assert.equal(saved, path.join(indexDir, "sessions", `${session.id}.json`));
+    assert.deepEqual(await loadSession(indexDir, session.id), session);
+  });
+
+  it("rejects unknown and malformed ids", async () => {
+    await assert.rejects(loadSession(indexDir, "missing"), /Session missing not found/);
+    await assert.rejects(loadSession(indexDir, "../manifest"), /Invalid session id/);
+  });
+});
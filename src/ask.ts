@@ -0,0 +1,273 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  estimateTokens,
+  packContext,
+  promptBudgetTokens,
+  resolveContextWindow,
+  type ContextReport,
+  type PackedContext
+} from "./budget.js";
+import { createProvider, type ChatProvider, type GenerateStats, type ProviderConfig } from "./provider.js";
+import { formatChunkLocation, type RetrievalMode } from "./retrieval.js";
+import { searchIndex } from "./search.js";
+import type { ChunkFilter } from "./store.js";
+import type { RetrievalResult } from "./types.js";
+
+export const SESSIONS_DIR = "sessions";
+// Earlier turns beyond this are left out of the prompt; the saved session keeps all of them.
+const HISTORY_TURNS = 6;
+const MAX_HISTORY_ANSWER_CHARS = 1200;
+const SESSION_ID_PATTERN = /^[\w.-]+$/;
+const CITATION_PATTERN = /\[([^[\]\s]+):(\d+)-(\d+)\]/g;
+
+const ASK_SYSTEM = [
+  "You answer questions about a code repository.",
+  "Use only the code context and the conversation; say so when they do not contain the answer.",
+  "Cite every snippet you rely on as [path:start-end], with the path and line range from its Path line.",
+  "Answer in the language of the question."
+].join(" ");
+
+const CONDENSE_SYSTEM = [
+  "Rewrite the follow-up question as a standalone query for a code search engine.",
+  "Resolve references to the conversation, keep identifiers and file names, and keep the language of the question.",
+  "Reply with the query only."
+].join(" ");
+
+export interface AskOptions {
+  repoRoot: string;
+  indexDir: string;
+  provider: ProviderConfig;
+  model: string;
+  topK: number;
+  embeddingModel?: string;
+  retrievalMode?: RetrievalMode;
+  rerankModel?: string;
+  rerankCandidates?: number;
+  // Workspace repositories searched for context; all when empty.
+  repoFilter?: string[];
+  filter?: ChunkFilter;
+  // Context window of the model in tokens; asked from the provider by default.
+  contextTokens?: number;
+  // Receives the answer as it streams in.
+  onToken?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+/** A context block the answer was given, and whether the answer cites it. */
+export interface AskSource {
+  ids: string[];
+  location: string;
+  cited: boolean;
+}
+
+export interface AskTurn {
+  question: string;
+  // What retrieval searched for: the question itself, or a standalone rewrite of a follow-up.
+  searchQuery: string;
+  answer: string;
+  sources: AskSource[];
+  askedAt: string;
+}
+
+export interface AskSession {
+  version: 1;
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  model: string;
+  turns: AskTurn[];
+}
+
+export interface AskResult {
+  turn: AskTurn;
+  retrieval: RetrievalResult[];
+  context: ContextReport;
+  warnings: string[];
+  generation?: GenerateStats;
+}
+
+export interface Citation {
+  path: string;
+  startLine: number;
+  endLine: number;
+}
+
+export function createSession(model: string, now = new Date()): AskSession {
+  const createdAt = now.toISOString();
+  return { version: 1, id: createdAt.replace(/[:.]/g, "-"), createdAt, updatedAt: createdAt, model, turns: [] };
+}
+
+function sessionPath(indexDir: string, id: string): string {
+  if (!SESSION_ID_PATTERN.test(id)) {
+    throw new Error(`Invalid session id: ${id}`);
+  }
+  return path.join(indexDir, SESSIONS_DIR, `${id}.json`);
+}
+
+export async function loadSession(indexDir: string, id: string): Promise<AskSession> {
+  const sessionFile = sessionPath(indexDir, id);
+  let content: string;
+  try {
+    content = await readFile(sessionFile, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Session ${id} not found in ${path.dirname(sessionFile)}`);
+    }
+    throw error;
+  }
+  const session = JSON.parse(content) as AskSession;
+  if (session.version !== 1 || !Array.isArray(session.turns)) {
+    throw new Error(`Unsupported session file: ${sessionFile}`);
+  }
+  return session;
+}
+
+export async function saveSession(indexDir: string, session: AskSession): Promise<string> {
+  const sessionFile = sessionPath(indexDir, session.id);
+  await mkdir(path.dirname(sessionFile), { recursive: true });
+  await writeFile(sessionFile, JSON.stringify(session, null, 2), "utf8");
+  return sessionFile;
+}
+
+/** `[path:start-end]` references in an answer; the path keeps a `repo:` prefix when the model wrote one. */
+export function parseCitations(answer: string): Citation[] {
+  return [...answer.matchAll(CITATION_PATTERN)].map((match) => ({
+    path: match[1] ?? "",
+    startLine: Number(match[2]),
+    endLine: Number(match[3])
+  }));
+}
+
+/** Sources of the given context blocks; a block is cited when a citation names its file and overlaps its lines. */
+export function citedSources(contexts: PackedContext[], answer: string): AskSource[] {
+  const citations = parseCitations(answer);
+  return contexts.map(({ result, ids }) => {
+    const chunk = result.chunk;
+    const paths = chunk.repo ? [chunk.path, `${chunk.repo}:${chunk.path}`] : [chunk.path];
+    const cited = citations.some(
+      (citation) =>
+        paths.includes(citation.path) && citation.startLine <= chunk.endLine && citation.endLine >= chunk.startLine
+    );
+    return { ids, location: formatChunkLocation(chunk), cited };
+  });
+}
+
+function clip(value: string, maxChars: number): string {
+  return value.length <= maxChars ? value : `${value.slice(0, maxChars)}...`;
+}
+
+function formatHistory(turns: AskTurn[]): string {
+  return turns
+    .slice(-HISTORY_TURNS)
+    .map((turn) => `Question: ${turn.question}\nAnswer: ${clip(turn.answer, MAX_HISTORY_ANSWER_CHARS)}`)
+    .join("\n\n");
+}
+
+function formatBlock({ result }: PackedContext): string {
+  const chunk = result.chunk;
+  const symbol = chunk.symbol ? `\nSymbol: ${chunk.nodeType ? `${chunk.nodeType} ` : ""}${chunk.symbol}` : "";
+  return `Path: ${formatChunkLocation(chunk)}${symbol}\n\`\`\`\n${chunk.content}\n\`\`\``;
+}
+
+function buildAskPrompt(history: string, question: string, contexts: PackedContext[]): string {
+  return [
+    history ? `Conversation so far:\n${history}` : "",
+    `Code context:\n${contexts.length > 0 ? contexts.map(formatBlock).join("\n\n") : "(nothing found)"}`,
+    `Question: ${question}`
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+// Follow-ups like "and where is it invalidated?" retrieve nothing useful on their own.
+async function condenseQuestion(
+  client: ChatProvider,
+  history: string,
+  question: string,
+  options: AskOptions & { contextLength: number },
+  warnings: string[]
+): Promise<string> {
+  try {
+    const query = await client.generate(
+      options.model,
+      `Conversation:\n${history}\n\nFollow-up question: ${question}`,
+      CONDENSE_SYSTEM,
+      { temperature: 0, contextLength: options.contextLength, signal: options.signal }
+    );
+    return query.split("\n").find((line) => line.trim())?.trim() || question;
+  } catch (error) {
+    if (options.signal?.aborted) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    warnings.push(`Could not rewrite the follow-up into a search query (${message}); searching for the question.`);
+    return question;
+  }
+}
+
+/**
+ * Answers `question` from retrieved context and the session history, and appends the turn to `session`. Follow-up
+ * questions are rewritten into a standalone search query first.
+ */
+export async function askQuestion(session: AskSession, question: string, options: AskOptions): Promise<AskResult> {
+  const warnings: string[] = [];
+  const client = createProvider(options.provider);
+  const windowTokens = await resolveContextWindow(client, options.model, options.contextTokens, warnings);
+  const history = formatHistory(session.turns);
+  const searchQuery = history
+    ? await condenseQuestion(client, history, question, { ...options, contextLength: windowTokens }, warnings)
+    : question;
+
+  const { results: retrieval, warnings: searchWarnings } = await searchIndex({
+    repoRoot: options.repoRoot,
+    indexDir: options.indexDir,
+    provider: options.provider,
+    query: searchQuery,
+    topK: options.topK,
+    embeddingModel: options.embeddingModel,
+    retrievalMode: options.retrievalMode,
+    rerankModel: options.rerankModel,
+    rerankCandidates: options.rerankCandidates,
+    repoFilter: options.repoFilter,
+    filter: options.filter
+  });
+  warnings.push(...searchWarnings);
+  const fixedTokens = estimateTokens(ASK_SYSTEM) + estimateTokens(buildAskPrompt(history, question, []));
+  const budgetTokens = promptBudgetTokens(windowTokens, fixedTokens);
+  const packed = packContext({ diff: "", maxDiffChars: 0, contexts: retrieval, budgetTokens });
+
+  let answer = "";
+  let generation: GenerateStats | undefined;
+  for await (const chunk of client.generateStream(
+    options.model,
+    buildAskPrompt(history, question, packed.contexts),
+    ASK_SYSTEM,
+    { contextLength: windowTokens, signal: options.signal }
+  )) {
+    answer += chunk.text;
+    generation = chunk.stats ?? generation;
+    if (chunk.text) {
+      options.onToken?.(chunk.text);
+    }
+  }
+  answer = answer.trim();
+
+  const turn: AskTurn = {
+    question,
+    searchQuery,
+    answer,
+    sources: citedSources(packed.contexts, answer),
+    askedAt: new Date().toISOString()
+  };
+  session.turns.push(turn);
+  session.model = options.model;
+  session.updatedAt = turn.askedAt;
+  return {
+    turn,
+    retrieval,
+    context: { windowTokens, budgetTokens: Math.max(0, budgetTokens), ...packed.report },
+    warnings,
+    ...(generation ? { generation } : {})
+  };
+}
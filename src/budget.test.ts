@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { estimateTokens, packContext, truncateDiff } from "./budget.js";
+import type { RetrievalOrigin, RetrievalResult } from "./types.js";
+
+function lines(start: number, end: number): string {
+  return Array.from({ length: end - start + 1 }, (_, offset) => `line ${start + offset}`).join("\n");
+}
+
+function result(
+  id: string,
+  startLine: number,
+  endLine: number,
+  options: { score?: number; origin?: RetrievalOrigin; path?: string; content?: string } = {}
+): RetrievalResult {
+  return {
+    score: options.score ?? 0.5,
+    origin: options.origin,
+    chunk: {
+      id,
+      path: options.path ?? "src/a.ts",
+      language: "ts",
+      startLine,
+      endLine,
+      content: options.content ?? lines(startLine, endLine),
+      chunkingStrategy: "text",
+      contentHash: "",
+      fileMtimeMs: 0,
+      fileSize: 0,
+      embedding: []
+    }
+  };
+}
+
+const DIFF = [
+  "diff --git a/src/a.ts b/src/a.ts",
+  "--- a/src/a.ts",
+  "+++ b/src/a.ts",
+  "@@ -40,3 +40,4 @@",
+  " line 40",
+  "+line 41",
+  " line 42",
+  " line 43"
+].join("\n");
+
+describe("truncateDiff", () => {
+  it("cuts at a line boundary", () => {
+    assert.deepEqual(truncateDiff("aaa\nbbb\nccc", 9), { diff: "aaa\nbbb\n\n[...truncated...]", truncated: true });
+    assert.deepEqual(truncateDiff("aaa", 9), { diff: "aaa", truncated: false });
+  });
+});
+
+describe("packContext", () => {
+  it("merges overlapping and adjacent chunks of a file into one block", () => {
+    const packed = packContext({
+      diff: "",
+      maxDiffChars: 1000,
+      budgetTokens: 10_000,
+      contexts: [result("a", 1, 5), result("b", 4, 8, { score: 0.9 }), result("c", 9, 10), result("d", 20, 21)]
+    });
+    assert.deepEqual(
+      packed.contexts.map((block) => [block.ids, block.result.chunk.startLine, block.result.chunk.endLine]),
+      [
+        [["a", "b", "c"], 1, 10],
+        [["d"], 20, 21]
+      ]
+    );
+    assert.equal(packed.contexts[0]?.result.chunk.content, lines(1, 10));
+    assert.equal(packed.contexts[0]?.result.score, 0.9);
+  });
+
+  it("drops chunks the diff already shows in full", () => {
+    const packed = packContext({
+      diff: DIFF,
+      maxDiffChars: 1000,
+      budgetTokens: 10_000,
+      contexts: [result("shown", 41, 43), result("partial", 42, 45), result("other", 41, 43, { path: "src/b.ts" })]
+    });
+    assert.deepEqual(packed.report.dropped, [
+      { id: "shown", location: "src/a.ts:41-43", reason: "in-diff", tokens: estimateTokens(lines(41, 43)) + 40 }
+    ]);
+    assert.deepEqual(
+      packed.contexts.map((block) => block.ids),
+      [["partial"], ["other"]]
+    );
+  });
+
+  it("fills the budget tier by tier and by score", () => {
+    const big = "x".repeat(300);
+    const packed = packContext({
+      diff: "",
+      maxDiffChars: 1000,
+      budgetTokens: 300,
+      contexts: [
+        result("low", 1, 1, { score: 0.2, content: big }),
+        result("graph", 10, 10, { score: 0.9, origin: "graph", content: big }),
+        result("high", 20, 20, { score: 0.8, content: big }),
+        result("changed", 30, 30, { score: 0.1, origin: "diff", content: big })
+      ]
+    });
+    assert.deepEqual(
+      packed.contexts.map((block) => block.ids[0]),
+      ["changed", "high"]
+    );
+    assert.deepEqual(
+      packed.report.dropped.map((entry) => [entry.id, entry.reason]),
+      [
+        ["low", "budget"],
+        ["graph", "budget"]
+      ]
+    );
+  });
+
+  it("keeps the diff within its share of the budget", () => {
+    const diff = Array.from({ length: 200 }, (_, index) => `+added line ${index}`).join("\n");
+    const packed = packContext({ diff, maxDiffChars: 100_000, budgetTokens: 500, contexts: [] });
+    assert.equal(packed.report.diffTruncated, true);
+    assert.ok(packed.report.diffTokens <= 500 * 0.6 + 10);
+  });
+});
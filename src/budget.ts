@@ -0,0 +1,303 @@
+import { parseUnifiedDiff } from "./git.js";
+import type { ChatProvider } from "./provider.js";
+import { formatChunkLocation } from "./retrieval.js";
+import type { RetrievalOrigin, RetrievalResult } from "./types.js";
+
+// Code and non-English text tokenize denser than English prose, so the estimate errs on the high side.
+const CHARS_PER_TOKEN = 3;
+// Id, origin, path and metadata lines around each chunk in the prompt.
+const CHUNK_HEADER_TOKENS = 40;
+// Share of the budget the diff may take before it is truncated; the rest is kept for context.
+const DIFF_SHARE = 0.6;
+const TRUNCATION_MARKER = "\n\n[...truncated...]";
+// Used when the provider does not report the model's context window.
+const DEFAULT_CONTEXT_TOKENS = 8192;
+// Ollama allocates the whole window when it loads the model; larger windows take an explicit override.
+const MAX_CONTEXT_TOKENS = 16384;
+// Kept free for the answer, at most a quarter of the window.
+const ANSWER_TOKENS = 2048;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export interface PackContextOptions {
+  diff: string;
+  maxDiffChars: number;
+  // Retrieved chunks; their order breaks score ties.
+  contexts: RetrievalResult[];
+  // Tokens for the diff and context blocks together.
+  budgetTokens: number;
+  // Workspace member the diff belongs to; chunks of other members never duplicate it.
+  repo?: string;
+}
+
+/** A prompt block: one chunk, or overlapping and adjacent chunks of a file merged into one. */
+export interface PackedContext {
+  result: RetrievalResult;
+  // Ids of every chunk in the block; the model may cite any of them.
+  ids: string[];
+}
+
+export type DropReason = "in-diff" | "budget";
+
+export interface ContextReport {
+  // Context window of the review model.
+  windowTokens: number;
+  // Tokens left for the diff and context after the instructions and the answer reserve.
+  budgetTokens: number;
+  diffTokens: number;
+  diffTruncated: boolean;
+  contextTokens: number;
+  included: Array<{ ids: string[]; location: string; origin: RetrievalOrigin; tokens: number }>;
+  dropped: Array<{ id: string; location: string; reason: DropReason; tokens: number }>;
+}
+
+export interface PackedPrompt {
+  diff: string;
+  contexts: PackedContext[];
+  report: Omit<ContextReport, "windowTokens" | "budgetTokens">;
+}
+
+interface Piece {
+  result: RetrievalResult;
+  // Content by line number; null when the content does not line up with the chunk's line range.
+  lines: Map<number, string> | null;
+}
+
+type AlignedPiece = Piece & { lines: Map<number, string> };
+
+function isAligned(piece: Piece): piece is AlignedPiece {
+  return piece.lines !== null;
+}
+
+const TIER: Record<RetrievalOrigin, number> = { diff: 0, search: 1, graph: 2 };
+
+function tier(result: RetrievalResult): number {
+  return TIER[result.origin ?? "search"];
+}
+
+function fileKey(result: RetrievalResult): string {
+  return `${result.chunk.repo ?? ""}\0${result.chunk.path}`;
+}
+
+function lineMap(result: RetrievalResult): Map<number, string> | null {
+  const { startLine, endLine, content } = result.chunk;
+  const lines = content.split("\n");
+  if (lines.length !== endLine - startLine + 1) {
+    return null;
+  }
+  return new Map(lines.map((line, offset) => [startLine + offset, line]));
+}
+
+/**
+ * Context window to plan a prompt for: `override` when set, otherwise what the provider reports (capped), otherwise
+ * a default with a warning.
+ */
+export async function resolveContextWindow(
+  client: ChatProvider,
+  model: string,
+  override: number | undefined,
+  warnings: string[]
+): Promise<number> {
+  if (override) {
+    return override;
+  }
+  let reason = "the provider does not report it";
+  try {
+    const length = await client.contextLength(model);
+    if (length) {
+      return Math.min(length, MAX_CONTEXT_TOKENS);
+    }
+  } catch (error) {
+    reason = error instanceof Error ? error.message : String(error);
+  }
+  warnings.push(
+    `Context window of ${model} is unknown (${reason}); assuming ${DEFAULT_CONTEXT_TOKENS} tokens, ` +
+      "set --context-tokens to override."
+  );
+  return DEFAULT_CONTEXT_TOKENS;
+}
+
+/** Tokens left for the variable part of a prompt once the answer reserve and `fixedTokens` are taken. */
+export function promptBudgetTokens(windowTokens: number, fixedTokens: number): number {
+  return windowTokens - Math.min(ANSWER_TOKENS, Math.floor(windowTokens / 4)) - fixedTokens;
+}
+
+/** Diff characters that fit the diff's share of `budgetTokens`, at most `maxDiffChars`. */
+export function diffCharBudget(budgetTokens: number, maxDiffChars: number): number {
+  return Math.min(maxDiffChars, Math.floor(Math.max(0, budgetTokens) * DIFF_SHARE) * CHARS_PER_TOKEN);
+}
+
+/** Cuts the diff at a line boundary so it fits `maxChars`. */
+export function truncateDiff(diff: string, maxChars: number): { diff: string; truncated: boolean } {
+  if (diff.length <= maxChars) {
+    return { diff, truncated: false };
+  }
+  const cut = diff.lastIndexOf("\n", maxChars);
+  return { diff: `${diff.slice(0, cut > 0 ? cut : maxChars)}${TRUNCATION_MARKER}`, truncated: true };
+}
+
+/** New-file lines the diff shows (added and context lines), by path. */
+function visibleDiffLines(diff: string): Map<string, Set<number>> {
+  const visible = new Map<string, Set<number>>();
+  for (const file of parseUnifiedDiff(diff)) {
+    const lines = visible.get(file.path) ?? new Set<number>();
+    for (const line of file.hunks.flatMap((hunk) => hunk.lines)) {
+      if (line.type !== "del" && line.newLine !== undefined) {
+        lines.add(line.newLine);
+      }
+    }
+    visible.set(file.path, lines);
+  }
+  return visible;
+}
+
+function isInDiff(result: RetrievalResult, visible: Map<string, Set<number>>, repo?: string): boolean {
+  const { chunk } = result;
+  const lines = chunk.repo === repo ? visible.get(chunk.path) : undefined;
+  if (!lines) {
+    return false;
+  }
+  for (let line = chunk.startLine; line <= chunk.endLine; line += 1) {
+    if (!lines.has(line)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Joins pieces of one file whose line ranges overlap or touch; pieces that do not line up stay on their own.
+function mergePieces(pieces: Piece[]): PackedContext[] {
+  const aligned = pieces.filter(isAligned).sort((a, b) => a.result.chunk.startLine - b.result.chunk.startLine);
+  const groups: AlignedPiece[][] = [];
+  let groupEnd = -Infinity;
+  for (const piece of aligned) {
+    const { startLine, endLine } = piece.result.chunk;
+    const current = groups.at(-1);
+    if (current && startLine <= groupEnd + 1) {
+      current.push(piece);
+      groupEnd = Math.max(groupEnd, endLine);
+    } else {
+      groups.push([piece]);
+      groupEnd = endLine;
+    }
+  }
+
+  const merged = groups.flatMap((group): PackedContext[] => {
+    // The best piece by priority and score gives the block its origin and label.
+    const [lead] = [...group].sort((a, b) => tier(a.result) - tier(b.result) || b.result.score - a.result.score);
+    if (!lead) {
+      return [];
+    }
+    if (group.length === 1) {
+      return [{ result: lead.result, ids: [lead.result.chunk.id] }];
+    }
+    const lines = new Map<number, string>();
+    for (const piece of group) {
+      for (const [line, text] of piece.lines) {
+        // An AST chunk starts at its node, so its first line may miss the indentation another chunk has.
+        if ((lines.get(line)?.length ?? -1) < text.length) {
+          lines.set(line, text);
+        }
+      }
+    }
+    const startLine = Math.min(...lines.keys());
+    const endLine = Math.max(...lines.keys());
+    const content = Array.from({ length: endLine - startLine + 1 }, (_, offset) => lines.get(startLine + offset) ?? "");
+    const same = (key: "symbol" | "nodeType") =>
+      group.every((piece) => piece.result.chunk[key] === lead.result.chunk[key]);
+    return [
+      {
+        result: {
+          ...lead.result,
+          score: Math.max(...group.map((piece) => piece.result.score)),
+          chunk: {
+            ...lead.result.chunk,
+            startLine,
+            endLine,
+            content: content.join("\n"),
+            symbol: same("symbol") ? lead.result.chunk.symbol : undefined,
+            nodeType: same("nodeType") ? lead.result.chunk.nodeType : undefined
+          }
+        },
+        ids: group.map((piece) => piece.result.chunk.id)
+      }
+    ];
+  });
+  const standalone = pieces
+    .filter((piece) => !piece.lines)
+    .map((piece) => ({ result: piece.result, ids: [piece.result.chunk.id] }));
+  return [...merged, ...standalone];
+}
+
+/**
+ * Fits the diff and retrieved chunks into `budgetTokens`. The diff is cut at a line boundary to its share of the
+ * budget (and `maxDiffChars`); chunks the remaining diff already shows in full are dropped. The rest are taken tier
+ * by tier (changed declarations, search, graph) and by score within a tier while they fit. A chunk overlapping or
+ * touching one already taken only costs its new lines, and such chunks are merged into one block per region.
+ */
+export function packContext(options: PackContextOptions): PackedPrompt {
+  const budget = Math.max(0, options.budgetTokens);
+  const { diff, truncated } = truncateDiff(options.diff, diffCharBudget(budget, options.maxDiffChars));
+  const diffTokens = estimateTokens(diff);
+  const visible = visibleDiffLines(diff);
+
+  const ordered = options.contexts
+    .map((result, index) => ({ result, index }))
+    .sort((a, b) => tier(a.result) - tier(b.result) || b.result.score - a.result.score || a.index - b.index)
+    .map((entry) => entry.result);
+
+  const dropped: ContextReport["dropped"] = [];
+  const taken = new Map<string, Piece[]>();
+  let used = diffTokens;
+  for (const result of ordered) {
+    const location = formatChunkLocation(result.chunk);
+    const chunkTokens = estimateTokens(result.chunk.content) + CHUNK_HEADER_TOKENS;
+    if (isInDiff(result, visible, options.repo)) {
+      dropped.push({ id: result.chunk.id, location, reason: "in-diff", tokens: chunkTokens });
+      continue;
+    }
+
+    const piece: Piece = { result, lines: lineMap(result) };
+    const pieces = taken.get(fileKey(result)) ?? [];
+    let cost = chunkTokens;
+    if (piece.lines) {
+      const { startLine, endLine } = result.chunk;
+      const takenLines = pieces.filter(isAligned);
+      const touches = takenLines.some(
+        (other) => other.result.chunk.startLine <= endLine + 1 && startLine <= other.result.chunk.endLine + 1
+      );
+      const fresh = [...piece.lines].filter(([line]) => !takenLines.some((other) => other.lines.has(line)));
+      cost = estimateTokens(fresh.map(([, text]) => text).join("\n")) + (touches ? 0 : CHUNK_HEADER_TOKENS);
+    }
+    if (used + cost > budget) {
+      dropped.push({ id: result.chunk.id, location, reason: "budget", tokens: chunkTokens });
+      continue;
+    }
+    used += cost;
+    pieces.push(piece);
+    taken.set(fileKey(result), pieces);
+  }
+
+  const contexts = [...taken.values()]
+    .flatMap((pieces) => mergePieces(pieces))
+    .sort((a, b) => tier(a.result) - tier(b.result) || b.result.score - a.result.score);
+  const included = contexts.map((packed) => ({
+    ids: packed.ids,
+    location: formatChunkLocation(packed.result.chunk),
+    origin: packed.result.origin ?? "search",
+    tokens: estimateTokens(packed.result.chunk.content) + CHUNK_HEADER_TOKENS
+  }));
+  return {
+    diff,
+    contexts,
+    report: {
+      diffTokens,
+      diffTruncated: truncated,
+      contextTokens: included.reduce((sum, block) => sum + block.tokens, 0),
+      included,
+      dropped
+    }
+  };
+}
@@ -1,5 +1,6 @@
 import path from "node:path";
 import * as ts from "typescript";
+import { extractFileGraph, type FileGraph } from "./graph.js";
 
 export interface ChunkPart {
   startLine: number;
@@ -102,6 +103,11 @@ function supportsTypeScriptAst(language: string, filePath: string): boolean {
   return AST_SUPPORTED_EXTENSIONS.has(ext) || AST_SUPPORTED_LANGUAGES.has(language.toLowerCase());
 }
 
+/** Whether `analyzeSourceCode` extracts a code graph for this file. */
+export function supportsCodeGraph(filePath: string, language = ""): boolean {
+  return supportsTypeScriptAst(language, filePath);
+}
+
 function scriptKindFromFilePath(filePath: string): ts.ScriptKind {
   const ext = path.extname(filePath).toLowerCase();
   if (ext === ".tsx") {
@@ -178,15 +184,11 @@ function splitLargeChunk(
   }));
 }
 
-function chunkTypeScriptAst(text: string, filePath: string, options: ChunkOptions): ChunkPart[] {
-  const sourceFile = ts.createSourceFile(
-    filePath,
-    text,
-    ts.ScriptTarget.Latest,
-    true,
-    scriptKindFromFilePath(filePath)
-  );
+function parseTypeScriptSource(text: string, filePath: string): ts.SourceFile {
+  return ts.createSourceFile(filePath, text, ts.ScriptTarget.Latest, true, scriptKindFromFilePath(filePath));
+}
 
+function chunkTypeScriptAst(text: string, sourceFile: ts.SourceFile, options: ChunkOptions): ChunkPart[] {
   const chunks: ChunkPart[] = [];
 
   function addAstChunk(node: ts.Node): void {
@@ -244,7 +246,25 @@ function chunkTypeScriptAst(text: string, filePath: string, options: ChunkOption
 
 export function chunkSourceCode(text: string, options: SourceChunkOptions): ChunkPart[] {
   if (options.mode === "ast" && supportsTypeScriptAst(options.language, options.filePath)) {
-    return chunkTypeScriptAst(text, options.filePath, options);
+    return chunkTypeScriptAst(text, parseTypeScriptSource(text, options.filePath), options);
   }
   return chunkTextByLines(text, options);
 }
+
+export interface AnalyzedSource {
+  parts: ChunkPart[];
+  // Symbol/import/call graph; only for JS/TS files.
+  graph?: FileGraph;
+}
+
+/** Chunks a file and, for JS/TS, extracts its code graph from the same parse. */
+export function analyzeSourceCode(text: string, options: SourceChunkOptions): AnalyzedSource {
+  if (!supportsTypeScriptAst(options.language, options.filePath)) {
+    return { parts: chunkTextByLines(text, options) };
+  }
+
+  const sourceFile = parseTypeScriptSource(text, options.filePath);
+  const parts =
+    options.mode === "ast" ? chunkTypeScriptAst(text, sourceFile, options) : chunkTextByLines(text, options);
+  return { parts, graph: extractFileGraph(sourceFile, options.filePath) };
+}
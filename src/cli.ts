@@ -1,10 +1,56 @@
 #!/usr/bin/env node
 import path from "node:path";
-import { Command } from "commander";
-import { buildIndex } from "./indexer.js";
-import { runReview } from "./review.js";
+import { createInterface } from "node:readline";
+import { Command, Option } from "commander";
+import { getRemoteUri } from "./git.js";
+import {
+  askQuestion,
+  createSession,
+  loadSession,
+  saveSession,
+  type AskResult,
+} from "./ask.js";
+import {
+  buildIndex,
+  buildWorkspaceIndex,
+  type FailedChunk,
+  type IndexOptions,
+  type IndexStats,
+} from "./indexer.js";
+import {
+  DEFAULT_EMBED_CONCURRENCY,
+  DEFAULT_EMBED_RETRIES,
+  DEFAULT_EMBED_TIMEOUT_MS,
+} from "./embedding.js";
+import { renderReview, type ReviewOutputFormat } from "./report.js";
+import {
+  formatChunkLocation,
+  type RetrievalMode,
+  type RetrievalUnit,
+} from "./retrieval.js";
+import {
+  DEFAULT_REVIEW_QUERY,
+  REVIEW_PRESETS,
+  REVIEW_TEMPLATE_FILE,
+  type ReviewPreset,
+} from "./prompts.js";
+import { runReview, type ReviewPassInfo, type ReviewStrategy } from "./review.js";
+import { writeSarif } from "./sarif.js";
+import { serveMcp } from "./mcp.js";
+import type { GenerateStats, ProviderConfig } from "./provider.js";
 import { searchIndex } from "./search.js";
+import { startServer } from "./server.js";
+import type { ContextReport } from "./budget.js";
 import type { ChunkingMode } from "./chunker.js";
+import { loadWorkspaceManifest, type ChunkFilter } from "./store.js";
+import type { IndexSource, ProviderName, RetrievalResult } from "./types.js";
+import { watchIndex, type WatchUpdate } from "./watcher.js";
+import {
+  loadWorkspaceConfig,
+  parseRepoSpec,
+  validateWorkspaceRepos,
+  type WorkspaceConfig,
+} from "./workspace.js";
 
 const program = new Command();
 
@@ -14,6 +60,8 @@ const DEFAULT_EMBED_MODEL =
 const DEFAULT_REVIEW_MODEL = process.env.CODE_RAG_REVIEW_MODEL ?? "qwen3:8b";
 const DEFAULT_OLLAMA_URL =
   process.env.OLLAMA_BASE_URL ?? "http://127.0.0.1:11434";
+const DEFAULT_OPENAI_URL =
+  process.env.OPENAI_BASE_URL ?? "http://127.0.0.1:8080/v1";
 
 function parseInteger(value: string, flag: string): number {
   const parsed = Number.parseInt(value, 10);
@@ -31,6 +79,14 @@ function collectList(value: string, current: string[]): string[] {
   return [...current, ...values];
 }
 
+function collectValues(value: string, current: string[]): string[] {
+  return [...current, value];
+}
+
+function formatLocation(item: RetrievalResult): string {
+  return formatChunkLocation(item.chunk);
+}
+
 function parseChunkingMode(value: string): ChunkingMode {
   if (value === "ast" || value === "text") {
     return value;
@@ -38,94 +94,566 @@ function parseChunkingMode(value: string): ChunkingMode {
   throw new Error("--chunking must be one of: ast, text");
 }
 
+function parseIndexSource(value: string): IndexSource {
+  if (value === "fs" || value === "git") {
+    return value;
+  }
+  throw new Error("--source must be one of: fs, git");
+}
+
+function parseProvider(value: string): ProviderName {
+  if (value === "ollama" || value === "openai") {
+    return value;
+  }
+  throw new Error("--provider must be one of: ollama, openai");
+}
+
+function parseReviewPreset(value: string): ReviewPreset {
+  if (REVIEW_PRESETS.includes(value as ReviewPreset)) {
+    return value as ReviewPreset;
+  }
+  throw new Error(`--preset must be one of: ${REVIEW_PRESETS.join(", ")}`);
+}
+
+function parseReviewStrategy(value: string): ReviewStrategy {
+  if (value === "single" || value === "per-file") {
+    return value;
+  }
+  throw new Error("--strategy must be one of: single, per-file");
+}
+
+function parseReviewFormat(value: string): ReviewOutputFormat {
+  if (value === "text" || value === "json" || value === "markdown") {
+    return value;
+  }
+  throw new Error("--format must be one of: text, json, markdown");
+}
+
+function parseRetrievalUnit(value: string): RetrievalUnit {
+  if (value === "hunk" || value === "file") {
+    return value;
+  }
+  throw new Error("--retrieval-unit must be one of: hunk, file");
+}
+
+function parseRetrievalMode(value: string): RetrievalMode {
+  if (value === "vector" || value === "lexical" || value === "hybrid") {
+    return value;
+  }
+  throw new Error("--retrieval must be one of: vector, lexical, hybrid");
+}
+
+function formatScores(item: RetrievalResult): string {
+  const parts = [`score=${item.score.toFixed(4)}`];
+  if (item.vectorScore !== undefined) {
+    parts.push(`vector=${item.vectorScore.toFixed(4)}`);
+  }
+  if (item.lexicalScore !== undefined) {
+    parts.push(`lexical=${item.lexicalScore.toFixed(4)}`);
+  }
+  if (item.rerankScore !== undefined) {
+    parts.push(`rerank=${item.rerankScore.toFixed(2)}`);
+  }
+  return parts.join(" ");
+}
+
 program
   .name("code-rag")
-  .description("RAG indexing of codebases + local code review with Ollama")
+  .description(
+    "RAG indexing of codebases + local code review with Ollama or an OpenAI-compatible server",
+  )
   .version("0.1.0");
 
-program
-  .command("index")
-  .description("Index a repository into local vector store")
-  .option("--repo <path>", "repository root", process.cwd())
-  .option(
-    "--index-dir <path>",
-    "directory for index artifacts",
-    DEFAULT_INDEX_DIR,
-  )
-  .option(
-    "--embedding-model <name>",
-    "embedding model name",
-    DEFAULT_EMBED_MODEL,
-  )
-  .option(
-    "--chunking <mode>",
-    "chunking mode: ast or text",
-    parseChunkingMode,
-    "ast",
-  )
+function addProviderOptions(command: Command): Command {
+  return command
+    .option(
+      "--provider <name>",
+      "model backend: ollama or openai (OpenAI-compatible server)",
+      parseProvider,
+      "ollama",
+    )
+    .option(
+      "--base-url <url>",
+      `provider base URL (default: ${DEFAULT_OLLAMA_URL} for ollama, ${DEFAULT_OPENAI_URL} for openai)`,
+    )
+    .addOption(
+      new Option("--ollama-url <url>", "alias of --base-url").hideHelp(),
+    );
+}
+
+interface ProviderCommandOptions {
+  provider: ProviderName;
+  baseUrl?: string;
+  ollamaUrl?: string;
+}
+
+function toProviderConfig(options: ProviderCommandOptions): ProviderConfig {
+  const defaultUrl =
+    options.provider === "openai" ? DEFAULT_OPENAI_URL : DEFAULT_OLLAMA_URL;
+  return {
+    provider: options.provider,
+    baseUrl: options.baseUrl ?? options.ollamaUrl ?? defaultUrl,
+    apiKey: process.env.CODE_RAG_API_KEY,
+  };
+}
+
+function addIndexOptions(command: Command): Command {
+  return addProviderOptions(command)
+    .option(
+      "--repo <path>",
+      "repository root, or name=path; repeat to index a workspace (default: cwd)",
+      collectValues,
+      [] as string[],
+    )
+    .option(
+      "--index-dir <path>",
+      "directory for index artifacts",
+      DEFAULT_INDEX_DIR,
+    )
+    .option(
+      "--embedding-model <name>",
+      "embedding model name",
+      DEFAULT_EMBED_MODEL,
+    )
+    .option(
+      "--chunking <mode>",
+      "chunking mode: ast or text",
+      parseChunkingMode,
+      "ast",
+    )
+    .option(
+      "--chunk-size <chars>",
+      "chunk size in chars",
+      (v) => parseInteger(v, "--chunk-size"),
+      1400,
+    )
+    .option(
+      "--overlap-lines <count>",
+      "line overlap between chunks",
+      (v) => parseInteger(v, "--overlap-lines"),
+      20,
+    )
+    .option(
+      "--max-file-size-kb <kb>",
+      "max indexed file size in kilobytes",
+      (v) => parseInteger(v, "--max-file-size-kb"),
+      300,
+    )
+    .option(
+      "--batch-size <count>",
+      "embedding batch size",
+      (v) => parseInteger(v, "--batch-size"),
+      16,
+    )
+    .option(
+      "--embed-concurrency <count>",
+      "embedding batches in flight at once",
+      (v) => parseInteger(v, "--embed-concurrency"),
+      DEFAULT_EMBED_CONCURRENCY,
+    )
+    .option(
+      "--embed-timeout <seconds>",
+      "timeout of one embedding request",
+      (v) => parseInteger(v, "--embed-timeout"),
+      DEFAULT_EMBED_TIMEOUT_MS / 1000,
+    )
+    .option(
+      "--embed-retries <count>",
+      "retries of a failed embedding batch before it is split",
+      (v) => parseInteger(v, "--embed-retries"),
+      DEFAULT_EMBED_RETRIES,
+    )
+    .option(
+      "--exclude <dirs>",
+      "comma-separated excluded directories",
+      collectList,
+      [] as string[],
+    )
+    .option(
+      "--include <globs>",
+      "comma-separated globs; only matching files are indexed",
+      collectList,
+      [] as string[],
+    )
+    .option(
+      "--exclude-glob <globs>",
+      "comma-separated gitignore-style patterns for files and directories",
+      collectList,
+      [] as string[],
+    )
+    .option("--no-gitignore", "do not apply .gitignore files")
+    .option(
+      "--source <source>",
+      "file enumeration: fs (walk the tree) or git (git ls-files)",
+      parseIndexSource,
+      "fs",
+    )
+    .option(
+      "--untracked",
+      "with --source git, also index untracked files that are not ignored",
+      false,
+    );
+}
+
+interface IndexCommandOptions extends ProviderCommandOptions {
+  repo: string[];
+  workspace?: string;
+  indexDir: string;
+  embeddingModel: string;
+  chunking: ChunkingMode;
+  chunkSize: number;
+  overlapLines: number;
+  maxFileSizeKb: number;
+  batchSize: number;
+  embedConcurrency: number;
+  embedTimeout: number;
+  embedRetries: number;
+  exclude: string[];
+  include: string[];
+  excludeGlob: string[];
+  gitignore: boolean;
+  source: IndexSource;
+  untracked: boolean;
+  rev?: string;
+}
+
+function toIndexOptions(options: IndexCommandOptions): IndexOptions {
+  if (options.untracked && (options.source !== "git" || options.rev)) {
+    throw new Error("--untracked requires --source git and no --rev");
+  }
+  return {
+    repoRoot: path.resolve(options.repo[0] ?? process.cwd()),
+    indexDir: options.indexDir,
+    embeddingModel: options.embeddingModel,
+    chunkingMode: options.chunking,
+    chunkSize: options.chunkSize,
+    overlapLines: options.overlapLines,
+    maxFileSizeBytes: options.maxFileSizeKb * 1024,
+    batchSize: options.batchSize,
+    embedConcurrency: options.embedConcurrency,
+    embedTimeoutMs: options.embedTimeout * 1000,
+    embedRetries: options.embedRetries,
+    excludedDirs: options.exclude,
+    useGitignore: options.gitignore,
+    include: options.include,
+    excludeGlobs: options.excludeGlob,
+    source: options.source,
+    includeUntracked: options.untracked,
+    rev: options.rev,
+    provider: toProviderConfig(options),
+  };
+}
+
+/** Workspace from --workspace or repeated --repo; null for a single-repository index. */
+async function resolveIndexWorkspace(
+  options: IndexCommandOptions,
+): Promise<WorkspaceConfig | null> {
+  if (options.workspace) {
+    if (options.repo.length > 0) {
+      throw new Error("--workspace and --repo cannot be combined");
+    }
+    return loadWorkspaceConfig(options.workspace);
+  }
+  // A single named repository starts a workspace that others can join later.
+  if (options.repo.length < 2 && !options.repo[0]?.includes("=")) {
+    return null;
+  }
+  return {
+    indexDir: path.resolve(options.indexDir),
+    repos: validateWorkspaceRepos(
+      options.repo.map((spec) => parseRepoSpec(spec, process.cwd())),
+    ),
+  };
+}
+
+/** Index dir of a --workspace file, or --index-dir as given. */
+async function resolveIndexDir(options: {
+  indexDir: string;
+  workspace?: string;
+}): Promise<string> {
+  return options.workspace
+    ? (await loadWorkspaceConfig(options.workspace)).indexDir
+    : options.indexDir;
+}
+
+function addFilterOptions(command: Command, subject: string): Command {
+  return command
+    .option("--workspace <file>", "use the index of this workspace file")
+    .option(
+      "--repo-filter <names>",
+      `comma-separated workspace repositories to ${subject}`,
+      collectList,
+      [] as string[],
+    )
+    .option(
+      "--path <globs>",
+      `comma-separated path globs to ${subject}`,
+      collectList,
+      [] as string[],
+    )
+    .option(
+      "--language <names>",
+      "comma-separated languages (file extensions), e.g. ts,py",
+      collectList,
+      [] as string[],
+    )
+    .option(
+      "--node-type <types>",
+      "comma-separated AST node types, e.g. FunctionDeclaration",
+      collectList,
+      [] as string[],
+    )
+    .option(
+      "--symbol <globs>",
+      "comma-separated symbol name globs, e.g. 'User*'",
+      collectList,
+      [] as string[],
+    );
+}
+
+function toChunkFilter(options: {
+  path: string[];
+  language: string[];
+  nodeType: string[];
+  symbol: string[];
+}): ChunkFilter {
+  return {
+    paths: options.path,
+    languages: options.language,
+    nodeTypes: options.nodeType,
+    symbols: options.symbol,
+  };
+}
+
+function formatGenerateStats(stats: GenerateStats): string {
+  return (
+    `Review model: ${stats.promptTokens} prompt + ${stats.outputTokens} output tokens in ` +
+    `${(stats.totalDurationMs / 1000).toFixed(1)}s (${stats.tokensPerSecond.toFixed(1)} tok/s)`
+  );
+}
+
+function formatContextReport(report: ContextReport): string {
+  const chunks = report.included.reduce((sum, block) => sum + block.ids.length, 0);
+  const inDiff = report.dropped.filter((entry) => entry.reason === "in-diff").length;
+  const overBudget = report.dropped.length - inDiff;
+  return (
+    `Prompt context: ~${report.diffTokens + report.contextTokens} of ${report.budgetTokens} tokens ` +
+    `(window ${report.windowTokens}); diff ~${report.diffTokens}` +
+    `${report.diffTruncated ? " (truncated)" : ""}, ${chunks} chunks in ` +
+    `${report.included.length} blocks; dropped ${inDiff} shown in the diff, ${overBudget} over budget`
+  );
+}
+
+function printAskResult(result: AskResult, streamed: boolean): void {
+  console.log(streamed ? "" : result.turn.answer);
+  if (result.turn.sources.length > 0) {
+    console.log("\nSources:");
+    for (const source of result.turn.sources) {
+      console.log(`- ${source.location}${source.cited ? " (cited)" : ""}`);
+    }
+  }
+  if (result.generation) {
+    console.error(formatGenerateStats(result.generation));
+  }
+  for (const warning of result.warnings) {
+    console.error(`Warning: ${warning}`);
+  }
+}
+
+function waitForShutdown(): Promise<void> {
+  return new Promise((resolve) => {
+    process.once("SIGINT", () => resolve());
+    process.once("SIGTERM", () => resolve());
+  });
+}
+
+function printIndexStats(stats: IndexStats): void {
+  console.log(`Index saved: ${stats.indexPath}`);
+  if (stats.revision) {
+    console.log(
+      `Revision: ${stats.revision.ref} (${stats.revision.commit.slice(0, 12)})`,
+    );
+  }
+  console.log(`Files: ${stats.filesIndexed}, chunks: ${stats.chunksTotal}`);
+  if (stats.incremental) {
+    console.log(
+      `Changed files: ${stats.filesChanged}, removed files: ${stats.filesRemoved}${stats.vectorIndexRebuilt ? ", vector index retrained" : ""}`,
+    );
+  }
+  console.log(
+    `Embedded: ${stats.chunksEmbedded}, reused: ${stats.chunksReused}`,
+  );
+  const cache = stats.embeddingCache;
+  console.log(
+    `Embedding cache: ${cache.hits} hits, ${cache.stored} stored, ${cache.removed} removed`,
+  );
+  console.log(`Code graph symbols: ${stats.symbolsIndexed}`);
+  printFailedChunks(stats.failedChunks);
+}
+
+// Shown, not thrown: the rest of the index is saved and the files are retried on the next run.
+function printFailedChunks(failed: FailedChunk[]): void {
+  if (failed.length === 0) {
+    return;
+  }
+  console.error(
+    `Failed to embed ${failed.length} chunks (their files are retried on the next run):`,
+  );
+  for (const chunk of failed.slice(0, 20)) {
+    console.error(
+      `  ${chunk.path}:${chunk.startLine}-${chunk.endLine}: ${chunk.error}`,
+    );
+  }
+  if (failed.length > 20) {
+    console.error(`  ... and ${failed.length - 20} more`);
+  }
+}
+
+function formatWatchUpdate(update: WatchUpdate): string {
+  const time = new Date().toTimeString().slice(0, 8);
+  const { stats } = update;
+  const shown = update.rescanned
+    ? "ignore rules changed, full rescan"
+    : update.paths.slice(0, 5).join(", ");
+  const more =
+    !update.rescanned && update.paths.length > 5
+      ? ` (+${update.paths.length - 5} more)`
+      : "";
+  return (
+    `[${time}] changed ${stats.filesChanged}, removed ${stats.filesRemoved}; ` +
+    `embedded ${stats.chunksEmbedded}, chunks ${stats.chunksTotal}` +
+    `${stats.failedChunks.length > 0 ? `, failed ${stats.failedChunks.length}` : ""}` +
+    `${stats.vectorIndexRebuilt ? ", vector index retrained" : ""}: ${shown}${more}`
+  );
+}
+
+addIndexOptions(
+  program
+    .command("index")
+    .description("Index a repository into local vector store"),
+)
   .option(
-    "--chunk-size <chars>",
-    "chunk size in chars",
-    (v) => parseInteger(v, "--chunk-size"),
-    1400,
+    "--rev <ref>",
+    "index a git revision from git objects instead of the working tree",
   )
   .option(
-    "--overlap-lines <count>",
-    "line overlap between chunks",
-    (v) => parseInteger(v, "--overlap-lines"),
-    20,
+    "--workspace <file>",
+    "JSON file listing repositories to index together",
   )
+  .action(async (options: IndexCommandOptions) => {
+    const workspace = await resolveIndexWorkspace(options);
+    if (!workspace) {
+      printIndexStats(await buildIndex(toIndexOptions(options)));
+      return;
+    }
+    if (options.rev) {
+      throw new Error("--rev indexes a single repository");
+    }
+    const result = await buildWorkspaceIndex(
+      workspace.indexDir,
+      workspace.repos,
+      toIndexOptions(options),
+    );
+    for (const { name, stats } of result.repos) {
+      console.log(`\n[${name}]`);
+      printIndexStats(stats);
+    }
+    if (result.reposRemoved.length > 0) {
+      console.log(`\nRemoved repositories: ${result.reposRemoved.join(", ")}`);
+    }
+    console.log(
+      `\nEmbedding cache: ${result.embeddingCache.added} stored from the index, ${result.embeddingCache.removed} removed`,
+    );
+    console.log(`\nWorkspace index saved: ${result.indexPath}`);
+  });
+
+addIndexOptions(
+  program
+    .command("watch")
+    .description("Keep the index fresh while files change"),
+)
   .option(
-    "--max-file-size-kb <kb>",
-    "max indexed file size in kilobytes",
-    (v) => parseInteger(v, "--max-file-size-kb"),
-    300,
+    "--debounce-ms <ms>",
+    "quiet period before touched files are re-indexed",
+    (v) => parseInteger(v, "--debounce-ms"),
+    500,
   )
+  .action(async (options) => {
+    if (options.repo.length > 1) {
+      throw new Error("watch supports a single --repo");
+    }
+    const indexOptions = toIndexOptions(options);
+    // Catch up with changes made while nothing was watching.
+    printIndexStats(await buildIndex(indexOptions));
+
+    const watcher = watchIndex(
+      { ...indexOptions, debounceMs: options.debounceMs },
+      {
+        onUpdate: (update) => console.log(formatWatchUpdate(update)),
+        onError: (error) => {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`Update failed: ${message}`);
+        },
+      },
+    );
+    console.log(`Watching ${indexOptions.repoRoot} (Ctrl+C to stop)`);
+
+    await waitForShutdown();
+    await watcher.close();
+  });
+
+addIndexOptions(
+  program
+    .command("serve")
+    .description("Serve search, review and index APIs over local HTTP"),
+)
   .option(
-    "--batch-size <count>",
-    "embedding batch size",
-    (v) => parseInteger(v, "--batch-size"),
-    16,
+    "--workspace <file>",
+    "serve the index of this workspace file (reindex covers all its repositories)",
   )
+  .option("--host <host>", "address to listen on", "127.0.0.1")
   .option(
-    "--exclude <dirs>",
-    "comma-separated excluded directories",
-    collectList,
-    [] as string[],
+    "--port <port>",
+    "port to listen on",
+    (v) => parseInteger(v, "--port"),
+    7433,
   )
-  .option("--ollama-url <url>", "Ollama base URL", DEFAULT_OLLAMA_URL)
+  .option("--review-model <name>", "review LLM model", DEFAULT_REVIEW_MODEL)
   .action(async (options) => {
-    const repoRoot = path.resolve(options.repo);
-    const stats = await buildIndex({
-      repoRoot,
-      indexDir: options.indexDir,
-      embeddingModel: options.embeddingModel,
-      chunkingMode: options.chunking,
-      chunkSize: options.chunkSize,
-      overlapLines: options.overlapLines,
-      maxFileSizeBytes: options.maxFileSizeKb * 1024,
-      batchSize: options.batchSize,
-      excludedDirs: options.exclude,
-      ollamaUrl: options.ollamaUrl,
+    const workspace = await resolveIndexWorkspace(options);
+    const indexOptions = toIndexOptions(options);
+    const server = await startServer({
+      host: options.host,
+      port: options.port,
+      // Reviews default to the first workspace repository.
+      index: workspace
+        ? { ...indexOptions, repoRoot: workspace.repos[0]?.root ?? indexOptions.repoRoot }
+        : indexOptions,
+      workspace,
+      reviewModel: options.reviewModel,
     });
-
-    console.log(`Index saved: ${stats.indexPath}`);
-    console.log(`Files: ${stats.filesIndexed}, chunks: ${stats.chunksTotal}`);
     console.log(
-      `Embedded: ${stats.chunksEmbedded}, reused: ${stats.chunksReused}`,
+      `Listening on ${server.url}: GET /status, POST /search, POST /review, POST /reindex (Ctrl+C to stop)`,
     );
+
+    await waitForShutdown();
+    await server.close();
   });
 
-program
-  .command("review")
-  .description("Run code review using git diff + RAG context")
+addFilterOptions(
+  addProviderOptions(
+    program
+      .command("review")
+      .description("Run code review using git diff + RAG context"),
+  ),
+  "search for context",
+)
   .option("--repo <path>", "repository root", process.cwd())
   .option(
     "--index-dir <path>",
     "directory for index artifacts",
     DEFAULT_INDEX_DIR,
   )
-  .option("--ollama-url <url>", "Ollama base URL", DEFAULT_OLLAMA_URL)
   .option(
     "--embedding-model <name>",
     "override embedding model used for retrieval",
@@ -134,7 +662,7 @@ program
   .option(
     "--query <text>",
     "review task/prompt",
-    "Проведи code review текущего diff",
+    DEFAULT_REVIEW_QUERY,
   )
   .option(
     "--top-k <count>",
@@ -148,37 +676,216 @@ program
     (v) => parseInteger(v, "--max-diff-chars"),
     18000,
   )
+  .option(
+    "--context-tokens <count>",
+    "review model context window (default: reported by the provider, at most 16384)",
+    (v) => parseInteger(v, "--context-tokens"),
+  )
+  .option(
+    "--strategy <strategy>",
+    "single prompt (diff cut to fit) or per-file passes merged by a summary pass: single or per-file",
+    parseReviewStrategy,
+    "single",
+  )
+  .option(
+    "--preset <name>",
+    `review focus: ${REVIEW_PRESETS.join(", ")}`,
+    parseReviewPreset,
+    "general",
+  )
+  .option(
+    "--review-language <lang>",
+    "language of the review, e.g. en or ru (default: the language of the query)",
+  )
+  .option(
+    "--prompt-template <file>",
+    `user prompt template with {{query}}, {{diff}}, {{changed}} and {{context}} (default: ${REVIEW_TEMPLATE_FILE} if present)`,
+  )
   .option("--diff-file <path>", "optional explicit diff file")
+  .option("--base <ref>", "review changes since merge-base with this ref")
+  .option("--head <ref>", "head ref for --base (default: HEAD)")
+  .option("--commit <sha>", "review a single commit")
+  .option("--staged-only", "review only staged changes", false)
+  .option(
+    "--retrieval <mode>",
+    "retrieval mode: vector, lexical or hybrid",
+    parseRetrievalMode,
+    "hybrid",
+  )
+  .option("--rerank-model <name>", "model that reranks retrieved chunks")
+  .option(
+    "--rerank-candidates <count>",
+    "candidates fetched before reranking (default: 3 x top-k)",
+    (v) => parseInteger(v, "--rerank-candidates"),
+  )
+  .option(
+    "--changed-context <count>",
+    "max indexed declarations enclosing changed lines, plus siblings (0 disables)",
+    (v) => parseInteger(v, "--changed-context"),
+    12,
+  )
+  .option(
+    "--graph-context <count>",
+    "max definitions/callers/callees added from the code graph (0 disables)",
+    (v) => parseInteger(v, "--graph-context"),
+    6,
+  )
+  .option(
+    "--retrieval-unit <unit>",
+    "embed each diff hunk or each changed file separately: hunk or file",
+    parseRetrievalUnit,
+    "hunk",
+  )
+  .option(
+    "--per-file-quota <count>",
+    "snippets reserved per changed file (default: top-k / changed files)",
+    (v) => parseInteger(v, "--per-file-quota"),
+  )
   .option("--show-sources", "print retrieved RAG snippet metadata", false)
+  .option(
+    "--format <format>",
+    "output format: text, json or markdown",
+    parseReviewFormat,
+    "text",
+  )
+  .option("--sarif <file>", "also write findings as SARIF 2.1.0 to file")
+  .option("--no-stream", "do not print review model output while it is generated")
   .action(async (options) => {
     const repoRoot = path.resolve(options.repo);
+    let streamedAttempt = 0;
+    const onToken = (text: string, attempt: number) => {
+      if (attempt !== streamedAttempt) {
+        if (streamedAttempt > 0) {
+          process.stderr.write(
+            `\n\nMalformed answer, retrying (attempt ${attempt})...\n`,
+          );
+        }
+        streamedAttempt = attempt;
+      }
+      process.stderr.write(text);
+    };
+    const onPass = (pass: ReviewPassInfo) => {
+      process.stderr.write(
+        `${streamedAttempt > 0 ? "\n\n" : ""}[${pass.index}/${pass.total}] ${pass.label}\n`,
+      );
+      streamedAttempt = 0;
+    };
     const result = await runReview({
       repoRoot,
-      indexDir: options.indexDir,
-      ollamaUrl: options.ollamaUrl,
+      indexDir: await resolveIndexDir(options),
+      provider: toProviderConfig(options),
       reviewModel: options.reviewModel,
       embeddingModel: options.embeddingModel,
       query: options.query,
       topK: options.topK,
       maxDiffChars: options.maxDiffChars,
+      contextTokens: options.contextTokens,
       diffFile: options.diffFile,
+      baseRef: options.base,
+      headRef: options.head,
+      commit: options.commit,
+      stagedOnly: options.stagedOnly,
+      retrievalUnit: options.retrievalUnit,
+      retrievalMode: options.retrieval,
+      rerankModel: options.rerankModel,
+      rerankCandidates: options.rerankCandidates,
+      graphContext: options.graphContext,
+      changedContext: options.changedContext,
+      perFileQuota: options.perFileQuota,
+      repoFilter: options.repoFilter,
+      filter: toChunkFilter(options),
+      strategy: options.strategy,
+      language: options.reviewLanguage,
+      preset: options.preset,
+      promptTemplate: options.promptTemplate,
+      onPass,
+      onToken: options.stream ? onToken : undefined,
     });
 
-    console.log(result.output);
+    if (streamedAttempt > 0) {
+      process.stderr.write("\n\n");
+    }
+    if (result.context) {
+      console.error(formatContextReport(result.context));
+    }
+    for (const part of result.parts ?? []) {
+      console.error(`${part.label}: ${formatContextReport(part.context)}`);
+    }
+    if (result.generation) {
+      console.error(formatGenerateStats(result.generation));
+    }
+    for (const warning of result.warnings) {
+      console.error(`Warning: ${warning}`);
+    }
+    console.log(renderReview(result, options.format));
+
+    if (options.sarif) {
+      const sarifPath = path.resolve(options.sarif);
+      await writeSarif(sarifPath, result, {
+        repoRoot,
+        repositoryUri: await getRemoteUri(repoRoot),
+      });
+      console.error(`SARIF saved: ${sarifPath}`);
+    }
 
-    if (options.showSources) {
-      console.log("\nRAG sources:");
-      for (const item of result.retrieval) {
-        console.log(
-          `- ${item.chunk.path}:${item.chunk.startLine}-${item.chunk.endLine} (score=${item.score.toFixed(4)})`,
-        );
+    if (options.showSources && options.format !== "json") {
+      const groups: Array<[string, RetrievalResult[]]> = [
+        [
+          "Changed declarations",
+          result.retrieval.filter((entry) => entry.origin === "diff"),
+        ],
+        [
+          "RAG sources",
+          result.retrieval.filter(
+            (entry) => entry.origin !== "diff" && entry.origin !== "graph",
+          ),
+        ],
+        [
+          "Code graph sources",
+          result.retrieval.filter((entry) => entry.origin === "graph"),
+        ],
+      ];
+      for (const [title, items] of groups) {
+        if (items.length === 0) {
+          continue;
+        }
+        console.log(`\n${title}:`);
+        for (const item of items) {
+          const symbol = item.chunk.symbol
+            ? ` ${item.chunk.nodeType ?? ""} ${item.chunk.symbol}`
+            : "";
+          const detail =
+            item.origin === undefined || item.origin === "search"
+              ? formatScores(item)
+              : (item.relation ?? item.origin);
+          console.log(
+            `- ${item.chunk.id} ${formatLocation(item)}${symbol} (${detail})`,
+          );
+        }
+      }
+      const dropped = [
+        ...(result.context ? [result.context] : []),
+        ...(result.parts ?? []).map((part) => part.context),
+      ].flatMap((context) => context.dropped);
+      if (dropped.length > 0) {
+        console.log("\nLeft out of the prompt:");
+        for (const entry of dropped) {
+          const reason =
+            entry.reason === "in-diff" ? "shown in the diff" : "over budget";
+          console.log(`- ${entry.id} ${entry.location} (${reason})`);
+        }
       }
     }
   });
 
-program
-  .command("search")
-  .description("Debug retrieval: search closest code chunks by query")
+addFilterOptions(
+  addProviderOptions(
+    program
+      .command("search")
+      .description("Debug retrieval: search closest code chunks by query"),
+  ),
+  "search",
+)
   .requiredOption("--query <text>", "search query")
   .option("--repo <path>", "repository root", process.cwd())
   .option(
@@ -196,18 +903,37 @@ program
     (v) => parseInteger(v, "--top-k"),
     8,
   )
-  .option("--ollama-url <url>", "Ollama base URL", DEFAULT_OLLAMA_URL)
+  .option(
+    "--retrieval <mode>",
+    "retrieval mode: vector, lexical or hybrid",
+    parseRetrievalMode,
+    "hybrid",
+  )
+  .option("--rerank-model <name>", "model that reranks retrieved chunks")
+  .option(
+    "--rerank-candidates <count>",
+    "candidates fetched before reranking (default: 3 x top-k)",
+    (v) => parseInteger(v, "--rerank-candidates"),
+  )
   .action(async (options) => {
     const repoRoot = path.resolve(options.repo);
     const result = await searchIndex({
       repoRoot,
-      indexDir: options.indexDir,
-      ollamaUrl: options.ollamaUrl,
+      indexDir: await resolveIndexDir(options),
+      provider: toProviderConfig(options),
       query: options.query,
       topK: options.topK,
       embeddingModel: options.embeddingModel,
+      retrievalMode: options.retrieval,
+      rerankModel: options.rerankModel,
+      rerankCandidates: options.rerankCandidates,
+      repoFilter: options.repoFilter,
+      filter: toChunkFilter(options),
     });
 
+    for (const warning of result.warnings) {
+      console.error(`Warning: ${warning}`);
+    }
     if (result.results.length === 0) {
       console.log("No results.");
       return;
@@ -218,11 +944,158 @@ program
       const symbol = item.chunk.symbol ? ` symbol=${item.chunk.symbol}` : "";
       const nodeType = item.chunk.nodeType ? ` node=${item.chunk.nodeType}` : "";
       console.log(
-        `${item.score.toFixed(4)}  ${item.chunk.path}:${item.chunk.startLine}-${item.chunk.endLine}${nodeType}${symbol}\n${preview}\n`,
+        `${formatScores(item)}  ${formatLocation(item)}${nodeType}${symbol}\n${preview}\n`,
+      );
+    }
+  });
+
+addFilterOptions(
+  addProviderOptions(
+    program
+      .command("ask")
+      .description(
+        "Answer a question about the code from retrieved context, citing sources",
+      )
+      .argument("[question]", "question; omit with --interactive"),
+  ),
+  "search for context",
+)
+  .option("--repo <path>", "repository root", process.cwd())
+  .option(
+    "--index-dir <path>",
+    "directory for index artifacts",
+    DEFAULT_INDEX_DIR,
+  )
+  .option(
+    "--embedding-model <name>",
+    "override embedding model used for retrieval",
+  )
+  .option("--review-model <name>", "model that answers", DEFAULT_REVIEW_MODEL)
+  .option(
+    "--top-k <count>",
+    "how many snippets to retrieve per question",
+    (v) => parseInteger(v, "--top-k"),
+    8,
+  )
+  .option(
+    "--retrieval <mode>",
+    "retrieval mode: vector, lexical or hybrid",
+    parseRetrievalMode,
+    "hybrid",
+  )
+  .option("--rerank-model <name>", "model that reranks retrieved chunks")
+  .option(
+    "--rerank-candidates <count>",
+    "candidates fetched before reranking (default: 3 x top-k)",
+    (v) => parseInteger(v, "--rerank-candidates"),
+  )
+  .option(
+    "--context-tokens <count>",
+    "model context window (default: reported by the provider, at most 16384)",
+    (v) => parseInteger(v, "--context-tokens"),
+  )
+  .option("-i, --interactive", "keep asking follow-up questions", false)
+  .option("--save", "save the conversation to <index-dir>/sessions", false)
+  .option("--session <id>", "continue a saved conversation (implies --save)")
+  .option("--no-stream", "print the answer when it is complete")
+  .action(async (question: string | undefined, options) => {
+    if (!question && !options.interactive) {
+      throw new Error("Pass a question or --interactive.");
+    }
+    const repoRoot = path.resolve(options.repo);
+    const indexDir = path.resolve(repoRoot, await resolveIndexDir(options));
+    const session = options.session
+      ? await loadSession(indexDir, options.session)
+      : createSession(options.reviewModel);
+    const save = options.save || options.session !== undefined;
+    let savedPath = "";
+    const ask = async (text: string) => {
+      const result = await askQuestion(session, text, {
+        repoRoot,
+        indexDir,
+        provider: toProviderConfig(options),
+        model: options.reviewModel,
+        topK: options.topK,
+        embeddingModel: options.embeddingModel,
+        retrievalMode: options.retrieval,
+        rerankModel: options.rerankModel,
+        rerankCandidates: options.rerankCandidates,
+        repoFilter: options.repoFilter,
+        filter: toChunkFilter(options),
+        contextTokens: options.contextTokens,
+        onToken: options.stream
+          ? (token) => process.stdout.write(token)
+          : undefined,
+      });
+      printAskResult(result, options.stream);
+      if (save) {
+        savedPath = await saveSession(indexDir, session);
+      }
+    };
+
+    if (question) {
+      await ask(question);
+    }
+    if (options.interactive) {
+      // Lines typed while an answer is generated are queued by the iterator.
+      const lines = createInterface({
+        input: process.stdin,
+        output: process.stdout,
+      });
+      lines.setPrompt("\n> ");
+      lines.prompt();
+      for await (const line of lines) {
+        const text = line.trim();
+        if (text === "exit" || text === "quit") {
+          break;
+        }
+        if (text) {
+          await ask(text);
+        }
+        lines.prompt();
+      }
+      lines.close();
+    }
+    if (savedPath) {
+      console.error(
+        `Session saved: ${savedPath} (continue with --session ${session.id})`,
       );
     }
   });
 
+addProviderOptions(
+  program
+    .command("mcp")
+    .description("Serve code search, symbols and review as MCP tools over stdio"),
+)
+  .option("--repo <path>", "repository root", process.cwd())
+  .option(
+    "--index-dir <path>",
+    "directory for index artifacts",
+    DEFAULT_INDEX_DIR,
+  )
+  .option("--workspace <file>", "use the index of this workspace file")
+  .option("--review-model <name>", "review LLM model", DEFAULT_REVIEW_MODEL)
+  .action(async (options) => {
+    const repoRoot = path.resolve(options.repo);
+    const config = options.workspace
+      ? await loadWorkspaceConfig(options.workspace)
+      : null;
+    const indexDir = config
+      ? config.indexDir
+      : path.resolve(repoRoot, options.indexDir);
+    // Workspace indexes opened by --index-dir still accept repository names.
+    const manifest = config ? null : await loadWorkspaceManifest(indexDir);
+    await serveMcp({
+      repoRoot,
+      indexDir,
+      provider: toProviderConfig(options),
+      reviewModel: options.reviewModel,
+      workspace:
+        config ?? (manifest ? { indexDir, repos: manifest.repos } : null),
+    });
+  });
+
 program.parseAsync(process.argv).catch((error) => {
   const message = error instanceof Error ? error.message : String(error);
   console.error(`Error: ${message}`);
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { embedAll } from "./embedding.js";
+import { ProviderError, type EmbeddingProvider } from "./provider.js";
+
+type EmbedBatch = (inputs: string[], signal?: AbortSignal) => Promise<number[][]>;
+
+function fakeProvider(embedBatch: EmbedBatch): EmbeddingProvider & { calls: string[][] } {
+  const calls: string[][] = [];
+  return {
+    name: "ollama",
+    calls,
+    embedBatch: (_model, inputs, signal) => {
+      calls.push(inputs);
+      return embedBatch(inputs, signal);
+    },
+    embedMany: () => Promise.reject(new Error("unused")),
+    embedSingle: () => Promise.reject(new Error("unused"))
+  };
+}
+
+const lengths = (inputs: string[]) => Promise.resolve(inputs.map((input) => [input.length]));
+
+describe("embedAll", () => {
+  it("keeps input order with several batches in flight", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const provider = fakeProvider(async (inputs) => {
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight -= 1;
+      return lengths(inputs);
+    });
+    const result = await embedAll(provider, "m", ["a", "bb", "ccc", "dddd", "eeeee"], { batchSize: 2, concurrency: 3 });
+    assert.deepEqual(result.embeddings, [[1], [2], [3], [4], [5]]);
+    assert.deepEqual(result.failures, []);
+    assert.equal(maxInFlight, 3);
+  });
+
+  it("retries transient errors", async () => {
+    let failuresLeft = 2;
+    const provider = fakeProvider((inputs) =>
+      failuresLeft-- > 0 ? Promise.reject(new ProviderError(503, "busy")) : lengths(inputs)
+    );
+    const result = await embedAll(provider, "m", ["a", "bb"], { batchSize: 2, retries: 2, retryDelayMs: 0 });
+    assert.deepEqual(result.embeddings, [[1], [2]]);
+    assert.equal(provider.calls.length, 3);
+  });
+
+  it("splits failing batches so only the rejected input fails", async () => {
+    const provider = fakeProvider((inputs) =>
+      inputs.includes("bad") ? Promise.reject(new ProviderError(400, "input too long")) : lengths(inputs)
+    );
+    const result = await embedAll(provider, "m", ["a", "bad", "ccc", "dddd"], { batchSize: 4, retryDelayMs: 0 });
+    assert.deepEqual(result.embeddings, [[1], undefined, [3], [4]]);
+    assert.deepEqual(result.failures, [{ index: 1, error: "input too long" }]);
+    // Rejected requests are not retried: 4 -> 2 + 2 -> 1 + 1.
+    assert.equal(provider.calls.length, 5);
+  });
+
+  it("aborts requests that exceed the timeout", async () => {
+    const provider = fakeProvider(
+      (inputs, signal) =>
+        new Promise((resolve, reject) => {
+          if (inputs.includes("slow")) {
+            signal?.addEventListener("abort", () => reject(signal.reason as Error));
+          } else {
+            resolve(inputs.map(() => [0]));
+          }
+        })
+    );
+    const result = await embedAll(provider, "m", ["slow", "fast"], { batchSize: 1, timeoutMs: 10, retries: 0 });
+    assert.deepEqual(result.embeddings, [undefined, [0]]);
+    assert.match(result.failures[0]?.error ?? "", /timed out after 10 ms/);
+  });
+
+  it("reports a rejected input even when it is the only one", async () => {
+    const provider = fakeProvider(() => Promise.reject(new ProviderError(400, "input too long")));
+    const result = await embedAll(provider, "m", ["bad"], { batchSize: 1 });
+    assert.deepEqual(result.failures, [{ index: 0, error: "input too long" }]);
+  });
+
+  it("stops at errors no input can get past", async () => {
+    const provider = fakeProvider(() => Promise.reject(new ProviderError(404, 'model "m" not found')));
+    await assert.rejects(
+      embedAll(provider, "m", ["a", "b", "c"], { batchSize: 1, concurrency: 1 }),
+      /model "m" not found/
+    );
+    assert.equal(provider.calls.length, 1);
+  });
+
+  it("throws when nothing could be embedded", async () => {
+    const provider = fakeProvider(() => Promise.reject(new Error("connect ECONNREFUSED")));
+    await assert.rejects(
+      embedAll(provider, "m", ["a", "b"], { batchSize: 2, retries: 0 }),
+      /Embedding failed for all 2 inputs: connect ECONNREFUSED/
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import { ProviderError, type EmbeddingProvider } from "./provider.js";
+
+export interface EmbedAllOptions {
+  batchSize: number;
+  // Batches in flight at once.
+  concurrency?: number;
+  // Per request; a timed-out request counts as a failed attempt.
+  timeoutMs?: number;
+  // Attempts after the first before a failing batch is split in halves.
+  retries?: number;
+  // Delay before the first retry, doubled for each further one.
+  retryDelayMs?: number;
+}
+
+export interface EmbeddingFailure {
+  // Position in the inputs.
+  index: number;
+  error: string;
+}
+
+export interface EmbedAllResult {
+  // Aligned with the inputs; undefined where embedding failed.
+  embeddings: Array<number[] | undefined>;
+  failures: EmbeddingFailure[];
+}
+
+export const DEFAULT_EMBED_CONCURRENCY = 2;
+export const DEFAULT_EMBED_TIMEOUT_MS = 120_000;
+export const DEFAULT_EMBED_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+interface Batch {
+  start: number;
+  end: number;
+}
+
+// Rate limits, timeouts, server and network errors may pass.
+function isRetryable(error: unknown): boolean {
+  return !(error instanceof ProviderError) || error.status === 408 || error.status === 429 || error.status >= 500;
+}
+
+// The provider refused the inputs themselves (too long, invalid); other inputs may still be embedded.
+function isRejectedInput(error: unknown): boolean {
+  return error instanceof ProviderError && [400, 413, 422].includes(error.status);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function embedWithTimeout(
+  provider: EmbeddingProvider,
+  model: string,
+  inputs: string[],
+  timeoutMs: number
+): Promise<number[][]> {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new Error(`Embedding request timed out after ${timeoutMs} ms`)),
+    timeoutMs
+  );
+  try {
+    const embeddings = await provider.embedBatch(model, inputs, controller.signal);
+    if (embeddings.length !== inputs.length) {
+      throw new Error(`Expected ${inputs.length} embeddings, received ${embeddings.length}`);
+    }
+    return embeddings;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Embeds `inputs` in batches, `concurrency` requests at a time. Each request has a timeout; failed batches are
+ * retried with exponential backoff and then split in halves, so one input the provider cannot embed only fails
+ * itself. Such inputs are reported in `failures` instead of failing the whole run. Errors no input can get past
+ * (authorization, unknown model) are thrown, as is the last error when nothing could be embedded without the
+ * provider rejecting a single input, which means it is unreachable or broken.
+ */
+export async function embedAll(
+  provider: EmbeddingProvider,
+  model: string,
+  inputs: string[],
+  options: EmbedAllOptions
+): Promise<EmbedAllResult> {
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_EMBED_CONCURRENCY);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_EMBED_TIMEOUT_MS;
+  const retries = Math.max(0, options.retries ?? DEFAULT_EMBED_RETRIES);
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const batchSize = Math.max(1, options.batchSize);
+
+  const embeddings: Array<number[] | undefined> = new Array<number[] | undefined>(inputs.length).fill(undefined);
+  const failures: EmbeddingFailure[] = [];
+  let rejected = false;
+  const queue: Batch[] = [];
+  for (let start = 0; start < inputs.length; start += batchSize) {
+    queue.push({ start, end: Math.min(start + batchSize, inputs.length) });
+  }
+
+  async function runBatch(batch: Batch): Promise<void> {
+    const texts = inputs.slice(batch.start, batch.end);
+    let lastError: unknown;
+    for (let attempt = 0; attempt <= retries; attempt += 1) {
+      if (attempt > 0) {
+        await sleep(retryDelayMs * 2 ** (attempt - 1));
+      }
+      try {
+        const result = await embedWithTimeout(provider, model, texts, timeoutMs);
+        result.forEach((embedding, offset) => {
+          embeddings[batch.start + offset] = embedding;
+        });
+        return;
+      } catch (error) {
+        lastError = error;
+        if (isRejectedInput(error)) {
+          break;
+        }
+        if (!isRetryable(error)) {
+          // Unauthorized, unknown model and the like: no input will get through.
+          queue.length = 0;
+          throw error;
+        }
+      }
+    }
+
+    if (texts.length > 1) {
+      const middle = batch.start + Math.ceil(texts.length / 2);
+      queue.push({ start: batch.start, end: middle }, { start: middle, end: batch.end });
+      return;
+    }
+    failures.push({ index: batch.start, error: errorMessage(lastError) });
+    rejected ||= isRejectedInput(lastError);
+  }
+
+  // Workers share the queue, including halves of split batches pushed while they run.
+  async function worker(): Promise<void> {
+    for (let batch = queue.shift(); batch; batch = queue.shift()) {
+      await runBatch(batch);
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, () => worker()));
+
+  if (inputs.length > 0 && failures.length === inputs.length && !rejected) {
+    throw new Error(`Embedding failed for all ${inputs.length} inputs: ${failures.at(-1)?.error ?? "unknown error"}`);
+  }
+  failures.sort((a, b) => a.index - b.index);
+  return { embeddings, failures };
+}
@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  mergeDuplicateFindings,
+  parseReviewAggregate,
+  parseReviewReport,
+  sortFindings,
+  type ReviewFinding
+} from "./findings.js";
+
+describe("parseReviewReport", () => {
+  it("parses findings wrapped in thinking output and code fences", () => {
+    const raw = `<think>looking at the diff</think>
+\`\`\`json
+{
+  "summary": "One issue",
+  "findings": [
+    {
+      "severity": "Major",
+      "category": "bug",
+      "file": "src/store.ts",
+      "startLine": 12,
+      "endLine": 10,
+      "title": "Missing close",
+      "rationale": "Table is never closed",
+      "suggestedFix": "Close it in finally",
+      "chunkIds": ["abc", "abc", ""]
+    }
+  ]
+}
+\`\`\``;
+
+    const report = parseReviewReport(raw);
+    assert.equal(report.summary, "One issue");
+    assert.equal(report.findings.length, 1);
+    assert.equal(report.findings[0]?.severity, "major");
+    assert.equal(report.findings[0]?.endLine, 12);
+    assert.equal(report.findings[0]?.category, "bug");
+    assert.deepEqual(report.findings[0]?.chunkIds, ["abc"]);
+  });
+
+  it("rejects findings with unknown severity", () => {
+    const raw = JSON.stringify({
+      summary: "",
+      findings: [{ severity: "blocker", file: "a.ts", startLine: 1, endLine: 1, title: "t", rationale: "r" }]
+    });
+    assert.throws(() => parseReviewReport(raw), /findings\[0\]\.severity/);
+  });
+
+  it("rejects non-JSON replies", () => {
+    assert.throws(() => parseReviewReport("Looks good to me"), /invalid JSON/);
+  });
+});
+
+describe("sortFindings", () => {
+  it("orders by severity, then file and line", () => {
+    const base = { category: "bug" as const, endLine: 1, title: "", rationale: "", suggestedFix: "", chunkIds: [] };
+    const sorted = sortFindings([
+      { ...base, severity: "minor", file: "a.ts", startLine: 1 },
+      { ...base, severity: "critical", file: "b.ts", startLine: 5 },
+      { ...base, severity: "critical", file: "b.ts", startLine: 2 }
+    ]);
+    assert.deepEqual(
+      sorted.map((finding) => `${finding.severity}:${finding.startLine}`),
+      ["critical:2", "critical:5", "minor:1"]
+    );
+  });
+});
+
+describe("parseReviewAggregate", () => {
+  it("turns 1-based duplicate numbers into indices and drops invalid ones", () => {
+    const raw = JSON.stringify({
+      summary: " PR summary ",
+      risk: "High",
+      riskRationale: "Touches auth",
+      duplicates: [[1, "3", 7], [2], "x"]
+    });
+    assert.deepEqual(parseReviewAggregate(raw, 3), {
+      summary: "PR summary",
+      risk: { level: "high", rationale: "Touches auth" },
+      duplicates: [[0, 2]]
+    });
+  });
+
+  it("rejects unknown risk levels", () => {
+    assert.throws(() => parseReviewAggregate('{"summary": "", "risk": "severe", "duplicates": []}', 0), /risk/);
+  });
+});
+
+describe("mergeDuplicateFindings", () => {
+  const finding = (overrides: Partial<ReviewFinding>): ReviewFinding => ({
+    severity: "minor",
+    category: "bug",
+    file: "a.ts",
+    startLine: 1,
+    endLine: 2,
+    title: "Leak",
+    rationale: "",
+    suggestedFix: "",
+    chunkIds: [],
+    ...overrides
+  });
+
+  it("merges identical findings and listed groups into their most severe member", () => {
+    const merged = mergeDuplicateFindings(
+      [
+        finding({ chunkIds: ["c1"] }),
+        finding({ title: "leak", chunkIds: ["c2"] }),
+        finding({ file: "b.ts", title: "Unclosed handle", severity: "major", chunkIds: ["c3"] }),
+        finding({ file: "c.ts", title: "Other" })
+      ],
+      [[0, 2]]
+    );
+    assert.deepEqual(
+      merged.map((entry) => [entry.file, entry.severity, entry.chunkIds]),
+      [
+        ["b.ts", "major", ["c1", "c2", "c3"]],
+        ["c.ts", "minor", []]
+      ]
+    );
+  });
+});
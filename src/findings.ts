@@ -0,0 +1,313 @@
+export type ReviewSeverity = "critical" | "major" | "minor" | "info";
+
+export const REVIEW_SEVERITIES: readonly ReviewSeverity[] = ["critical", "major", "minor", "info"];
+
+export type ReviewCategory =
+  | "bug"
+  | "security"
+  | "performance"
+  | "maintainability"
+  | "style"
+  | "testing"
+  | "other";
+
+export const REVIEW_CATEGORIES: readonly ReviewCategory[] = [
+  "bug",
+  "security",
+  "performance",
+  "maintainability",
+  "style",
+  "testing",
+  "other"
+];
+
+export interface ReviewFinding {
+  severity: ReviewSeverity;
+  category: ReviewCategory;
+  file: string;
+  startLine: number;
+  endLine: number;
+  title: string;
+  rationale: string;
+  suggestedFix: string;
+  chunkIds: string[];
+}
+
+export interface ReviewReport {
+  summary: string;
+  findings: ReviewFinding[];
+}
+
+export type ReviewRiskLevel = "low" | "medium" | "high";
+
+export const REVIEW_RISK_LEVELS: readonly ReviewRiskLevel[] = ["low", "medium", "high"];
+
+export interface ReviewRisk {
+  level: ReviewRiskLevel;
+  rationale: string;
+}
+
+/** Answer of the aggregation pass that merges the per-part reviews of a diff. */
+export interface ReviewAggregate {
+  summary: string;
+  risk: ReviewRisk;
+  // Groups of finding indices (0-based) that describe the same problem.
+  duplicates: number[][];
+}
+
+// JSON schema passed to Ollama's `format` parameter to constrain the model output.
+export const REVIEW_REPORT_SCHEMA: Record<string, unknown> = {
+  type: "object",
+  properties: {
+    summary: { type: "string" },
+    findings: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          severity: { type: "string", enum: [...REVIEW_SEVERITIES] },
+          category: { type: "string", enum: [...REVIEW_CATEGORIES] },
+          file: { type: "string" },
+          startLine: { type: "integer" },
+          endLine: { type: "integer" },
+          title: { type: "string" },
+          rationale: { type: "string" },
+          suggestedFix: { type: "string" },
+          chunkIds: { type: "array", items: { type: "string" } }
+        },
+        required: [
+          "severity",
+          "category",
+          "file",
+          "startLine",
+          "endLine",
+          "title",
+          "rationale",
+          "suggestedFix",
+          "chunkIds"
+        ]
+      }
+    }
+  },
+  required: ["summary", "findings"]
+};
+
+export const REVIEW_AGGREGATE_SCHEMA: Record<string, unknown> = {
+  type: "object",
+  properties: {
+    summary: { type: "string" },
+    risk: { type: "string", enum: [...REVIEW_RISK_LEVELS] },
+    riskRationale: { type: "string" },
+    duplicates: { type: "array", items: { type: "array", items: { type: "integer" } } }
+  },
+  required: ["summary", "risk", "riskRationale", "duplicates"]
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function extractJsonObject(raw: string): string {
+  // Reasoning models (qwen3, deepseek-r1) may prepend a <think> block even in JSON mode.
+  const withoutThinking = raw.replace(/<think>[\s\S]*?<\/think>/g, "");
+  const start = withoutThinking.indexOf("{");
+  const end = withoutThinking.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error("response does not contain a JSON object");
+  }
+  return withoutThinking.slice(start, end + 1);
+}
+
+function readString(record: Record<string, unknown>, key: string, where: string): string {
+  const value = record[key];
+  if (typeof value !== "string") {
+    throw new Error(`${where}.${key} must be a string`);
+  }
+  return value.trim();
+}
+
+function readLine(record: Record<string, unknown>, key: string, where: string): number {
+  const value = typeof record[key] === "string" ? Number(record[key]) : record[key];
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`${where}.${key} must be a number`);
+  }
+  return Math.max(0, Math.trunc(value));
+}
+
+function readSeverity(record: Record<string, unknown>, where: string): ReviewSeverity {
+  const value = typeof record.severity === "string" ? record.severity.trim().toLowerCase() : record.severity;
+  if (!REVIEW_SEVERITIES.includes(value as ReviewSeverity)) {
+    throw new Error(`${where}.severity must be one of: ${REVIEW_SEVERITIES.join(", ")}`);
+  }
+  return value as ReviewSeverity;
+}
+
+function readCategory(record: Record<string, unknown>): ReviewCategory {
+  // Category only drives grouping (e.g. SARIF rule IDs), so unknown values degrade to "other".
+  const value = typeof record.category === "string" ? record.category.trim().toLowerCase() : "";
+  return REVIEW_CATEGORIES.includes(value as ReviewCategory) ? (value as ReviewCategory) : "other";
+}
+
+function toFinding(value: unknown, index: number): ReviewFinding {
+  const where = `findings[${index}]`;
+  if (!isRecord(value)) {
+    throw new Error(`${where} must be an object`);
+  }
+
+  const startLine = readLine(value, "startLine", where);
+  const endLine = value.endLine === undefined ? startLine : readLine(value, "endLine", where);
+  const chunkIds = Array.isArray(value.chunkIds)
+    ? value.chunkIds.filter((id): id is string => typeof id === "string" && id.trim().length > 0)
+    : [];
+
+  return {
+    severity: readSeverity(value, where),
+    category: readCategory(value),
+    file: readString(value, "file", where),
+    startLine,
+    endLine: Math.max(startLine, endLine),
+    title: readString(value, "title", where),
+    rationale: readString(value, "rationale", where),
+    suggestedFix: typeof value.suggestedFix === "string" ? value.suggestedFix.trim() : "",
+    chunkIds: [...new Set(chunkIds.map((id) => id.trim()))]
+  };
+}
+
+function parseJsonObject(raw: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJsonObject(raw));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`invalid JSON: ${message}`);
+  }
+
+  if (!isRecord(parsed)) {
+    throw new Error("top-level value must be an object");
+  }
+  return parsed;
+}
+
+/**
+ * Parses and validates a model reply against {@link REVIEW_REPORT_SCHEMA}.
+ * Throws with a short description of the first problem so it can be fed back to the model on retry.
+ */
+export function parseReviewReport(raw: string): ReviewReport {
+  const parsed = parseJsonObject(raw);
+  if (!Array.isArray(parsed.findings)) {
+    throw new Error("findings must be an array");
+  }
+
+  return {
+    summary: typeof parsed.summary === "string" ? parsed.summary.trim() : "",
+    findings: parsed.findings.map((item, index) => toFinding(item, index))
+  };
+}
+
+const SEVERITY_ORDER: Record<ReviewSeverity, number> = {
+  critical: 0,
+  major: 1,
+  minor: 2,
+  info: 3
+};
+
+export function sortFindings(findings: ReviewFinding[]): ReviewFinding[] {
+  return [...findings].sort((a, b) => {
+    const bySeverity = SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity];
+    if (bySeverity !== 0) {
+      return bySeverity;
+    }
+    if (a.file === b.file) {
+      return a.startLine - b.startLine;
+    }
+    return a.file.localeCompare(b.file);
+  });
+}
+
+/**
+ * Parses an aggregation pass reply against {@link REVIEW_AGGREGATE_SCHEMA}. Findings are numbered from 1 in the
+ * prompt; duplicate groups come back as 0-based indices, without numbers outside `findingCount`.
+ */
+export function parseReviewAggregate(raw: string, findingCount: number): ReviewAggregate {
+  const parsed = parseJsonObject(raw);
+  const level = typeof parsed.risk === "string" ? parsed.risk.trim().toLowerCase() : parsed.risk;
+  if (!REVIEW_RISK_LEVELS.includes(level as ReviewRiskLevel)) {
+    throw new Error(`risk must be one of: ${REVIEW_RISK_LEVELS.join(", ")}`);
+  }
+  const groups = Array.isArray(parsed.duplicates) ? parsed.duplicates : [];
+  const duplicates = groups
+    .filter((group): group is unknown[] => Array.isArray(group))
+    .map((group) => [
+      ...new Set(
+        group
+          .map((number) => (typeof number === "string" ? Number(number) : number))
+          .filter(
+            (number): number is number =>
+              typeof number === "number" && Number.isInteger(number) && number >= 1 && number <= findingCount
+          )
+          .map((number) => number - 1)
+      )
+    ])
+    .filter((group) => group.length > 1);
+
+  return {
+    summary: typeof parsed.summary === "string" ? parsed.summary.trim() : "",
+    risk: {
+      level: level as ReviewRiskLevel,
+      rationale: typeof parsed.riskRationale === "string" ? parsed.riskRationale.trim() : ""
+    },
+    duplicates
+  };
+}
+
+/**
+ * Merges each group of duplicate findings into its most severe member, which also collects the group's chunk ids.
+ * Findings with the same file, lines and title are duplicates without being listed in `groups`.
+ */
+export function mergeDuplicateFindings(findings: ReviewFinding[], groups: number[][] = []): ReviewFinding[] {
+  const parent = findings.map((_, index) => index);
+  const root = (index: number): number => {
+    const next = parent[index] ?? index;
+    return next === index ? index : root(next);
+  };
+  const join = (a: number, b: number) => {
+    const [rootA, rootB] = [root(a), root(b)];
+    const [findingA, findingB] = [findings[rootA], findings[rootB]];
+    if (!findingA || !findingB || rootA === rootB) {
+      return;
+    }
+    const [keep, drop] =
+      SEVERITY_ORDER[findingB.severity] < SEVERITY_ORDER[findingA.severity] ? [rootB, rootA] : [rootA, rootB];
+    parent[drop] = keep;
+  };
+
+  const byKey = new Map<string, number>();
+  findings.forEach((finding, index) => {
+    const key = [finding.file, finding.startLine, finding.endLine, finding.title.toLowerCase()].join("\0");
+    const first = byKey.get(key);
+    if (first === undefined) {
+      byKey.set(key, index);
+    } else {
+      join(first, index);
+    }
+  });
+  for (const group of groups) {
+    const [first, ...rest] = group;
+    if (first === undefined) {
+      continue;
+    }
+    for (const index of rest) {
+      join(first, index);
+    }
+  }
+
+  const chunkIds = new Map<number, Set<string>>();
+  findings.forEach((finding, index) => {
+    const ids = chunkIds.get(root(index)) ?? new Set<string>();
+    finding.chunkIds.forEach((id) => ids.add(id));
+    chunkIds.set(root(index), ids);
+  });
+  return findings.flatMap((finding, index) =>
+    root(index) === index ? [{ ...finding, chunkIds: [...(chunkIds.get(index) ?? [])] }] : []
+  );
+}
@@ -1,4 +1,7 @@
-import { execFile } from "node:child_process";
+import { execFile, spawn } from "node:child_process";
+import { lstat } from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
 import { promisify } from "node:util";
 
 const execFileAsync = promisify(execFile);
@@ -34,3 +37,488 @@ export async function getWorkingTreeDiff(repoRoot: string): Promise<string> {
   }
   return (staged || unstaged || "").trim();
 }
+
+export type DiffSourceKind = "working-tree" | "staged" | "range" | "commit" | "file" | "inline";
+
+export interface DiffSource {
+  kind: DiffSourceKind;
+  baseRef?: string;
+  headRef?: string;
+  baseSha?: string;
+  headSha?: string;
+  mergeBase?: string;
+  commit?: string;
+  diffFile?: string;
+}
+
+export interface LoadedDiff {
+  diff: string;
+  source: DiffSource;
+}
+
+async function requireGitRepository(repoRoot: string): Promise<void> {
+  if (!(await isGitRepository(repoRoot))) {
+    throw new Error(`${repoRoot} is not a git repository`);
+  }
+}
+
+export async function resolveCommit(repoRoot: string, ref: string): Promise<string> {
+  try {
+    return await runGit(repoRoot, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]);
+  } catch {
+    throw new Error(`Unknown git revision: ${ref}`);
+  }
+}
+
+export async function getStagedDiff(repoRoot: string): Promise<LoadedDiff> {
+  await requireGitRepository(repoRoot);
+  const diff = await runGit(repoRoot, ["diff", "--cached", "--", "."]);
+  return { diff, source: { kind: "staged" } };
+}
+
+/**
+ * Diff of `head` against its merge-base with `base` (same as `git diff base...head`),
+ * so commits that landed on the base branch after forking are not reported as changes.
+ */
+export async function getRangeDiff(repoRoot: string, baseRef: string, headRef = "HEAD"): Promise<LoadedDiff> {
+  await requireGitRepository(repoRoot);
+  const [baseSha, headSha] = await Promise.all([resolveCommit(repoRoot, baseRef), resolveCommit(repoRoot, headRef)]);
+
+  let mergeBase: string;
+  try {
+    mergeBase = await runGit(repoRoot, ["merge-base", baseSha, headSha]);
+  } catch {
+    throw new Error(`No common ancestor between ${baseRef} and ${headRef}`);
+  }
+
+  const diff = await runGit(repoRoot, ["diff", mergeBase, headSha, "--", "."]);
+  return { diff, source: { kind: "range", baseRef, headRef, baseSha, headSha, mergeBase } };
+}
+
+export async function getCommitDiff(repoRoot: string, ref: string): Promise<LoadedDiff> {
+  await requireGitRepository(repoRoot);
+  const commit = await resolveCommit(repoRoot, ref);
+  // --root handles the initial commit; -m --first-parent diffs merges against the mainline.
+  const diff = await runGit(repoRoot, ["diff-tree", "-p", "--root", "-m", "--first-parent", "--no-commit-id", commit]);
+  return { diff, source: { kind: "commit", headRef: ref, headSha: commit, commit } };
+}
+
+/**
+ * URL of a remote as an absolute URI without credentials: scp-like `git@host:org/repo.git` becomes an `ssh://` URL
+ * and a local path a `file://` URL. Undefined when the remote does not exist.
+ */
+export async function getRemoteUri(repoRoot: string, remote = "origin"): Promise<string | undefined> {
+  let url: string;
+  try {
+    url = await runGit(repoRoot, ["remote", "get-url", remote]);
+  } catch {
+    return undefined;
+  }
+  if (!url) {
+    return undefined;
+  }
+  const scp = /^(?:([^@/]+)@)?([^:/]+):(?!\/\/)(.+)$/.exec(url);
+  if (scp && scp[2] && scp[3]) {
+    url = `ssh://${scp[1] ? `${scp[1]}@` : ""}${scp[2]}/${scp[3].replace(/^\/+/, "")}`;
+  }
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return pathToFileURL(path.resolve(repoRoot, url)).href;
+  }
+  // Tokens are often passed as the user name of HTTP remotes.
+  if (parsed.protocol === "http:" || parsed.protocol === "https:") {
+    parsed.username = "";
+  }
+  parsed.password = "";
+  return parsed.href;
+}
+
+export interface GitFileEntry {
+  path: string;
+  // Blob id of the current content; for files modified in the working tree it is hashed from disk.
+  blobSha: string;
+}
+
+// Keeps `git hash-object` argument lists well below command line limits.
+const HASH_OBJECT_BATCH_SIZE = 500;
+
+function splitNul(output: string): string[] {
+  return output.split("\0").filter(Boolean);
+}
+
+async function hashWorkingTreeFiles(repoRoot: string, paths: string[]): Promise<Map<string, string>> {
+  const hashes = new Map<string, string>();
+  for (let i = 0; i < paths.length; i += HASH_OBJECT_BATCH_SIZE) {
+    const batch = paths.slice(i, i + HASH_OBJECT_BATCH_SIZE);
+    const output = await runGit(repoRoot, ["hash-object", "--", ...batch]);
+    output.split("\n").forEach((sha, index) => {
+      const filePath = batch[index];
+      if (filePath && sha) {
+        hashes.set(filePath, sha.trim());
+      }
+    });
+  }
+  return hashes;
+}
+
+/**
+ * Files git knows about under `repoRoot` (paths relative to it), optionally with untracked files that are not
+ * ignored. Submodules and symlinks are skipped; files deleted from the working tree are omitted.
+ */
+export async function listGitFiles(
+  repoRoot: string,
+  options: { includeUntracked?: boolean } = {}
+): Promise<GitFileEntry[]> {
+  await requireGitRepository(repoRoot);
+  const [staged, modified, untracked] = await Promise.all([
+    runGit(repoRoot, ["ls-files", "-z", "--stage"]),
+    runGit(repoRoot, ["ls-files", "-z", "--modified"]),
+    options.includeUntracked ? runGit(repoRoot, ["ls-files", "-z", "--others", "--exclude-standard"]) : ""
+  ]);
+
+  const indexed = new Map<string, string | null>();
+  for (const record of splitNul(staged)) {
+    const match = /^(\d+) ([0-9a-f]+) (\d)\t(.+)$/s.exec(record);
+    if (!match?.[4] || match[1] === "160000" || match[1] === "120000") {
+      continue;
+    }
+    // Conflicted paths appear once per stage; their content has to be hashed from disk.
+    indexed.set(match[4], indexed.has(match[4]) || match[3] !== "0" ? null : (match[2] ?? null));
+  }
+  const dirty = new Set(splitNul(modified));
+  const untrackedPaths = splitNul(untracked);
+
+  const toHash = [
+    ...[...indexed].filter(([filePath, sha]) => sha === null || dirty.has(filePath)).map(([filePath]) => filePath),
+    ...untrackedPaths
+  ];
+  const existing: string[] = [];
+  for (const filePath of toHash) {
+    if (await isRegularFile(path.join(repoRoot, filePath))) {
+      existing.push(filePath);
+    }
+  }
+  const hashed = await hashWorkingTreeFiles(repoRoot, existing);
+
+  const entries: GitFileEntry[] = [];
+  for (const filePath of [...indexed.keys(), ...untrackedPaths]) {
+    const blobSha = hashed.get(filePath) ?? (dirty.has(filePath) ? undefined : indexed.get(filePath));
+    if (blobSha) {
+      entries.push({ path: filePath, blobSha });
+    }
+  }
+  return entries.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+async function isRegularFile(absPath: string): Promise<boolean> {
+  try {
+    return (await lstat(absPath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+export interface GitTreeEntry extends GitFileEntry {
+  size: number;
+}
+
+/** Regular files in a commit's tree below `repoRoot` (paths relative to it); submodules and symlinks are skipped. */
+export async function listTreeFiles(repoRoot: string, commit: string): Promise<GitTreeEntry[]> {
+  await requireGitRepository(repoRoot);
+  const output = await runGit(repoRoot, ["ls-tree", "-r", "-z", "--long", commit]);
+  const entries: GitTreeEntry[] = [];
+  for (const record of splitNul(output)) {
+    const match = /^(\d+) (\w+) ([0-9a-f]+)\s+(\d+|-)\t(.+)$/s.exec(record);
+    if (!match?.[3] || !match[5] || match[2] !== "blob" || match[1] === "120000") {
+      continue;
+    }
+    entries.push({ path: match[5], blobSha: match[3], size: Number(match[4]) || 0 });
+  }
+  return entries.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** Reads blob contents through one `git cat-file --batch` process; missing objects are left out of the result. */
+export async function readBlobs(repoRoot: string, blobShas: string[]): Promise<Map<string, Buffer>> {
+  const unique = [...new Set(blobShas)];
+  if (unique.length === 0) {
+    return new Map();
+  }
+
+  const output = await new Promise<Buffer>((resolve, reject) => {
+    const child = spawn("git", ["-C", repoRoot, "cat-file", "--batch"], { stdio: ["pipe", "pipe", "pipe"] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout.on("data", (data: Buffer) => stdout.push(data));
+    child.stderr.on("data", (data: Buffer) => stderr.push(data));
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        reject(new Error(`git cat-file failed: ${Buffer.concat(stderr).toString("utf8").trim()}`));
+      }
+    });
+    child.stdin.end(`${unique.join("\n")}\n`);
+  });
+
+  // Each object is "<sha> <type> <size>\n<content>\n"; unknown ones are "<name> missing\n".
+  const blobs = new Map<string, Buffer>();
+  let offset = 0;
+  while (offset < output.length) {
+    const headerEnd = output.indexOf(0x0a, offset);
+    if (headerEnd === -1) {
+      break;
+    }
+    const [sha = "", type, size] = output.subarray(offset, headerEnd).toString("utf8").split(" ");
+    offset = headerEnd + 1;
+    if (type === "missing" || size === undefined) {
+      continue;
+    }
+    const length = Number(size);
+    if (type === "blob") {
+      blobs.set(sha, output.subarray(offset, offset + length));
+    }
+    offset += length + 1;
+  }
+  return blobs;
+}
+
+export type DiffFileStatus = "added" | "deleted" | "modified" | "renamed";
+
+export interface DiffLine {
+  type: "add" | "del" | "context";
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface DiffFile {
+  oldPath: string | null;
+  newPath: string | null;
+  // Path used to refer to the file: the new path unless the file was deleted.
+  path: string;
+  status: DiffFileStatus;
+  isBinary: boolean;
+  hunks: DiffHunk[];
+}
+
+const HUNK_HEADER_RE = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function stripDiffPrefix(value: string): string | null {
+  const trimmed = value.replace(/\t.*$/, "").trim();
+  if (trimmed === "/dev/null") {
+    return null;
+  }
+  const unquoted = trimmed.startsWith('"') && trimmed.endsWith('"') ? trimmed.slice(1, -1) : trimmed;
+  return unquoted.replace(/^[ab]\//, "");
+}
+
+function pathsFromDiffGitLine(line: string): { oldPath: string; newPath: string } | null {
+  const match = /^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/.exec(line);
+  if (!match?.[1] || !match[2]) {
+    return null;
+  }
+  return { oldPath: match[1], newPath: match[2] };
+}
+
+function finalizeFile(file: DiffFile): DiffFile {
+  let status: DiffFileStatus = file.status;
+  if (file.oldPath === null) {
+    status = "added";
+  } else if (file.newPath === null) {
+    status = "deleted";
+  } else if (status !== "renamed" && file.oldPath !== file.newPath) {
+    status = "renamed";
+  }
+  return { ...file, status, path: file.newPath ?? file.oldPath ?? file.path };
+}
+
+/**
+ * Parses `git diff` / unified diff output into files, hunks and per-line changes.
+ * Concatenated diffs (e.g. staged + unstaged) are supported; non-diff text is ignored.
+ */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file = null as DiffFile | null;
+  let hunk: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  const startFile = (oldPath: string | null, newPath: string | null): DiffFile => {
+    if (file) {
+      files.push(finalizeFile(file));
+    }
+    const created: DiffFile = {
+      oldPath,
+      newPath,
+      path: newPath ?? oldPath ?? "",
+      status: "modified",
+      isBinary: false,
+      hunks: []
+    };
+    file = created;
+    return created;
+  };
+
+  for (const line of diff.replace(/\r\n/g, "\n").split("\n")) {
+    if (hunk && (oldRemaining > 0 || newRemaining > 0)) {
+      if (line.startsWith("+")) {
+        hunk.lines.push({ type: "add", content: line.slice(1), newLine });
+        newLine += 1;
+        newRemaining -= 1;
+      } else if (line.startsWith("-")) {
+        hunk.lines.push({ type: "del", content: line.slice(1), oldLine });
+        oldLine += 1;
+        oldRemaining -= 1;
+      } else if (line.startsWith(" ") || line === "") {
+        // Some tools strip the single space of empty context lines.
+        hunk.lines.push({ type: "context", content: line.slice(1), oldLine, newLine });
+        oldLine += 1;
+        newLine += 1;
+        oldRemaining -= 1;
+        newRemaining -= 1;
+      }
+      // "\ No newline at end of file" carries no content.
+      continue;
+    }
+    hunk = null;
+
+    if (line.startsWith("diff --git ")) {
+      const paths = pathsFromDiffGitLine(line);
+      startFile(paths?.oldPath ?? null, paths?.newPath ?? null);
+      continue;
+    }
+
+    const current = file;
+
+    if (line.startsWith("--- ")) {
+      // Plain unified diffs (without "diff --git") start a file at the "---" line.
+      const oldPath = stripDiffPrefix(line.slice(4));
+      const target = current && current.hunks.length === 0 ? current : startFile(oldPath, oldPath);
+      target.oldPath = oldPath;
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+
+    if (line.startsWith("+++ ")) {
+      current.newPath = stripDiffPrefix(line.slice(4));
+      continue;
+    }
+
+    const header = HUNK_HEADER_RE.exec(line);
+    if (header) {
+      oldLine = Number(header[1]);
+      newLine = Number(header[3]);
+      oldRemaining = header[2] === undefined ? 1 : Number(header[2]);
+      newRemaining = header[4] === undefined ? 1 : Number(header[4]);
+      hunk = {
+        header: line,
+        oldStart: oldLine,
+        oldLines: oldRemaining,
+        newStart: newLine,
+        newLines: newRemaining,
+        lines: []
+      };
+      current.hunks.push(hunk);
+      continue;
+    }
+
+    if (line.startsWith("new file mode")) {
+      current.oldPath = null;
+    } else if (line.startsWith("deleted file mode")) {
+      current.newPath = null;
+    } else if (line.startsWith("rename from ")) {
+      current.oldPath = line.slice("rename from ".length);
+      current.status = "renamed";
+    } else if (line.startsWith("rename to ")) {
+      current.newPath = line.slice("rename to ".length);
+      current.status = "renamed";
+    } else if (line.startsWith("Binary files ") || line === "GIT binary patch") {
+      current.isBinary = true;
+    }
+  }
+
+  if (file) {
+    files.push(finalizeFile(file));
+  }
+  return files;
+}
+
+/** Renders a hunk back to unified diff text (header + lines). */
+export function formatDiffHunk(hunk: DiffHunk): string {
+  const prefixes = { add: "+", del: "-", context: " " } as const;
+  return [hunk.header, ...hunk.lines.map((line) => `${prefixes[line.type]}${line.content}`)].join("\n");
+}
+
+/** Renders a file's diff, or only some of its hunks, back to unified diff text that parses to the same file. */
+export function formatDiffFile(file: DiffFile, hunks: DiffHunk[] = file.hunks): string {
+  const oldPath = file.oldPath ?? file.path;
+  const newPath = file.newPath ?? file.path;
+  const header = [`diff --git a/${oldPath} b/${newPath}`];
+  if (file.status === "renamed") {
+    header.push(`rename from ${oldPath}`, `rename to ${newPath}`);
+  }
+  if (file.isBinary) {
+    header.push(`Binary files a/${oldPath} and b/${newPath} differ`);
+  } else {
+    header.push(
+      `--- ${file.oldPath === null ? "/dev/null" : `a/${oldPath}`}`,
+      `+++ ${file.newPath === null ? "/dev/null" : `b/${newPath}`}`
+    );
+  }
+  return [...header, ...hunks.map((hunk) => formatDiffHunk(hunk))].join("\n");
+}
+
+export interface LineRange {
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * New-side line ranges touched by a file's hunks: runs of added lines, or the position of a
+ * pure deletion. Deleted files have no new side and yield no ranges.
+ */
+export function changedLineRanges(file: DiffFile): LineRange[] {
+  if (file.status === "deleted") {
+    return [];
+  }
+  const ranges: LineRange[] = [];
+  for (const hunk of file.hunks) {
+    let current: LineRange | null = null;
+    let hasAdditions = false;
+    for (const line of hunk.lines) {
+      if (line.type === "add" && line.newLine !== undefined) {
+        hasAdditions = true;
+        if (current && current.endLine === line.newLine - 1) {
+          current.endLine = line.newLine;
+        } else {
+          current = { startLine: line.newLine, endLine: line.newLine };
+          ranges.push(current);
+        }
+      } else if (line.type === "context") {
+        current = null;
+      }
+    }
+    if (!hasAdditions) {
+      const anchor = Math.max(1, hunk.newStart);
+      ranges.push({ startLine: anchor, endLine: anchor });
+    }
+  }
+  return ranges;
+}
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import * as ts from "typescript";
+import { collectRelatedSymbols, extractFileGraph, linkCodeGraph, resolveImportPath } from "./graph.js";
+
+function graphOf(filePath: string, source: string) {
+  const sourceFile = ts.createSourceFile(filePath, source.trim(), ts.ScriptTarget.Latest, true);
+  return extractFileGraph(sourceFile, filePath);
+}
+
+const store = graphOf(
+  "src/store.ts",
+  `
+export function loadManifest(dir: string) {
+  return readJson(dir);
+}
+
+function readJson(dir: string) {
+  return dir;
+}
+`
+);
+
+const review = graphOf(
+  "src/review.ts",
+  `
+import { loadManifest } from "./store.js";
+import * as store from "./store.js";
+
+export class Reviewer {
+  run() {
+    return this.prepare();
+  }
+
+  prepare() {
+    return loadManifest(".") ?? store.loadManifest("..");
+  }
+}
+`
+);
+
+describe("extractFileGraph", () => {
+  it("collects declarations, class members, imports and calls", () => {
+    assert.deepEqual(
+      review.symbols.map((symbol) => [symbol.container ?? "", symbol.name, symbol.exported]),
+      [
+        ["", "Reviewer", true],
+        ["Reviewer", "run", false],
+        ["Reviewer", "prepare", false]
+      ]
+    );
+    assert.deepEqual(review.imports[0]?.bindings, [{ imported: "loadManifest", local: "loadManifest" }]);
+    assert.deepEqual(
+      review.calls.map((call) => `${call.caller}->${call.receiver ?? ""}.${call.callee}`),
+      ["Reviewer.run->this.prepare", "Reviewer.prepare->.loadManifest", "Reviewer.prepare->store.loadManifest"]
+    );
+  });
+});
+
+describe("linkCodeGraph", () => {
+  it("resolves calls across files and finds callers and callees of changed symbols", () => {
+    const linked = linkCodeGraph({ version: 1, files: [store, review] });
+
+    assert.deepEqual([...(linked.callees.get("src/review.ts#Reviewer.prepare") ?? [])], ["src/store.ts#loadManifest"]);
+    assert.deepEqual([...(linked.imports.get("src/review.ts") ?? [])], ["src/store.ts"]);
+    assert.deepEqual(linked.members.get("src/review.ts#Reviewer"), [
+      "src/review.ts#Reviewer.run",
+      "src/review.ts#Reviewer.prepare"
+    ]);
+
+    // Line 2 is the body of loadManifest in store.ts.
+    const related = collectRelatedSymbols(linked, [{ path: "src/store.ts", ranges: [{ startLine: 2, endLine: 2 }] }], 10);
+    assert.deepEqual(
+      related.map((item) => `${item.relation}:${item.symbol.name}`),
+      ["definition:readJson", "caller:prepare"]
+    );
+  });
+
+  it("resolves .js specifiers to TypeScript sources", () => {
+    const known = new Set(["src/store.ts", "src/lib/index.ts"]);
+    assert.equal(resolveImportPath("src/review.ts", "./store.js", known), "src/store.ts");
+    assert.equal(resolveImportPath("src/review.ts", "./lib", known), "src/lib/index.ts");
+    assert.equal(resolveImportPath("src/review.ts", "typescript", known), undefined);
+  });
+});
@@ -0,0 +1,459 @@
+import path from "node:path";
+import * as ts from "typescript";
+
+export interface GraphSymbol {
+  name: string;
+  // Enclosing class/interface for members.
+  container?: string;
+  kind: string;
+  path: string;
+  startLine: number;
+  endLine: number;
+  exported: boolean;
+}
+
+export interface GraphImportBinding {
+  // "default" and "*" (namespace) are used for default and namespace imports.
+  imported: string;
+  local: string;
+}
+
+export interface GraphImport {
+  specifier: string;
+  line: number;
+  bindings: GraphImportBinding[];
+  // `export ... from` re-exports the bindings instead of using them locally.
+  reexport: boolean;
+}
+
+export interface GraphCall {
+  // Qualified name of the enclosing symbol (`Class.method` or `fn`).
+  caller: string;
+  callee: string;
+  // `this` or the identifier the callee is accessed on (`ns.fn()`, `Class.create()`).
+  receiver?: string;
+  line: number;
+}
+
+/** Unresolved per-file graph, as extracted from one source file. */
+export interface FileGraph {
+  path: string;
+  symbols: GraphSymbol[];
+  imports: GraphImport[];
+  calls: GraphCall[];
+  defaultExport?: string;
+}
+
+/** Persisted form of the code graph: per-file graphs, linked in memory on load. */
+export interface CodeGraph {
+  version: 1;
+  files: FileGraph[];
+}
+
+export type GraphRelation = "definition" | "caller" | "callee";
+
+export interface LinkedCodeGraph {
+  symbols: Map<string, GraphSymbol>;
+  symbolsByFile: Map<string, GraphSymbol[]>;
+  callees: Map<string, Set<string>>;
+  callers: Map<string, Set<string>>;
+  members: Map<string, string[]>;
+  imports: Map<string, Set<string>>;
+  importedBy: Map<string, Set<string>>;
+  // Call sites resolved to target symbols, per file; used to find definitions referenced by changed lines.
+  callSites: Map<string, Array<{ line: number; target: string }>>;
+}
+
+export interface RelatedSymbol {
+  symbol: GraphSymbol;
+  relation: GraphRelation;
+  // Changed symbol or call site (`path:line`) that led to this one.
+  via: string;
+}
+
+const RESOLVABLE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+const MAX_REEXPORT_DEPTH = 5;
+
+export function qualifiedName(symbol: Pick<GraphSymbol, "name" | "container">): string {
+  return symbol.container ? `${symbol.container}.${symbol.name}` : symbol.name;
+}
+
+export function symbolId(symbol: Pick<GraphSymbol, "path" | "name" | "container">): string {
+  return `${symbol.path}#${qualifiedName(symbol)}`;
+}
+
+function hasExportModifier(node: ts.Node): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+function hasDefaultModifier(node: ts.Node): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((m) => m.kind === ts.SyntaxKind.DefaultKeyword);
+}
+
+function propertyNameText(name: ts.PropertyName): string | undefined {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isPrivateIdentifier(name)) {
+    return name.text;
+  }
+  return undefined;
+}
+
+function isFunctionLike(node: ts.Node | undefined): boolean {
+  return !!node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+}
+
+/** Extracts declarations, imports/exports and call references from a parsed JS/TS file. */
+export function extractFileGraph(sourceFile: ts.SourceFile, filePath: string): FileGraph {
+  const symbols: GraphSymbol[] = [];
+  const imports: GraphImport[] = [];
+  const calls: GraphCall[] = [];
+  const exportedNames = new Set<string>();
+  let defaultExport: string | undefined;
+
+  const lineOf = (pos: number): number => sourceFile.getLineAndCharacterOfPosition(pos).line + 1;
+
+  function addSymbol(node: ts.Node, name: string, container?: string): GraphSymbol {
+    const symbol: GraphSymbol = {
+      name,
+      container,
+      kind: ts.SyntaxKind[node.kind] ?? "Unknown",
+      path: filePath,
+      startLine: lineOf(node.getStart(sourceFile)),
+      endLine: lineOf(node.getEnd()),
+      exported: hasExportModifier(node)
+    };
+    symbols.push(symbol);
+    if (symbol.exported && hasDefaultModifier(node)) {
+      defaultExport = name;
+    }
+    return symbol;
+  }
+
+  function addImport(node: ts.ImportDeclaration | ts.ExportDeclaration): void {
+    if (!node.moduleSpecifier || !ts.isStringLiteral(node.moduleSpecifier)) {
+      return;
+    }
+    const bindings: GraphImportBinding[] = [];
+    if (ts.isImportDeclaration(node)) {
+      const clause = node.importClause;
+      if (clause?.name) {
+        bindings.push({ imported: "default", local: clause.name.text });
+      }
+      if (clause?.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+        bindings.push({ imported: "*", local: clause.namedBindings.name.text });
+      } else if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+        for (const element of clause.namedBindings.elements) {
+          bindings.push({ imported: (element.propertyName ?? element.name).text, local: element.name.text });
+        }
+      }
+    } else if (node.exportClause && ts.isNamedExports(node.exportClause)) {
+      for (const element of node.exportClause.elements) {
+        bindings.push({ imported: (element.propertyName ?? element.name).text, local: element.name.text });
+      }
+    } else {
+      bindings.push({ imported: "*", local: "*" });
+    }
+
+    imports.push({
+      specifier: node.moduleSpecifier.text,
+      line: lineOf(node.getStart(sourceFile)),
+      bindings,
+      reexport: ts.isExportDeclaration(node)
+    });
+  }
+
+  function addCall(node: ts.CallExpression | ts.NewExpression, caller: string): void {
+    const expression = node.expression;
+    if (ts.isIdentifier(expression)) {
+      calls.push({ caller, callee: expression.text, line: lineOf(node.getStart(sourceFile)) });
+      return;
+    }
+    if (ts.isPropertyAccessExpression(expression)) {
+      const target = expression.expression;
+      const receiver =
+        target.kind === ts.SyntaxKind.ThisKeyword ? "this" : ts.isIdentifier(target) ? target.text : undefined;
+      if (receiver) {
+        calls.push({ caller, callee: expression.name.text, receiver, line: lineOf(node.getStart(sourceFile)) });
+      }
+    }
+  }
+
+  function visit(node: ts.Node, caller: string | undefined, container: string | undefined): void {
+    let nextCaller = caller;
+    let nextContainer = container;
+
+    if (ts.isImportDeclaration(node) || (ts.isExportDeclaration(node) && node.moduleSpecifier)) {
+      addImport(node);
+      return;
+    }
+
+    if (ts.isExportDeclaration(node) && node.exportClause && ts.isNamedExports(node.exportClause)) {
+      for (const element of node.exportClause.elements) {
+        exportedNames.add((element.propertyName ?? element.name).text);
+      }
+      return;
+    }
+
+    if (ts.isExportAssignment(node) && ts.isIdentifier(node.expression)) {
+      defaultExport = node.expression.text;
+      exportedNames.add(node.expression.text);
+      return;
+    }
+
+    if (
+      (ts.isFunctionDeclaration(node) ||
+        ts.isClassDeclaration(node) ||
+        ts.isInterfaceDeclaration(node) ||
+        ts.isTypeAliasDeclaration(node) ||
+        ts.isEnumDeclaration(node)) &&
+      node.name
+    ) {
+      const symbol = addSymbol(node, node.name.text);
+      if (ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node)) {
+        nextContainer = node.name.text;
+        nextCaller = undefined;
+      } else {
+        nextCaller = qualifiedName(symbol);
+      }
+    } else if (
+      container &&
+      (ts.isMethodDeclaration(node) ||
+        ts.isMethodSignature(node) ||
+        ts.isGetAccessorDeclaration(node) ||
+        ts.isSetAccessorDeclaration(node) ||
+        (ts.isPropertyDeclaration(node) && isFunctionLike(node.initializer)))
+    ) {
+      const name = propertyNameText(node.name);
+      if (name) {
+        nextCaller = qualifiedName(addSymbol(node, name, container));
+      }
+    } else if (container && ts.isConstructorDeclaration(node)) {
+      nextCaller = qualifiedName(addSymbol(node, "constructor", container));
+    } else if (ts.isVariableStatement(node) && ts.isSourceFile(node.parent)) {
+      for (const declaration of node.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          const symbol = addSymbol(declaration, declaration.name.text);
+          symbol.exported = hasExportModifier(node);
+          symbol.startLine = lineOf(node.getStart(sourceFile));
+          symbol.endLine = lineOf(declaration.getEnd());
+          // Calls in the initializer are attributed to the declared variable.
+          if (declaration.initializer) {
+            visit(declaration.initializer, qualifiedName(symbol), undefined);
+          }
+        }
+      }
+      return;
+    }
+
+    if ((ts.isCallExpression(node) || ts.isNewExpression(node)) && nextCaller) {
+      addCall(node, nextCaller);
+    }
+
+    ts.forEachChild(node, (child) => visit(child, nextCaller, nextContainer));
+  }
+
+  ts.forEachChild(sourceFile, (child) => visit(child, undefined, undefined));
+
+  for (const symbol of symbols) {
+    if (!symbol.container && exportedNames.has(symbol.name)) {
+      symbol.exported = true;
+    }
+  }
+
+  return { path: filePath, symbols, imports, calls, defaultExport };
+}
+
+/** Resolves a relative import specifier to an indexed file path (handles `.js` → `.ts` and index files). */
+export function resolveImportPath(fromPath: string, specifier: string, knownPaths: Set<string>): string | undefined {
+  if (!specifier.startsWith(".")) {
+    return undefined;
+  }
+  const base = path.posix.normalize(path.posix.join(path.posix.dirname(fromPath), specifier));
+  const withoutExt = base.replace(/\.(m|c)?(j|t)sx?$/, "");
+  const candidates = [
+    base,
+    ...RESOLVABLE_EXTENSIONS.map((ext) => `${withoutExt}${ext}`),
+    ...RESOLVABLE_EXTENSIONS.map((ext) => `${base}/index${ext}`)
+  ];
+  return candidates.find((candidate) => knownPaths.has(candidate));
+}
+
+function addToSetMap(map: Map<string, Set<string>>, key: string, value: string): void {
+  const set = map.get(key) ?? new Set<string>();
+  set.add(value);
+  map.set(key, set);
+}
+
+/** Resolves imports and call references across files. Unresolvable references are dropped. */
+export function linkCodeGraph(graph: CodeGraph): LinkedCodeGraph {
+  const filesByPath = new Map(graph.files.map((file) => [file.path, file]));
+  const knownPaths = new Set(filesByPath.keys());
+  const linked: LinkedCodeGraph = {
+    symbols: new Map(),
+    symbolsByFile: new Map(),
+    callees: new Map(),
+    callers: new Map(),
+    members: new Map(),
+    imports: new Map(),
+    importedBy: new Map(),
+    callSites: new Map()
+  };
+
+  for (const file of graph.files) {
+    linked.symbolsByFile.set(file.path, file.symbols);
+    for (const symbol of file.symbols) {
+      const id = symbolId(symbol);
+      linked.symbols.set(id, symbol);
+      if (symbol.container) {
+        const classId = symbolId({ path: file.path, name: symbol.container });
+        linked.members.set(classId, [...(linked.members.get(classId) ?? []), id]);
+      }
+    }
+  }
+
+  function findTopLevel(filePath: string, name: string): GraphSymbol | undefined {
+    return filesByPath.get(filePath)?.symbols.find((symbol) => !symbol.container && symbol.name === name);
+  }
+
+  function resolveExport(filePath: string, name: string, depth: number): GraphSymbol | undefined {
+    const file = filesByPath.get(filePath);
+    if (!file || depth > MAX_REEXPORT_DEPTH) {
+      return undefined;
+    }
+    const exportedName = name === "default" ? file.defaultExport : name;
+    const own = exportedName ? findTopLevel(filePath, exportedName) : undefined;
+    if (own) {
+      return own;
+    }
+    for (const entry of file.imports) {
+      const target = resolveImportPath(filePath, entry.specifier, knownPaths);
+      if (!target) {
+        continue;
+      }
+      for (const binding of entry.bindings) {
+        if (binding.local === name || (binding.local === "*" && entry.reexport)) {
+          const found = resolveExport(target, binding.local === "*" ? name : binding.imported, depth + 1);
+          if (found) {
+            return found;
+          }
+        }
+      }
+    }
+    return undefined;
+  }
+
+  for (const file of graph.files) {
+    const bindings = new Map<string, { target: string; imported: string }>();
+    for (const entry of file.imports) {
+      const target = resolveImportPath(file.path, entry.specifier, knownPaths);
+      if (!target) {
+        continue;
+      }
+      addToSetMap(linked.imports, file.path, target);
+      addToSetMap(linked.importedBy, target, file.path);
+      if (!entry.reexport) {
+        for (const binding of entry.bindings) {
+          bindings.set(binding.local, { target, imported: binding.imported });
+        }
+      }
+    }
+
+    const resolveCall = (call: GraphCall): GraphSymbol | undefined => {
+      if (!call.receiver) {
+        const local = findTopLevel(file.path, call.callee);
+        if (local) {
+          return local;
+        }
+        const binding = bindings.get(call.callee);
+        return binding && binding.imported !== "*" ? resolveExport(binding.target, binding.imported, 0) : undefined;
+      }
+
+      if (call.receiver === "this") {
+        const container = call.caller.includes(".") ? call.caller.split(".")[0] : undefined;
+        return file.symbols.find((symbol) => symbol.container === container && symbol.name === call.callee);
+      }
+
+      const binding = bindings.get(call.receiver);
+      if (binding?.imported === "*") {
+        return resolveExport(binding.target, call.callee, 0);
+      }
+      // Static member access on a class declared here or imported by name.
+      const owner = binding ? resolveExport(binding.target, binding.imported, 0) : findTopLevel(file.path, call.receiver);
+      if (!owner) {
+        return undefined;
+      }
+      return filesByPath
+        .get(owner.path)
+        ?.symbols.find((symbol) => symbol.container === owner.name && symbol.name === call.callee);
+    };
+
+    const sites: Array<{ line: number; target: string }> = [];
+    for (const call of file.calls) {
+      const target = resolveCall(call);
+      if (!target) {
+        continue;
+      }
+      const from = `${file.path}#${call.caller}`;
+      const to = symbolId(target);
+      if (from !== to) {
+        addToSetMap(linked.callees, from, to);
+        addToSetMap(linked.callers, to, from);
+      }
+      sites.push({ line: call.line, target: to });
+    }
+    linked.callSites.set(file.path, sites);
+  }
+
+  return linked;
+}
+
+function overlaps(symbol: GraphSymbol, startLine: number, endLine: number): boolean {
+  return symbol.startLine <= endLine && symbol.endLine >= startLine;
+}
+
+/**
+ * Finds graph neighbours of the code touched by a diff: definitions of symbols called on changed
+ * lines, plus callers and callees of symbols whose declarations overlap the changed lines.
+ */
+export function collectRelatedSymbols(
+  graph: LinkedCodeGraph,
+  changes: Array<{ path: string; ranges: Array<{ startLine: number; endLine: number }> }>,
+  limit: number
+): RelatedSymbol[] {
+  const related = new Map<string, RelatedSymbol>();
+  const touched = new Set<string>();
+
+  const add = (id: string, relation: GraphRelation, via: string): void => {
+    const symbol = graph.symbols.get(id);
+    if (symbol && !touched.has(id) && !related.has(id)) {
+      related.set(id, { symbol, relation, via });
+    }
+  };
+
+  for (const change of changes) {
+    for (const symbol of graph.symbolsByFile.get(change.path) ?? []) {
+      if (change.ranges.some((range) => overlaps(symbol, range.startLine, range.endLine))) {
+        touched.add(symbolId(symbol));
+      }
+    }
+  }
+
+  for (const change of changes) {
+    for (const site of graph.callSites.get(change.path) ?? []) {
+      if (change.ranges.some((range) => site.line >= range.startLine && site.line <= range.endLine)) {
+        add(site.target, "definition", `${change.path}:${site.line}`);
+      }
+    }
+  }
+  for (const id of touched) {
+    const via = qualifiedName(graph.symbols.get(id) ?? { name: id });
+    for (const callee of graph.callees.get(id) ?? []) {
+      add(callee, "callee", via);
+    }
+    for (const caller of graph.callers.get(id) ?? []) {
+      add(caller, "caller", via);
+    }
+  }
+
+  const order: Record<GraphRelation, number> = { definition: 0, callee: 1, caller: 2 };
+  return [...related.values()].sort((a, b) => order[a.relation] - order[b.relation]).slice(0, limit);
+}
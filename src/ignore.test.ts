@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { compileIgnoreRule, matchIgnoreRules, parseIgnoreFile, pathGlobToRegExpSource } from "./ignore.js";
+
+function isIgnored(content: string, relPath: string, isDirectory = false, base = ""): boolean | undefined {
+  return matchIgnoreRules(parseIgnoreFile(content, base), relPath, isDirectory);
+}
+
+describe("parseIgnoreFile", () => {
+  it("skips blanks and comments and keeps escaped characters", () => {
+    const rules = parseIgnoreFile("# comment\n\n\\#hash\n\\!bang\n*.log   \n");
+    assert.deepEqual(
+      rules.map((rule) => rule.regex.source),
+      ["^(?:.*\\/)?#hash$", "^(?:.*\\/)?!bang$", "^(?:.*\\/)?[^/]*\\.log$"]
+    );
+  });
+});
+
+describe("matchIgnoreRules", () => {
+  it("matches slash-free patterns at any depth", () => {
+    assert.equal(isIgnored("*.generated.ts", "src/api/client.generated.ts"), true);
+    assert.equal(isIgnored("*.generated.ts", "src/api/client.ts"), undefined);
+  });
+
+  it("anchors patterns that contain a slash", () => {
+    assert.equal(isIgnored("/build", "build", true), true);
+    assert.equal(isIgnored("/build", "pkg/build", true), undefined);
+    assert.equal(isIgnored("docs/*.md", "docs/intro.md"), true);
+    assert.equal(isIgnored("docs/*.md", "docs/api/intro.md"), undefined);
+  });
+
+  it("applies directory patterns only to directories", () => {
+    assert.equal(isIgnored("fixtures/", "test/fixtures", true), true);
+    assert.equal(isIgnored("fixtures/", "test/fixtures", false), undefined);
+  });
+
+  it("supports double-star segments", () => {
+    assert.equal(isIgnored("**/vendor", "a/b/vendor", true), true);
+    assert.equal(isIgnored("a/**/z.ts", "a/z.ts"), true);
+    assert.equal(isIgnored("a/**/z.ts", "a/b/c/z.ts"), true);
+    assert.equal(isIgnored("gen/**", "gen/x/y.ts"), true);
+    assert.equal(isIgnored("gen/**", "gen", true), undefined);
+  });
+
+  it("lets the last matching rule win, including negations", () => {
+    assert.equal(isIgnored("*.ts\n!keep.ts", "src/keep.ts"), false);
+    assert.equal(isIgnored("!keep.ts\n*.ts", "src/keep.ts"), true);
+  });
+
+  it("resolves rules relative to the directory that declares them", () => {
+    assert.equal(isIgnored("/out", "pkg/out", true, "pkg"), true);
+    assert.equal(isIgnored("/out", "out", true, "pkg"), undefined);
+  });
+
+  it("handles character classes", () => {
+    const rule = compileIgnoreRule("file[0-9].txt");
+    assert.ok(rule);
+    assert.equal(matchIgnoreRules([rule], "file7.txt", false), true);
+    assert.equal(matchIgnoreRules([rule], "fileA.txt", false), undefined);
+    assert.equal(isIgnored("file[!0-9].txt", "fileA.txt"), true);
+  });
+});
+
+describe("pathGlobToRegExpSource", () => {
+  function matches(glob: string, relPath: string): boolean {
+    return new RegExp(pathGlobToRegExpSource(glob)).test(relPath);
+  }
+
+  it("selects files and everything below matching directories", () => {
+    assert.equal(matches("*.ts", "src/api/client.ts"), true);
+    assert.equal(matches("src/api", "src/api/client.ts"), true);
+    assert.equal(matches("src/api/", "src/api/client.ts"), true);
+    assert.equal(matches("src/api", "src/apis/client.ts"), false);
+    assert.equal(matches("/api", "src/api/client.ts"), false);
+    assert.equal(matches("api", "src/api/client.ts"), true);
+    assert.equal(matches("src/**/*.test.ts", "src/a/b.test.ts"), true);
+  });
+});
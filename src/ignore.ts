@@ -0,0 +1,135 @@
+export interface IgnoreRule {
+  pattern: string;
+  // Repo-relative directory the rule was declared in ("" for the repository root).
+  base: string;
+  negate: boolean;
+  directoryOnly: boolean;
+  regex: RegExp;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+/** Translates a gitignore glob (`*`, `?`, `[...]`, `**`) into a regular expression source. */
+export function globToRegExpSource(glob: string): string {
+  let source = "";
+  for (let i = 0; i < glob.length; i += 1) {
+    const char = glob[i] ?? "";
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        const atSegmentStart = i === 0 || glob[i - 1] === "/";
+        if (atSegmentStart && glob[i + 2] === "/") {
+          // "**/" matches zero or more directories.
+          source += "(?:.*/)?";
+          i += 2;
+          continue;
+        }
+        if (atSegmentStart && i + 2 === glob.length) {
+          // Trailing "**" matches everything inside.
+          source += ".*";
+          i += 1;
+          continue;
+        }
+        i += 1;
+      }
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const close = glob.indexOf("]", i + 2);
+      if (close === -1) {
+        source += "\\[";
+        continue;
+      }
+      let body = glob.slice(i + 1, close).replace(/\\/g, "\\\\");
+      if (body.startsWith("!")) {
+        body = `^${body.slice(1)}`;
+      }
+      source += `[${body}]`;
+      i = close;
+    } else if (char === "\\" && i + 1 < glob.length) {
+      i += 1;
+      source += escapeRegExp(glob[i] ?? "");
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+}
+
+/**
+ * Regular expression source matching repo-relative paths selected by a glob: slash-free globs match at any depth,
+ * and a glob that matches a directory also matches everything below it.
+ */
+export function pathGlobToRegExpSource(glob: string): string {
+  const trimmed = glob.replace(/\/+$/, "");
+  const prefix = trimmed.includes("/") ? "^" : "^(?:.*/)?";
+  return `${prefix}${globToRegExpSource(trimmed.replace(/^\//, ""))}(?:/.*)?$`;
+}
+
+/**
+ * Compiles one gitignore line; null for blanks and comments. Patterns with a slash before their last character are
+ * anchored to `base`, the rest match at any depth below it.
+ */
+export function compileIgnoreRule(line: string, base = ""): IgnoreRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, "");
+  if (!pattern || pattern.startsWith("#")) {
+    return null;
+  }
+
+  const negate = pattern.startsWith("!");
+  if (negate) {
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+    pattern = pattern.slice(1);
+  }
+
+  const directoryOnly = pattern.endsWith("/");
+  let glob = directoryOnly ? pattern.replace(/\/+$/, "") : pattern;
+  const anchored = glob.includes("/");
+  glob = glob.replace(/^\//, "");
+  if (!glob) {
+    return null;
+  }
+
+  const body = globToRegExpSource(glob);
+  return {
+    pattern: line.trim(),
+    base,
+    negate,
+    directoryOnly,
+    regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`)
+  };
+}
+
+export function parseIgnoreFile(content: string, base = ""): IgnoreRule[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => compileIgnoreRule(line, base))
+    .filter((rule): rule is IgnoreRule => rule !== null);
+}
+
+/**
+ * Evaluates rules in order, the last matching one wins (so negations and deeper files override earlier rules).
+ * Returns undefined when no rule matches.
+ */
+export function matchIgnoreRules(rules: IgnoreRule[], relPath: string, isDirectory: boolean): boolean | undefined {
+  let ignored: boolean | undefined;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+    let target = relPath;
+    if (rule.base) {
+      if (!relPath.startsWith(`${rule.base}/`)) {
+        continue;
+      }
+      target = relPath.slice(rule.base.length + 1);
+    }
+    if (rule.regex.test(target)) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
@@ -0,0 +1,164 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { mkdir, mkdtemp, rm, utimes, writeFile } from "node:fs/promises";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { buildIndex, type IndexOptions } from "./indexer.js";
+import { loadFileStates, loadManifest } from "./store.js";
+
+async function readBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+  let text = "";
+  for await (const part of request) {
+    text += String(part);
+  }
+  return JSON.parse(text) as Record<string, unknown>;
+}
+
+async function writeFiles(root: string, files: Record<string, string>): Promise<void> {
+  for (const [relPath, content] of Object.entries(files)) {
+    await mkdir(path.dirname(path.join(root, relPath)), { recursive: true });
+    await writeFile(path.join(root, relPath), content, "utf8");
+  }
+}
+
+describe("incremental indexing", () => {
+  let server: Server;
+  let baseUrl = "";
+  let scratch = "";
+  // Inputs sent to the embedding endpoint; inputs containing FAIL are rejected while `failing` is set.
+  const embedded: string[] = [];
+  let failing = false;
+
+  before(async () => {
+    server = createServer((request, response) => {
+      void readBody(request).then((body) => {
+        const inputs = body.input as string[];
+        if (failing && inputs.some((input) => input.includes("FAIL"))) {
+          response.writeHead(400);
+          response.end(JSON.stringify({ error: "input rejected" }));
+          return;
+        }
+        embedded.push(...inputs);
+        response.end(JSON.stringify({ embeddings: inputs.map((input) => [input.length, 1]) }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    scratch = await mkdtemp(path.join(tmpdir(), "code-rag-indexer-"));
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await rm(scratch, { recursive: true, force: true });
+  });
+
+  async function createRepo(name: string, files: Record<string, string>): Promise<IndexOptions> {
+    const repoRoot = path.join(scratch, name);
+    await writeFiles(repoRoot, files);
+    return {
+      repoRoot,
+      indexDir: ".coderag",
+      embeddingModel: "embed",
+      chunkingMode: "text",
+      chunkSize: 400,
+      overlapLines: 0,
+      maxFileSizeBytes: 100_000,
+      batchSize: 1,
+      embedRetries: 0,
+      provider: { provider: "ollama", baseUrl }
+    };
+  }
+
+  it("re-chunks files whose mtime or size changed and reuses embeddings of unchanged contents", async () => {
+    const options = await createRepo("mtime", { "a.ts": "export const a = 1;\n", "b.ts": "export const b = 2;\n" });
+    assert.equal((await buildIndex(options)).incremental, false);
+
+    await utimes(path.join(options.repoRoot, "a.ts"), new Date(2001, 0, 1), new Date(2001, 0, 1));
+    await writeFile(path.join(options.repoRoot, "b.ts"), "export const b = 20;\n", "utf8");
+    embedded.length = 0;
+    const stats = await buildIndex(options);
+
+    assert.equal(stats.incremental, true);
+    assert.equal(stats.filesChanged, 2);
+    assert.equal(stats.chunksEmbedded, 1);
+    assert.deepEqual(embedded, ["export const b = 20;\n"]);
+  });
+
+  it("compares git blob ids instead of mtimes for git-enumerated indexes", async () => {
+    const options = await createRepo("git", { "a.ts": "export const a = 1;\n", "b.ts": "export const b = 2;\n" });
+    const git = (...args: string[]) => execFileSync("git", args, { cwd: options.repoRoot, stdio: "ignore" });
+    git("init", "-q");
+    git("add", ".");
+    git("-c", "user.name=t", "-c", "user.email=t@example.com", "commit", "-qm", "init");
+    const gitOptions: IndexOptions = { ...options, source: "git" };
+    await buildIndex(gitOptions);
+
+    await utimes(path.join(options.repoRoot, "a.ts"), new Date(2001, 0, 1), new Date(2001, 0, 1));
+    assert.equal((await buildIndex(gitOptions)).filesChanged, 0);
+
+    await writeFile(path.join(options.repoRoot, "a.ts"), "export const a = 2;\n", "utf8");
+    const stats = await buildIndex(gitOptions);
+    assert.equal(stats.filesChanged, 1);
+    assert.equal(stats.chunksEmbedded, 1);
+  });
+
+  it("deletes the rows of removed files", async () => {
+    const options = await createRepo("removed", { "a.ts": "export const a = 1;\n", "b.ts": "export const b = 2;\n" });
+    await buildIndex(options);
+
+    await rm(path.join(options.repoRoot, "b.ts"));
+    const stats = await buildIndex(options);
+
+    assert.equal(stats.filesRemoved, 1);
+    assert.equal(stats.chunksTotal, 1);
+    const states = await loadFileStates(path.join(options.repoRoot, ".coderag"));
+    assert.deepEqual([...(states?.keys() ?? [])], ["a.ts"]);
+  });
+
+  it("re-embeds files with failed chunks on the next run", async () => {
+    const options = await createRepo("retry", {
+      "a.ts": "export const a = 1;\n",
+      "flaky.ts": 'export const flaky = "FAIL";\n'
+    });
+    failing = true;
+    try {
+      const first = await buildIndex(options);
+      assert.deepEqual(
+        first.failedChunks.map((chunk) => chunk.path),
+        ["flaky.ts"]
+      );
+    } finally {
+      failing = false;
+    }
+
+    embedded.length = 0;
+    const stats = await buildIndex(options);
+    assert.equal(stats.filesChanged, 1);
+    assert.deepEqual(stats.failedChunks, []);
+    assert.deepEqual(embedded, ['export const flaky = "FAIL";\n']);
+    assert.equal((await buildIndex(options)).filesChanged, 0);
+  });
+
+  it("retrains the vector index only after the drift ratio is exceeded", async () => {
+    const files: Record<string, string> = {};
+    for (let i = 0; i < 10; i += 1) {
+      files[`f${i}.ts`] = `export const f${i} = ${i};\n`;
+    }
+    const options = await createRepo("drift", files);
+    const indexDir = path.join(options.repoRoot, ".coderag");
+    await buildIndex(options);
+    assert.deepEqual((await loadManifest(indexDir))?.vectorIndex, { trainedRows: 10, changedRows: 0 });
+
+    // One changed file is one deleted and one added row: 2 of 10 stays under the 25% threshold.
+    await writeFile(path.join(options.repoRoot, "f0.ts"), "export const f0 = 100;\n", "utf8");
+    assert.equal((await buildIndex(options)).vectorIndexRebuilt, false);
+    assert.deepEqual((await loadManifest(indexDir))?.vectorIndex, { trainedRows: 10, changedRows: 2 });
+
+    await writeFile(path.join(options.repoRoot, "f1.ts"), "export const f1 = 100;\n", "utf8");
+    assert.equal((await buildIndex(options)).vectorIndexRebuilt, true);
+    assert.deepEqual((await loadManifest(indexDir))?.vectorIndex, { trainedRows: 10, changedRows: 0 });
+  });
+});
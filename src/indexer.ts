@@ -1,11 +1,51 @@
-import { readFile } from "node:fs/promises";
+import { readFile, stat } from "node:fs/promises";
 import path from "node:path";
-import { chunkSourceCode, type ChunkingMode } from "./chunker.js";
+import { analyzeSourceCode, supportsCodeGraph, type ChunkingMode } from "./chunker.js";
+import { embedAll } from "./embedding.js";
+import { listGitFiles, listTreeFiles, readBlobs, resolveCommit, type GitFileEntry } from "./git.js";
+import type { FileGraph } from "./graph.js";
 import { sha256 } from "./hash.js";
-import { OllamaClient } from "./ollama.js";
-import { DEFAULT_EXCLUDED_DIRS, detectLanguage, scanSourceFiles } from "./scanner.js";
-import { loadAllChunks, loadManifest, replaceChunks, saveManifest } from "./store.js";
-import type { Chunk, IndexManifest, IndexedChunkInput } from "./types.js";
+import { createProvider, type ProviderConfig } from "./provider.js";
+import {
+  DEFAULT_EXCLUDED_DIRS,
+  detectLanguage,
+  createPathFilter,
+  inspectSourceFile,
+  isProbablyBinary,
+  scanGitRevisionFiles,
+  scanGitSourceFiles,
+  scanSourceFiles,
+  type PathFilter
+} from "./scanner.js";
+import {
+  createFullTextIndexes,
+  loadCachedEmbeddings,
+  loadChunksByPaths,
+  loadFileStates,
+  loadGraph,
+  loadManifest,
+  loadWorkspaceManifest,
+  removeWorkspaceRepo,
+  replaceChunks,
+  repoMetaDir,
+  saveCachedEmbeddings,
+  saveGraph,
+  saveManifest,
+  saveWorkspaceManifest,
+  syncEmbeddingCache,
+  updateChunks,
+  type EmbeddingCacheSync,
+  type IndexedFileState
+} from "./store.js";
+import type {
+  Chunk,
+  IndexIgnoreRules,
+  IndexManifest,
+  IndexSource,
+  IndexedChunkInput,
+  SourceFile,
+  WorkspaceRepo
+} from "./types.js";
 
 export interface IndexOptions {
   repoRoot: string;
@@ -17,20 +57,68 @@ export interface IndexOptions {
   maxFileSizeBytes: number;
   batchSize: number;
   excludedDirs?: string[];
-  ollamaUrl: string;
+  // Honour .gitignore files (default true); .coderagignore is always read.
+  useGitignore?: boolean;
+  include?: string[];
+  excludeGlobs?: string[];
+  source?: IndexSource;
+  // With `source: "git"`, also index untracked files that are not ignored.
+  includeUntracked?: boolean;
+  // Index this git revision from git objects instead of the working tree (implies git enumeration).
+  rev?: string;
+  // Member name when the repository is indexed into a workspace index shared with other repositories.
+  repoName?: string;
+  provider: ProviderConfig;
+  // Embedding requests in flight at once, per-request timeout and retries; see `embedAll`.
+  embedConcurrency?: number;
+  embedTimeoutMs?: number;
+  embedRetries?: number;
+}
+
+/** A chunk left out of the index because it could not be embedded; its file is retried on the next run. */
+export interface FailedChunk {
+  path: string;
+  startLine: number;
+  endLine: number;
+  error: string;
+}
+
+export interface EmbeddingCacheStats {
+  // Chunks embedded before under another path or position, or in another repository.
+  hits: number;
+  stored: number;
+  // Entries no indexed chunk refers to any more; collected after full `index` runs.
+  removed: number;
 }
 
 export interface IndexStats {
   filesScanned: number;
   filesIndexed: number;
   chunksTotal: number;
+  // Chunks embedded by the provider; cache hits count as reused.
   chunksEmbedded: number;
   chunksReused: number;
+  failedChunks: FailedChunk[];
+  embeddingCache: EmbeddingCacheStats;
+  filesChanged: number;
+  filesRemoved: number;
+  symbolsIndexed: number;
+  // False when the table was rebuilt from scratch (first run or changed index settings).
+  incremental: boolean;
+  vectorIndexRebuilt: boolean;
+  revision?: IndexManifest["revision"];
+  // Columns lexical search can use; empty when no BM25 index could be built.
+  fullTextColumns: string[];
   indexPath: string;
 }
 
+// Retrain the ANN index once rows inserted/deleted since the last training exceed this share of the table.
+const VECTOR_INDEX_DRIFT_RATIO = 0.25;
+
 function chunkKey(input: IndexedChunkInput): string {
   return [
+    // Workspace repositories may share paths and contents; single-repository keys stay unchanged.
+    ...(input.repo ? [input.repo] : []),
     input.path,
     input.startLine,
     input.endLine,
@@ -49,151 +137,661 @@ function toPosixRelativePath(from: string, target: string): string {
   return path.relative(from, target).split(path.sep).join(path.posix.sep);
 }
 
-export async function buildIndex(options: IndexOptions): Promise<IndexStats> {
-  const excludedDirs = [...DEFAULT_EXCLUDED_DIRS, ...(options.excludedDirs ?? [])];
-  const absIndexDir = path.isAbsolute(options.indexDir)
-    ? options.indexDir
-    : path.join(options.repoRoot, options.indexDir);
-  const indexDirRel = toPosixRelativePath(options.repoRoot, absIndexDir).split("/")[0] ?? ".coderag";
-  const excludedWithIndex = [...new Set([...excludedDirs, indexDirRel])];
-
-  const cache = new Map<string, Chunk>();
-  const previousManifest = await loadManifest(absIndexDir);
-  if (
-    previousManifest &&
-    previousManifest.embeddingModel === options.embeddingModel &&
-    previousManifest.chunkingMode === options.chunkingMode &&
-    previousManifest.chunkSize === options.chunkSize &&
-    previousManifest.overlapLines === options.overlapLines
-  ) {
-    const previousChunks = await loadAllChunks(absIndexDir);
-    for (const chunk of previousChunks) {
-      cache.set(
-        chunkKey({
-          path: chunk.path,
-          language: chunk.language,
-          startLine: chunk.startLine,
-          endLine: chunk.endLine,
-          content: chunk.content,
-          nodeType: chunk.nodeType,
-          symbol: chunk.symbol,
-          chunkingStrategy: chunk.chunkingStrategy,
-          contentHash: chunk.contentHash,
-          fileMtimeMs: chunk.fileMtimeMs,
-          fileSize: chunk.fileSize
-        }),
-        chunk
-      );
-    }
-  }
+interface ProcessedFiles {
+  chunks: Chunk[];
+  pending: IndexedChunkInput[];
+  graphs: FileGraph[];
+}
 
-  const files = await scanSourceFiles(options.repoRoot, {
-    maxFileSizeBytes: options.maxFileSizeBytes,
-    excludedDirs: excludedWithIndex
-  });
+// Files whose contents are held in memory at once while chunking.
+const READ_BATCH_SIZE = 100;
 
-  const pending: IndexedChunkInput[] = [];
-  const chunks: Chunk[] = [];
+/**
+ * Contents keyed by relative path, from the working tree or, with `rev`, from git blobs. Unreadable files and blobs
+ * that turn out to be binary are left out.
+ */
+async function readContents(files: SourceFile[], options: IndexOptions): Promise<Map<string, string>> {
+  const contents = new Map<string, string>();
+  if (options.rev) {
+    const blobs = await readBlobs(
+      options.repoRoot,
+      files.flatMap((file) => (file.blobSha ? [file.blobSha] : []))
+    );
+    for (const file of files) {
+      const blob = file.blobSha ? blobs.get(file.blobSha) : undefined;
+      if (blob && !isProbablyBinary(blob.subarray(0, 4096))) {
+        contents.set(file.relPath, blob.toString("utf8"));
+      }
+    }
+    return contents;
+  }
 
   for (const file of files) {
-    let content: string;
     try {
-      content = await readFile(file.absPath, "utf8");
+      contents.set(file.relPath, await readFile(file.absPath, "utf8"));
     } catch {
-      continue;
+      // Removed or unreadable since the scan.
     }
+  }
+  return contents;
+}
 
-    const language = detectLanguage(file.relPath);
-    const parts = chunkSourceCode(content, {
-      filePath: file.relPath,
-      language,
-      mode: options.chunkingMode,
-      chunkSize: options.chunkSize,
-      overlapLines: options.overlapLines
-    });
+/** Reads and chunks files; chunks whose content is in `reuse` keep that embedding, the rest are returned as pending. */
+async function processFiles(
+  files: SourceFile[],
+  options: IndexOptions,
+  reuse: Map<string, number[]>
+): Promise<ProcessedFiles> {
+  const result: ProcessedFiles = { chunks: [], pending: [], graphs: [] };
 
-    for (const part of parts) {
-      const input: IndexedChunkInput = {
-        path: file.relPath,
-        language,
-        startLine: part.startLine,
-        endLine: part.endLine,
-        content: part.content,
-        nodeType: part.nodeType,
-        symbol: part.symbol,
-        chunkingStrategy: part.chunkingStrategy,
-        contentHash: sha256(part.content),
-        fileMtimeMs: file.mtimeMs,
-        fileSize: file.size
-      };
-
-      const key = chunkKey(input);
-      const cached = cache.get(key);
-      if (cached) {
-        chunks.push(cached);
-        continue;
+  for (let i = 0; i < files.length; i += READ_BATCH_SIZE) {
+    const batch = files.slice(i, i + READ_BATCH_SIZE);
+    const contents = await readContents(batch, options);
+    for (const file of batch) {
+      const content = contents.get(file.relPath);
+      if (content !== undefined) {
+        processFile(file, content, options, reuse, result);
       }
-
-      pending.push(input);
     }
   }
 
-  const ollama = new OllamaClient({ baseUrl: options.ollamaUrl });
-  const embeddings = await ollama.embedMany(
-    options.embeddingModel,
-    pending.map((chunk) => chunk.content),
-    options.batchSize
-  );
+  return result;
+}
 
-  if (embeddings.length !== pending.length) {
-    throw new Error(
-      `Embedding count mismatch: expected ${pending.length} embeddings, received ${embeddings.length}`
-    );
+function processFile(
+  file: SourceFile,
+  content: string,
+  options: IndexOptions,
+  reuse: Map<string, number[]>,
+  result: ProcessedFiles
+): void {
+  const language = detectLanguage(file.relPath);
+  const { parts, graph } = analyzeSourceCode(content, {
+    filePath: file.relPath,
+    language,
+    mode: options.chunkingMode,
+    chunkSize: options.chunkSize,
+    overlapLines: options.overlapLines
+  });
+  if (graph) {
+    result.graphs.push(graph);
   }
 
-  for (let i = 0; i < pending.length; i += 1) {
-    const item = pending[i];
-    const embedding = embeddings[i];
-    if (!item || !embedding) {
+  for (const part of parts) {
+    const input: IndexedChunkInput = {
+      ...(options.repoName ? { repo: options.repoName } : {}),
+      path: file.relPath,
+      language,
+      startLine: part.startLine,
+      endLine: part.endLine,
+      content: part.content,
+      nodeType: part.nodeType,
+      symbol: part.symbol,
+      chunkingStrategy: part.chunkingStrategy,
+      contentHash: sha256(part.content),
+      fileMtimeMs: file.mtimeMs,
+      fileSize: file.size,
+      ...(file.blobSha ? { fileBlobSha: file.blobSha } : {})
+    };
+
+    // Reuse goes by content only, so chunks that moved within the file keep their embedding.
+    const embedding = reuse.get(input.contentHash);
+    if (embedding) {
+      result.chunks.push({ id: createChunkId(input), ...input, embedding });
       continue;
     }
-    chunks.push({
-      id: createChunkId(item),
-      ...item,
-      embedding
-    });
+
+    result.pending.push(input);
   }
+}
 
-  chunks.sort((a, b) => {
-    if (a.path === b.path) {
-      return a.startLine - b.startLine;
+interface EmbeddedChunks {
+  chunks: Chunk[];
+  failed: FailedChunk[];
+  // Of `chunks`: embedded by the provider, and taken from the embedding cache.
+  embedded: number;
+  fromCache: number;
+  cacheStored: number;
+}
+
+// Cache entries are only valid for the model and the backend that produced them.
+function embeddingCacheModel(options: Pick<IndexOptions, "provider" | "embeddingModel">): string {
+  return `${options.provider.provider}:${options.embeddingModel}`;
+}
+
+/**
+ * Embeds pending chunks, looking their contents up in the embedding cache first. Identical contents are embedded
+ * once, and new embeddings are added to the cache.
+ */
+async function embedPending(
+  pending: IndexedChunkInput[],
+  options: IndexOptions,
+  absIndexDir: string
+): Promise<EmbeddedChunks> {
+  const cacheModel = embeddingCacheModel(options);
+  const cached = await loadCachedEmbeddings(
+    absIndexDir,
+    cacheModel,
+    pending.map((chunk) => chunk.contentHash)
+  );
+  const uncached = new Map<string, string>();
+  for (const chunk of pending) {
+    if (!cached.has(chunk.contentHash)) {
+      uncached.set(chunk.contentHash, chunk.content);
+    }
+  }
+
+  const hashes = [...uncached.keys()];
+  const { embeddings, failures } = await embedAll(
+    createProvider(options.provider),
+    options.embeddingModel,
+    [...uncached.values()],
+    {
+      batchSize: options.batchSize,
+      concurrency: options.embedConcurrency,
+      timeoutMs: options.embedTimeoutMs,
+      retries: options.embedRetries
+    }
+  );
+  const fresh = new Map<string, number[]>();
+  hashes.forEach((hash, index) => {
+    const embedding = embeddings[index];
+    if (embedding) {
+      fresh.set(hash, embedding);
     }
-    return a.path.localeCompare(b.path);
   });
+  const errors = new Map(failures.map((failure) => [hashes[failure.index], failure.error]));
+  await saveCachedEmbeddings(
+    absIndexDir,
+    cacheModel,
+    [...fresh].map(([contentHash, embedding]) => ({ contentHash, embedding }))
+  );
+
+  const result: EmbeddedChunks = { chunks: [], failed: [], embedded: 0, fromCache: 0, cacheStored: fresh.size };
+  for (const item of pending) {
+    const fromCache = cached.get(item.contentHash);
+    const embedding = fromCache ?? fresh.get(item.contentHash);
+    if (!embedding) {
+      const error = errors.get(item.contentHash) ?? "not embedded";
+      result.failed.push({ path: item.path, startLine: item.startLine, endLine: item.endLine, error });
+      continue;
+    }
+    result.chunks.push({ id: createChunkId(item), ...item, embedding });
+    if (fromCache) {
+      result.fromCache += 1;
+    } else {
+      result.embedded += 1;
+    }
+  }
+  return result;
+}
+
+/**
+ * Gives the stored chunks of files with failed chunks a file state no scan produces, so the next run treats those
+ * files as changed and embeds what is missing (the rest is reused by content).
+ */
+function markForRetry(chunks: Chunk[], failed: FailedChunk[]): Chunk[] {
+  const failedPaths = new Set(failed.map((chunk) => chunk.path));
+  if (failedPaths.size === 0) {
+    return chunks;
+  }
+  return chunks.map((chunk) =>
+    failedPaths.has(chunk.path)
+      ? { ...chunk, fileMtimeMs: -1, fileSize: -1, ...(chunk.fileBlobSha !== undefined ? { fileBlobSha: "" } : {}) }
+      : chunk
+  );
+}
+
+function isCompatibleManifest(manifest: IndexManifest | null, options: IndexOptions): manifest is IndexManifest {
+  return (
+    !!manifest &&
+    manifest.embeddingModel === options.embeddingModel &&
+    (manifest.embeddingProvider ?? "ollama") === options.provider.provider &&
+    manifest.chunkingMode === options.chunkingMode &&
+    manifest.chunkSize === options.chunkSize &&
+    manifest.overlapLines === options.overlapLines &&
+    // Git-enumerated tables carry a blob id column that file system indexes lack.
+    (manifest.source ?? "fs") === effectiveSource(options)
+  );
+}
+
+function effectiveSource(options: IndexOptions): IndexSource {
+  return options.rev ? "git" : (options.source ?? "fs");
+}
+
+function embeddingsByContent(chunks: Chunk[]): Map<string, number[]> {
+  return new Map(chunks.map((chunk) => [chunk.contentHash, chunk.embedding]));
+}
+
+function countSymbols(graphs: FileGraph[]): number {
+  return graphs.reduce((sum, graph) => sum + graph.symbols.length, 0);
+}
+
+export interface IndexLayout {
+  absIndexDir: string;
+  // Where this repository's manifest and graph live (differs from `absIndexDir` for workspace members).
+  metaDir: string;
+  repo?: string;
+  excludedDirs: string[];
+}
+
+export function resolveIndexLayout(options: IndexOptions): IndexLayout {
+  const excludedDirs = [...DEFAULT_EXCLUDED_DIRS, ...(options.excludedDirs ?? [])];
+  const absIndexDir = path.isAbsolute(options.indexDir)
+    ? options.indexDir
+    : path.join(options.repoRoot, options.indexDir);
+  const indexDirRel = toPosixRelativePath(options.repoRoot, absIndexDir).split("/")[0] ?? ".coderag";
+  // Workspace indexes usually live outside member repositories.
+  const indexDirExcludes = indexDirRel === ".." || path.isAbsolute(indexDirRel) ? [] : [indexDirRel];
+  return {
+    absIndexDir,
+    metaDir: repoMetaDir(absIndexDir, options.repoName),
+    repo: options.repoName,
+    excludedDirs: [...new Set([...excludedDirs, ...indexDirExcludes])]
+  };
+}
+
+/** Path filter with the same rules `index` applies, so partial updates and watchers agree with full scans. */
+export function createIndexPathFilter(options: IndexOptions): PathFilter {
+  return createPathFilter(options.repoRoot, {
+    excludedDirs: resolveIndexLayout(options).excludedDirs,
+    useGitignore: usesGitignoreRules(options),
+    include: options.include,
+    excludeGlobs: options.excludeGlobs
+  });
+}
+
+// With git enumeration git itself applies .gitignore (to untracked files only, as it does for commits).
+function usesGitignoreRules(options: IndexOptions): boolean {
+  return effectiveSource(options) === "git" ? false : (options.useGitignore ?? true);
+}
+
+function ignoreRulesOf(options: IndexOptions, filter: PathFilter): IndexIgnoreRules {
+  return {
+    gitignore: usesGitignoreRules(options),
+    ignoreFiles: filter.ignoreFiles(),
+    include: options.include ?? [],
+    excludeGlobs: options.excludeGlobs ?? []
+  };
+}
+
+async function assertIndexKind(layout: IndexLayout): Promise<void> {
+  if (!layout.repo && (await loadWorkspaceManifest(layout.absIndexDir))) {
+    throw new Error(`${layout.absIndexDir} holds a workspace index; index it with the workspace repositories.`);
+  }
+}
+
+/** Indexes a repository (incrementally when the previous index is compatible) and collects the embedding cache. */
+export async function buildIndex(options: IndexOptions): Promise<IndexStats> {
+  const stats = await indexRepository(options);
+  const sync = await syncEmbeddingCache(stats.indexPath, embeddingCacheModel(options));
+  return {
+    ...stats,
+    embeddingCache: { ...stats.embeddingCache, stored: stats.embeddingCache.stored + sync.added, removed: sync.removed }
+  };
+}
+
+async function indexRepository(options: IndexOptions): Promise<IndexStats> {
+  const layout = resolveIndexLayout(options);
+  const { absIndexDir, metaDir, repo, excludedDirs: excludedWithIndex } = layout;
+  await assertIndexKind(layout);
+
+  const previousManifest = await loadManifest(metaDir);
+  const fileStates = isCompatibleManifest(previousManifest, options) ? await loadFileStates(absIndexDir, repo) : null;
+
+  const filter = createIndexPathFilter(options);
+  const revision = options.rev ? { ref: options.rev, commit: await resolveCommit(options.repoRoot, options.rev) } : null;
+  const scanOptions = { maxFileSizeBytes: options.maxFileSizeBytes };
+  let files: SourceFile[];
+  if (revision) {
+    files = await scanGitRevisionFiles(
+      options.repoRoot,
+      await listTreeFiles(options.repoRoot, revision.commit),
+      scanOptions,
+      filter
+    );
+  } else if (options.source === "git") {
+    files = await scanGitSourceFiles(
+      options.repoRoot,
+      { ...scanOptions, includeUntracked: options.includeUntracked },
+      filter
+    );
+  } else {
+    files = await scanSourceFiles(options.repoRoot, scanOptions, filter);
+  }
 
   const manifest: IndexManifest = {
     version: 1,
     generatedAt: new Date().toISOString(),
     repoRoot: options.repoRoot,
+    ...(repo ? { repoName: repo } : {}),
     embeddingModel: options.embeddingModel,
+    embeddingProvider: options.provider.provider,
     chunkingMode: options.chunkingMode,
     chunkSize: options.chunkSize,
     overlapLines: options.overlapLines,
     excludedDirs: excludedWithIndex,
+    source: effectiveSource(options),
+    ...(options.source === "git" && !revision ? { gitUntracked: options.includeUntracked ?? false } : {}),
+    ...(revision ? { revision } : {}),
+    ignore: ignoreRulesOf(options, filter),
     maxFileSizeBytes: options.maxFileSizeBytes,
     filesIndexed: files.length,
-    chunksIndexed: chunks.length
+    chunksIndexed: 0
   };
 
-  await replaceChunks(absIndexDir, chunks);
-  await saveManifest(absIndexDir, manifest);
+  if (previousManifest && fileStates) {
+    return updateIndex({ options, layout, files, fileStates, previousManifest, manifest });
+  }
+
+  const processed = await processFiles(files, options, new Map());
+  const embedded = await embedPending(processed.pending, options, absIndexDir);
+  const chunks = markForRetry(embedded.chunks, embedded.failed);
+  chunks.sort((a, b) => {
+    if (a.path === b.path) {
+      return a.startLine - b.startLine;
+    }
+    return a.path.localeCompare(b.path);
+  });
+
+  manifest.chunksIndexed = chunks.length;
+  manifest.vectorIndex = { trainedRows: chunks.length, changedRows: 0 };
+
+  if (repo) {
+    await updateChunks(absIndexDir, { removePaths: [], chunks, rebuildVectorIndex: true, repo, replaceRepo: true });
+  } else {
+    await replaceChunks(absIndexDir, chunks);
+  }
+  const fullTextColumns = await createFullTextIndexes(absIndexDir);
+  manifest.fullTextColumns = fullTextColumns;
+  await saveGraph(metaDir, { version: 1, files: processed.graphs });
+  await saveManifest(metaDir, manifest);
 
   return {
     filesScanned: files.length,
     filesIndexed: files.length,
+    filesChanged: files.length,
+    filesRemoved: 0,
     chunksTotal: chunks.length,
-    chunksEmbedded: pending.length,
-    chunksReused: chunks.length - pending.length,
+    chunksEmbedded: embedded.embedded,
+    chunksReused: chunks.length - embedded.embedded,
+    failedChunks: embedded.failed,
+    embeddingCache: { hits: embedded.fromCache, stored: embedded.cacheStored, removed: 0 },
+    symbolsIndexed: countSymbols(processed.graphs),
+    incremental: false,
+    vectorIndexRebuilt: true,
+    revision: manifest.revision,
+    fullTextColumns,
+    indexPath: absIndexDir
+  };
+}
+
+export interface WorkspaceIndexStats {
+  repos: Array<{ name: string; stats: IndexStats }>;
+  reposRemoved: string[];
+  // Members share one embedding cache, collected once after all of them are indexed.
+  embeddingCache: EmbeddingCacheSync;
+  indexPath: string;
+}
+
+/**
+ * Indexes several repositories into one chunks table whose rows carry a `repo` column. Each repository keeps its own
+ * manifest and graph under `repos/<name>/` and is updated incrementally on its own; repositories dropped from the
+ * list are removed from the index.
+ */
+export async function buildWorkspaceIndex(
+  absIndexDir: string,
+  repos: WorkspaceRepo[],
+  options: Omit<IndexOptions, "repoRoot" | "indexDir" | "repoName">
+): Promise<WorkspaceIndexStats> {
+  const previous = await loadWorkspaceManifest(absIndexDir);
+  if (!previous && (await loadManifest(absIndexDir))) {
+    throw new Error(`${absIndexDir} holds a single-repository index; use another --index-dir for the workspace.`);
+  }
+  const modelChanged =
+    !!previous &&
+    (previous.embeddingModel !== options.embeddingModel ||
+      (previous.embeddingProvider ?? "ollama") !== options.provider.provider);
+  if (modelChanged) {
+    // Vectors of different models cannot share the table; every member is rebuilt below.
+    await replaceChunks(absIndexDir, []);
+  }
+
+  const names = new Set(repos.map((repo) => repo.name));
+  const reposRemoved = (previous?.repos ?? []).map((repo) => repo.name).filter((name) => !names.has(name));
+  for (const name of reposRemoved) {
+    await removeWorkspaceRepo(absIndexDir, name);
+  }
+
+  const results: WorkspaceIndexStats["repos"] = [];
+  const indexed = new Set(modelChanged ? [] : (previous?.repos ?? []).map((repo) => repo.name));
+  for (const repo of repos) {
+    const stats = await indexRepository({
+      ...options,
+      repoRoot: repo.root,
+      indexDir: absIndexDir,
+      repoName: repo.name
+    });
+    results.push({ name: repo.name, stats });
+    indexed.add(repo.name);
+    // Saved per member so a failure halfway leaves a usable workspace.
+    await saveWorkspaceManifest(absIndexDir, {
+      version: 1,
+      generatedAt: new Date().toISOString(),
+      embeddingModel: options.embeddingModel,
+      embeddingProvider: options.provider.provider,
+      repos: repos.filter((entry) => indexed.has(entry.name)),
+      fullTextColumns: stats.fullTextColumns
+    });
+  }
+
+  const embeddingCache = await syncEmbeddingCache(absIndexDir, embeddingCacheModel(options));
+  return { repos: results, reposRemoved, embeddingCache, indexPath: absIndexDir };
+}
+
+function isMissingFileError(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+  return code === "ENOENT" || code === "ENOTDIR";
+}
+
+/** Indexable files at a repo-relative path: the file itself or everything below a directory. */
+async function findFilesAt(
+  options: IndexOptions,
+  filter: PathFilter,
+  relPath: string,
+  gitEntries?: GitFileEntry[]
+): Promise<SourceFile[]> {
+  const scanOptions = { maxFileSizeBytes: options.maxFileSizeBytes, roots: [relPath] };
+  if (gitEntries) {
+    return scanGitSourceFiles(options.repoRoot, { ...scanOptions, entries: gitEntries }, filter);
+  }
+
+  const absPath = path.join(options.repoRoot, relPath);
+  let isDirectory: boolean;
+  try {
+    isDirectory = (await stat(absPath)).isDirectory();
+  } catch (error) {
+    if (isMissingFileError(error)) {
+      return [];
+    }
+    throw error;
+  }
+  if (await filter.isIgnored(relPath, isDirectory)) {
+    return [];
+  }
+  if (isDirectory) {
+    return scanSourceFiles(options.repoRoot, scanOptions, filter);
+  }
+  const file = await inspectSourceFile(options.repoRoot, absPath, options);
+  return file ? [file] : [];
+}
+
+/**
+ * Re-indexes only the given repo-relative paths (files or directories) against an existing index, e.g. paths
+ * reported by a file watcher. Paths that no longer exist or stopped being indexable are removed from the index.
+ */
+export async function updateIndexedFiles(options: IndexOptions, relPaths: string[]): Promise<IndexStats> {
+  if (options.rev) {
+    throw new Error("Indexes of a git revision are not updated from the working tree; re-run 'code-rag index --rev'.");
+  }
+  const layout = resolveIndexLayout(options);
+  const { absIndexDir } = layout;
+  const previousManifest = await loadManifest(layout.metaDir);
+  const fileStates = isCompatibleManifest(previousManifest, options)
+    ? await loadFileStates(absIndexDir, layout.repo)
+    : null;
+  if (!previousManifest || !fileStates || previousManifest.revision) {
+    throw new Error(`No compatible working tree index in ${absIndexDir}. Run 'code-rag index' first.`);
+  }
+
+  const filter = createIndexPathFilter(options);
+  const gitEntries =
+    options.source === "git"
+      ? await listGitFiles(options.repoRoot, { includeUntracked: options.includeUntracked })
+      : undefined;
+  const candidates = new Map<string, SourceFile>();
+  const touched = new Set<string>();
+  for (const relPath of new Set(relPaths)) {
+    // Indexed files at or below a touched path that are not found again (deleted, ignored, unreadable) are removed.
+    for (const filePath of fileStates.keys()) {
+      if (filePath === relPath || filePath.startsWith(`${relPath}/`)) {
+        touched.add(filePath);
+      }
+    }
+    for (const file of await findFilesAt(options, filter, relPath, gitEntries)) {
+      candidates.set(file.relPath, file);
+    }
+  }
+  const removed = [...touched].filter((filePath) => !candidates.has(filePath));
+
+  const files = [...candidates.values()].sort((a, b) => a.relPath.localeCompare(b.relPath));
+  const added = files.filter((file) => !fileStates.has(file.relPath)).length;
+  const manifest: IndexManifest = {
+    ...previousManifest,
+    generatedAt: new Date().toISOString(),
+    filesIndexed: Math.max(0, previousManifest.filesIndexed + added - removed.length)
+  };
+
+  return updateIndex({
+    options,
+    layout,
+    files,
+    fileStates,
+    previousManifest,
+    manifest,
+    removedPaths: removed.sort(),
+    backfillGraphs: false
+  });
+}
+
+/**
+ * Incremental update: only files whose mtime or size differ from the indexed rows are re-chunked, their rows
+ * (and those of removed files) are replaced in place, and the ANN index is retrained only after large drift.
+ * Without explicit `removedPaths`, `files` is the full scan and indexed paths missing from it count as removed.
+ */
+async function updateIndex(params: {
+  options: IndexOptions;
+  layout: IndexLayout;
+  files: SourceFile[];
+  fileStates: Map<string, IndexedFileState>;
+  previousManifest: IndexManifest;
+  manifest: IndexManifest;
+  removedPaths?: string[];
+  backfillGraphs?: boolean;
+}): Promise<IndexStats> {
+  const { options, layout, files, fileStates, previousManifest, manifest } = params;
+  const { absIndexDir, metaDir, repo } = layout;
+
+  const scannedPaths = new Set(files.map((file) => file.relPath));
+  const changedFiles = files.filter((file) => {
+    const state = fileStates.get(file.relPath);
+    if (state?.blobSha && file.blobSha) {
+      // Content ids survive checkouts and touches that only bump mtime.
+      return state.blobSha !== file.blobSha;
+    }
+    return !state || state.mtimeMs !== file.mtimeMs || state.size !== file.size;
+  });
+  const removedPaths =
+    params.removedPaths ?? [...fileStates.keys()].filter((filePath) => !scannedPaths.has(filePath));
+  const changedPaths = changedFiles.map((file) => file.relPath);
+  const changedSet = new Set(changedPaths);
+
+  // Previous chunks of changed files still let unchanged parts of those files skip re-embedding.
+  const reuse = embeddingsByContent(
+    await loadChunksByPaths(
+      absIndexDir,
+      changedPaths.filter((filePath) => fileStates.has(filePath)),
+      repo
+    )
+  );
+  const processed = await processFiles(changedFiles, options, reuse);
+  const embedded = await embedPending(processed.pending, options, absIndexDir);
+  const newChunks = markForRetry([...processed.chunks, ...embedded.chunks], embedded.failed);
+
+  // Graph entries of unchanged files are kept; files indexed before the graph existed are parsed once.
+  const graphsByPath = new Map((await loadGraph(metaDir))?.files.map((graph) => [graph.path, graph]) ?? []);
+  const missingGraphs =
+    params.backfillGraphs === false
+      ? []
+      : files.filter(
+          (file) => !graphsByPath.has(file.relPath) && !changedSet.has(file.relPath) && supportsCodeGraph(file.relPath)
+        );
+  const backfilled = await processFiles(missingGraphs, options, new Map());
+  for (const filePath of [...changedPaths, ...removedPaths]) {
+    graphsByPath.delete(filePath);
+  }
+  for (const graph of [...processed.graphs, ...backfilled.graphs]) {
+    graphsByPath.set(graph.path, graph);
+  }
+  const graphs = [...graphsByPath.values()].sort((a, b) => a.path.localeCompare(b.path));
+
+  const deletedRows = [...changedPaths, ...removedPaths].reduce(
+    (sum, filePath) => sum + (fileStates.get(filePath)?.chunks ?? 0),
+    0
+  );
+  const previousIndex = previousManifest.vectorIndex ?? {
+    trainedRows: previousManifest.chunksIndexed,
+    changedRows: 0
+  };
+  const changedRows = previousIndex.changedRows + deletedRows + newChunks.length;
+  const rebuildVectorIndex = changedRows > Math.max(1, previousIndex.trainedRows) * VECTOR_INDEX_DRIFT_RATIO;
+
+  let rowCount = previousManifest.chunksIndexed;
+  if (changedPaths.length > 0 || removedPaths.length > 0) {
+    rowCount = await updateChunks(absIndexDir, {
+      removePaths: [...changedPaths, ...removedPaths],
+      chunks: newChunks,
+      rebuildVectorIndex,
+      repo
+    });
+  }
+
+  manifest.chunksIndexed = rowCount;
+  manifest.vectorIndex = rebuildVectorIndex
+    ? { trainedRows: rowCount, changedRows: 0 }
+    : { trainedRows: previousIndex.trainedRows, changedRows };
+  // Also when nothing changed: indexes built before full-text search existed get their BM25 indexes here.
+  const fullTextColumns = await createFullTextIndexes(absIndexDir);
+  manifest.fullTextColumns = fullTextColumns;
+
+  await saveGraph(metaDir, { version: 1, files: graphs });
+  await saveManifest(metaDir, manifest);
+
+  return {
+    filesScanned: files.length,
+    filesIndexed: manifest.filesIndexed,
+    filesChanged: changedFiles.length,
+    filesRemoved: removedPaths.length,
+    chunksTotal: rowCount,
+    chunksEmbedded: embedded.embedded,
+    chunksReused: rowCount - embedded.embedded,
+    failedChunks: embedded.failed,
+    embeddingCache: { hits: embedded.fromCache, stored: embedded.cacheStored, removed: 0 },
+    symbolsIndexed: countSymbols(graphs),
+    incremental: true,
+    vectorIndexRebuilt: rebuildVectorIndex,
+    revision: manifest.revision,
+    fullTextColumns,
     indexPath: absIndexDir
   };
 }
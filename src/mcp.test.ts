@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { createMcpHandler, type JsonRpcResponse } from "./mcp.js";
+import { replaceChunks } from "./store.js";
+import type { Chunk } from "./types.js";
+
+function indexed(filePath: string): Chunk {
+  return {
+    id: filePath,
+    path: filePath,
+    language: "ts",
+    startLine: 1,
+    endLine: 1,
+    content: "",
+    chunkingStrategy: "text",
+    contentHash: filePath,
+    fileMtimeMs: 1,
+    fileSize: 1,
+    embedding: [1, 0]
+  };
+}
+
+describe("createMcpHandler", () => {
+  let repoRoot = "";
+  let outside = "";
+  let handle: (message: unknown) => Promise<JsonRpcResponse | null>;
+
+  before(async () => {
+    repoRoot = await mkdtemp(path.join(tmpdir(), "code-rag-mcp-"));
+    await mkdir(path.join(repoRoot, "src"));
+    await writeFile(path.join(repoRoot, "src/app.ts"), "const a = 1;\nconst b = 2;\nconst c = 3;\n");
+    await writeFile(path.join(repoRoot, "..notes.ts"), "const notes = 1;\n");
+    await writeFile(path.join(repoRoot, ".env"), "TOKEN=secret\n");
+    outside = await mkdtemp(path.join(tmpdir(), "code-rag-mcp-outside-"));
+    await writeFile(path.join(outside, "secret.ts"), "const secret = 1;\n");
+    await symlink(path.join(outside, "secret.ts"), path.join(repoRoot, "src/link.ts"));
+    await replaceChunks(path.join(repoRoot, ".coderag"), [
+      indexed("src/app.ts"),
+      indexed("..notes.ts"),
+      indexed("src/link.ts")
+    ]);
+    handle = createMcpHandler({
+      repoRoot,
+      indexDir: path.join(repoRoot, ".coderag"),
+      provider: { provider: "ollama", baseUrl: "http://127.0.0.1:9" },
+      reviewModel: "review",
+      workspace: null
+    });
+  });
+
+  after(async () => {
+    await rm(repoRoot, { recursive: true, force: true });
+    await rm(outside, { recursive: true, force: true });
+  });
+
+  async function call(name: string, args: unknown) {
+    const response = await handle({ jsonrpc: "2.0", id: 1, method: "tools/call", params: { name, arguments: args } });
+    return response?.result as { content: Array<{ text: string }>; isError?: boolean; structuredContent?: unknown };
+  }
+
+  it("negotiates the protocol and lists tools", async () => {
+    const init = await handle({ jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2024-11-05" } });
+    assert.equal((init?.result as { protocolVersion: string }).protocolVersion, "2024-11-05");
+    assert.equal(await handle({ jsonrpc: "2.0", method: "notifications/initialized" }), null);
+
+    const list = await handle({ jsonrpc: "2.0", id: 2, method: "tools/list" });
+    const tools = (list?.result as { tools: Array<{ name: string }> }).tools.map((tool) => tool.name);
+    assert.deepEqual(tools, ["search_code", "get_code", "list_symbols", "review_diff"]);
+  });
+
+  it("reads file ranges inside the repository", async () => {
+    const result = await call("get_code", { path: "src/app.ts", startLine: 2, endLine: 3 });
+    assert.equal(result.isError, undefined);
+    assert.deepEqual(result.structuredContent, {
+      path: "src/app.ts",
+      startLine: 2,
+      endLine: 3,
+      totalLines: 4,
+      content: "const b = 2;\nconst c = 3;"
+    });
+    assert.equal((await call("get_code", { path: "../outside.ts" })).isError, true);
+  });
+
+  it("serves only indexed files that resolve inside the repository", async () => {
+    const notes = await call("get_code", { path: "..notes.ts" });
+    assert.equal(notes.isError, undefined);
+    assert.equal((notes.structuredContent as { content: string }).content, "const notes = 1;\n");
+
+    const env = await call("get_code", { path: ".env" });
+    assert.equal(env.isError, true);
+    assert.equal(env.content[0]?.text, ".env is not in the index");
+
+    const link = await call("get_code", { path: "src/link.ts" });
+    assert.equal(link.isError, true);
+    assert.equal(link.content[0]?.text, '"path" must stay inside the repository');
+  });
+
+  it("reports invalid tool arguments as tool errors", async () => {
+    const result = await call("search_code", { topK: 3 });
+    assert.equal(result.isError, true);
+    assert.equal(result.content[0]?.text, '"query" is required');
+  });
+
+  it("answers unknown methods and tools with JSON-RPC errors", async () => {
+    assert.equal((await handle({ jsonrpc: "2.0", id: 3, method: "resources/list" }))?.error?.code, -32601);
+    const response = await handle({ jsonrpc: "2.0", id: 4, method: "tools/call", params: { name: "nope" } });
+    assert.equal(response?.error?.code, -32602);
+  });
+});
@@ -0,0 +1,407 @@
+import { readFile, realpath } from "node:fs/promises";
+import path from "node:path";
+import { createInterface } from "node:readline";
+import {
+  checkRepoNames,
+  ParamError,
+  parseParams,
+  REVIEW_PARAMETERS,
+  SEARCH_PARAMETERS,
+  toChunkView,
+  toSearchHits,
+  workspaceRepoRoot,
+  type JsonSchema,
+  type ReviewParameters,
+  type SearchParameters
+} from "./api.js";
+import { qualifiedName, type GraphSymbol } from "./graph.js";
+import { globToRegExpSource, pathGlobToRegExpSource } from "./ignore.js";
+import { renderReview } from "./report.js";
+import { formatChunkLocation } from "./retrieval.js";
+import { runReview } from "./review.js";
+import { searchIndex } from "./search.js";
+import {
+  closeConnectionPool,
+  enableConnectionPool,
+  hasIndexedPath,
+  loadChunksByIds,
+  loadGraph,
+  loadWorkspaceManifest,
+  repoMetaDir
+} from "./store.js";
+import type { ProviderConfig } from "./provider.js";
+import type { Chunk } from "./types.js";
+import type { WorkspaceConfig } from "./workspace.js";
+
+const SERVER_INFO = { name: "code-rag", version: "0.1.0" };
+// Newest first; a client asking for another version gets the newest one.
+const PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+const MAX_RANGE_LINES = 400;
+const DEFAULT_SYMBOL_LIMIT = 100;
+
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+export interface McpOptions {
+  // Repository reviews and file reads refer to unless a tool call names a workspace repository.
+  repoRoot: string;
+  indexDir: string;
+  provider: ProviderConfig;
+  reviewModel: string;
+  workspace: WorkspaceConfig | null;
+}
+
+type JsonRpcId = string | number | null;
+
+class RpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: JsonRpcId;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface ToolOutput {
+  text: string;
+  structured?: Record<string, unknown>;
+}
+
+interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  run: (args: unknown) => Promise<ToolOutput>;
+}
+
+interface GetCodeParameters {
+  chunkId?: string;
+  repo?: string;
+  path?: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+interface ListSymbolsParameters {
+  repo?: string;
+  path?: string;
+  name?: string;
+  kind?: string;
+  limit: number;
+}
+
+const GET_CODE_PARAMETERS: JsonSchema = {
+  type: "object",
+  properties: {
+    chunkId: { type: "string", description: "Chunk id from search results; alternative to path" },
+    repo: { type: "string", description: "Workspace repository of path" },
+    path: { type: "string", description: "Repository-relative file path" },
+    startLine: { type: "integer", minimum: 1, description: "First line (default 1)" },
+    endLine: { type: "integer", minimum: 1, description: `Last line (at most ${MAX_RANGE_LINES} lines are returned)` }
+  },
+  additionalProperties: false
+};
+
+const LIST_SYMBOLS_PARAMETERS: JsonSchema = {
+  type: "object",
+  properties: {
+    repo: { type: "string", description: "Workspace repository; all when omitted" },
+    path: { type: "string", description: "Path glob, e.g. src/api or *.ts" },
+    name: { type: "string", description: "Glob over qualified names, e.g. User* or Service.*" },
+    kind: {
+      type: "string",
+      description: "AST node type, e.g. FunctionDeclaration, ClassDeclaration, MethodDeclaration"
+    },
+    limit: { type: "integer", minimum: 1, maximum: 1000, default: DEFAULT_SYMBOL_LIMIT }
+  },
+  additionalProperties: false
+};
+
+function isOutside(relPath: string): boolean {
+  return relPath === ".." || relPath.startsWith(`..${path.sep}`) || path.isAbsolute(relPath);
+}
+
+function fence(chunk: Pick<Chunk, "language" | "content">): string {
+  return ["```" + chunk.language, chunk.content, "```"].join("\n");
+}
+
+function formatChunkHeading(chunk: Chunk): string {
+  const symbol = chunk.symbol ? ` ${chunk.nodeType ?? ""} ${chunk.symbol}` : "";
+  return `${formatChunkLocation(chunk)}${symbol} [id: ${chunk.id}]`;
+}
+
+/** Dispatches MCP JSON-RPC messages: `initialize`, `ping`, `tools/list` and `tools/call`. */
+export function createMcpHandler(options: McpOptions): (message: unknown) => Promise<JsonRpcResponse | null> {
+  const { workspace } = options;
+
+  function repoRootOf(name: string | undefined): string {
+    return name === undefined ? options.repoRoot : workspaceRepoRoot(workspace, name);
+  }
+
+  // Workspace member the server's own repository is indexed as.
+  function repoNameOf(name: string | undefined): string | undefined {
+    return name ?? workspace?.repos.find((repo) => path.resolve(repo.root) === path.resolve(options.repoRoot))?.name;
+  }
+
+  async function searchCode(args: unknown): Promise<ToolOutput> {
+    const params = parseParams<SearchParameters>(SEARCH_PARAMETERS, args);
+    const { results, warnings } = await searchIndex({
+      ...params,
+      repoRoot: options.repoRoot,
+      indexDir: options.indexDir,
+      provider: options.provider,
+      repoFilter: checkRepoNames(workspace, params.repoFilter)
+    });
+    const text = [
+      ...warnings.map((warning) => `Warning: ${warning}`),
+      ...results.map((item, index) => `## ${index + 1}. ${formatChunkHeading(item.chunk)}\n${fence(item.chunk)}`)
+    ].join("\n\n");
+    return { text: text || "No results.", structured: { results: toSearchHits(results), warnings } };
+  }
+
+  async function getCode(args: unknown): Promise<ToolOutput> {
+    const params = parseParams<GetCodeParameters>(GET_CODE_PARAMETERS, args);
+    if (params.chunkId !== undefined) {
+      const [chunk] = await loadChunksByIds(options.indexDir, [params.chunkId]);
+      if (!chunk) {
+        throw new ParamError(`Chunk ${params.chunkId} is not in the index`);
+      }
+      return { text: `${formatChunkHeading(chunk)}\n${fence(chunk)}`, structured: { chunk: toChunkView(chunk) } };
+    }
+    if (!params.path) {
+      throw new ParamError(`Pass "chunkId" or "path"`);
+    }
+
+    const repoRoot = repoRootOf(params.repo);
+    const absPath = path.resolve(repoRoot, params.path);
+    const relPath = path.relative(repoRoot, absPath).split(path.sep).join(path.posix.sep);
+    if (isOutside(path.relative(repoRoot, absPath))) {
+      throw new ParamError(`"path" must stay inside the repository`);
+    }
+    // Only indexed files are served, so ignored files (.env, keys, build output) stay out of reach of clients.
+    if (!(await hasIndexedPath(options.indexDir, relPath, repoNameOf(params.repo)))) {
+      throw new ParamError(`${relPath} is not in the index`);
+    }
+    // Symlinks inside the repository may point anywhere.
+    const realPath = await realpath(absPath);
+    if (isOutside(path.relative(await realpath(repoRoot), realPath))) {
+      throw new ParamError(`"path" must stay inside the repository`);
+    }
+    const lines = (await readFile(realPath, "utf8")).split(/\r?\n/);
+    const startLine = Math.min(params.startLine ?? 1, lines.length);
+    const endLine = Math.min(params.endLine ?? lines.length, lines.length, startLine + MAX_RANGE_LINES - 1);
+    if (endLine < startLine) {
+      throw new ParamError(`"endLine" must not be before "startLine"`);
+    }
+    const content = lines.slice(startLine - 1, endLine).join("\n");
+    const location = `${params.repo ? `${params.repo}:` : ""}${relPath}:${startLine}-${endLine}`;
+    const language = path.extname(relPath).slice(1);
+    return {
+      text: `${location}${endLine < lines.length ? ` (of ${lines.length})` : ""}\n${fence({ language, content })}`,
+      structured: { path: relPath, startLine, endLine, totalLines: lines.length, content }
+    };
+  }
+
+  async function listSymbols(args: unknown): Promise<ToolOutput> {
+    const params = parseParams<ListSymbolsParameters>(LIST_SYMBOLS_PARAMETERS, args);
+    const pathPattern = params.path ? new RegExp(pathGlobToRegExpSource(params.path)) : null;
+    const namePattern = params.name ? new RegExp(`^${globToRegExpSource(params.name)}$`) : null;
+    const members = (await loadWorkspaceManifest(options.indexDir))?.repos.map((repo) => repo.name) ?? [undefined];
+    if (params.repo !== undefined) {
+      checkRepoNames(workspace, [params.repo]);
+    }
+    const repos = params.repo === undefined ? members : [params.repo];
+
+    const symbols: Array<GraphSymbol & { repo?: string; qualifiedName: string }> = [];
+    let truncated = false;
+    for (const repo of repos) {
+      const graph = await loadGraph(repoMetaDir(options.indexDir, repo));
+      for (const symbol of graph?.files.flatMap((file) => file.symbols) ?? []) {
+        const name = qualifiedName(symbol);
+        if (
+          (pathPattern && !pathPattern.test(symbol.path)) ||
+          (namePattern && !namePattern.test(name)) ||
+          (params.kind && symbol.kind !== params.kind)
+        ) {
+          continue;
+        }
+        if (symbols.length === params.limit) {
+          truncated = true;
+          break;
+        }
+        symbols.push({ ...symbol, ...(repo ? { repo } : {}), qualifiedName: name });
+      }
+    }
+
+    const lines = symbols.map(
+      (symbol) =>
+        `${symbol.kind} ${symbol.qualifiedName}${symbol.exported ? " (exported)" : ""} — ` +
+        `${symbol.repo ? `${symbol.repo}:` : ""}${symbol.path}:${symbol.startLine}-${symbol.endLine}`
+    );
+    if (truncated) {
+      lines.push(`… more symbols match; narrow the filters or raise "limit".`);
+    }
+    return { text: lines.join("\n") || "No symbols.", structured: { symbols, truncated } };
+  }
+
+  async function reviewDiff(args: unknown): Promise<ToolOutput> {
+    const { repo, ...params } = parseParams<ReviewParameters>(REVIEW_PARAMETERS, args);
+    const result = await runReview({
+      ...params,
+      repoRoot: repoRootOf(repo),
+      indexDir: options.indexDir,
+      provider: options.provider,
+      reviewModel: params.reviewModel ?? options.reviewModel,
+      repoFilter: checkRepoNames(workspace, params.repoFilter)
+    });
+    return {
+      text: renderReview(result, "markdown"),
+      structured: JSON.parse(renderReview(result, "json")) as Record<string, unknown>
+    };
+  }
+
+  const tools: McpTool[] = [
+    {
+      name: "search_code",
+      description: "Semantic and full-text search over the indexed code; returns the closest chunks with their ids.",
+      inputSchema: SEARCH_PARAMETERS,
+      run: searchCode
+    },
+    {
+      name: "get_code",
+      description: "Fetch an indexed chunk by id, or a line range of an indexed repository file.",
+      inputSchema: GET_CODE_PARAMETERS,
+      run: getCode
+    },
+    {
+      name: "list_symbols",
+      description: "List declarations from the code graph (functions, classes, methods, ...), filtered by path and name.",
+      inputSchema: LIST_SYMBOLS_PARAMETERS,
+      run: listSymbols
+    },
+    {
+      name: "review_diff",
+      description: "Review a unified diff with the local review model, using the index for context.",
+      inputSchema: REVIEW_PARAMETERS,
+      run: reviewDiff
+    }
+  ];
+
+  async function callTool(params: Record<string, unknown>): Promise<unknown> {
+    const tool = tools.find((entry) => entry.name === params.name);
+    if (!tool) {
+      throw new RpcError(INVALID_PARAMS, `Unknown tool: ${String(params.name)}`);
+    }
+    try {
+      const output = await tool.run(params.arguments);
+      return {
+        content: [{ type: "text", text: output.text }],
+        ...(output.structured ? { structuredContent: output.structured } : {})
+      };
+    } catch (error) {
+      // Tool failures go back to the model as results it can react to, not as protocol errors.
+      const message = error instanceof Error ? error.message : String(error);
+      return { content: [{ type: "text", text: message }], isError: true };
+    }
+  }
+
+  async function dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+    switch (method) {
+      case "initialize": {
+        const requested = typeof params.protocolVersion === "string" ? params.protocolVersion : "";
+        return {
+          protocolVersion: PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {} },
+          serverInfo: SERVER_INFO
+        };
+      }
+      case "ping":
+        return {};
+      case "tools/list":
+        return { tools: tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })) };
+      case "tools/call":
+        return callTool(params);
+      default:
+        throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  return async (message: unknown) => {
+    const request = message as { id?: unknown; method?: unknown; params?: unknown } | null;
+    if (!request || typeof request !== "object" || Array.isArray(request) || typeof request.method !== "string") {
+      return { jsonrpc: "2.0", id: null, error: { code: INVALID_REQUEST, message: "Invalid request" } };
+    }
+    const id = request.id;
+    const isNotification = id === undefined;
+    try {
+      const params = (request.params ?? {}) as Record<string, unknown>;
+      const result = await dispatch(request.method, params);
+      return isNotification ? null : { jsonrpc: "2.0", id: id as JsonRpcId, result };
+    } catch (error) {
+      if (isNotification) {
+        // Notifications such as `notifications/initialized` never get a response.
+        return null;
+      }
+      return {
+        jsonrpc: "2.0",
+        id: id as JsonRpcId,
+        error: {
+          code: error instanceof RpcError ? error.code : INTERNAL_ERROR,
+          message: error instanceof Error ? error.message : String(error)
+        }
+      };
+    }
+  };
+}
+
+/**
+ * Serves MCP over stdio: one JSON-RPC message per line on `input`, responses on `output`. Resolves once `input`
+ * ends and in-flight calls are answered. Logs must go to stderr, since stdout carries the protocol.
+ */
+export async function serveMcp(
+  options: McpOptions,
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout
+): Promise<void> {
+  const handle = createMcpHandler(options);
+  const pending = new Set<Promise<void>>();
+  enableConnectionPool();
+
+  const send = (response: JsonRpcResponse | null): void => {
+    if (response) {
+      output.write(`${JSON.stringify(response)}\n`);
+    }
+  };
+
+  try {
+    for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+      if (!line.trim()) {
+        continue;
+      }
+      let message: unknown;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        send({ jsonrpc: "2.0", id: null, error: { code: PARSE_ERROR, message: "Parse error" } });
+        continue;
+      }
+      // Calls run concurrently; responses carry their request id.
+      const task = handle(message).then(send);
+      pending.add(task);
+      void task.finally(() => pending.delete(task));
+    }
+    await Promise.all(pending);
+  } finally {
+    await closeConnectionPool();
+  }
+}
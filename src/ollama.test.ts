@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseNdjson } from "./ollama.js";
+
+async function* bytes(...parts: string[]): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  for (const part of parts) {
+    yield encoder.encode(part);
+  }
+}
+
+async function collect(stream: AsyncIterable<unknown>): Promise<unknown[]> {
+  const values: unknown[] = [];
+  for await (const value of stream) {
+    values.push(value);
+  }
+  return values;
+}
+
+describe("parseNdjson", () => {
+  it("joins lines split across chunks and parses a trailing line without a newline", async () => {
+    const values = await collect(parseNdjson(bytes('{"response":"he', 'llo"}\n\n{"resp', 'onse":"!","done":true}')));
+    assert.deepEqual(values, [{ response: "hello" }, { response: "!", done: true }]);
+  });
+
+  it("decodes multi-byte characters split between chunks", async () => {
+    const encoded = new TextEncoder().encode('{"response":"привет"}\n');
+    async function* split(): AsyncGenerator<Uint8Array> {
+      yield encoded.slice(0, 15);
+      yield encoded.slice(15);
+    }
+    assert.deepEqual(await collect(parseNdjson(split())), [{ response: "привет" }]);
+  });
+});
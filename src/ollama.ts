@@ -1,31 +1,90 @@
+import {
+  ProviderError,
+  readLines,
+  type ChatProvider,
+  type EmbeddingProvider,
+  type GenerateChunk,
+  type GenerateOptions,
+  type GenerateStats
+} from "./provider.js";
+
 export interface OllamaOptions {
   baseUrl: string;
 }
 
+interface GenerateResponse {
+  response?: string;
+  done?: boolean;
+  error?: string;
+  total_duration?: number;
+  load_duration?: number;
+  prompt_eval_count?: number;
+  prompt_eval_duration?: number;
+  eval_count?: number;
+  eval_duration?: number;
+}
+
+interface ShowResponse {
+  // Modelfile parameters, one "name value" pair per line.
+  parameters?: string;
+  model_info?: Record<string, unknown>;
+}
+
 interface EmbedResponse {
   embeddings?: number[][];
   embedding?: number[];
 }
 
-export class OllamaClient {
+const NANOS_PER_MS = 1e6;
+
+function toGenerateStats(data: GenerateResponse): GenerateStats {
+  const evalDurationMs = (data.eval_duration ?? 0) / NANOS_PER_MS;
+  const outputTokens = data.eval_count ?? 0;
+  return {
+    promptTokens: data.prompt_eval_count ?? 0,
+    outputTokens,
+    totalDurationMs: (data.total_duration ?? 0) / NANOS_PER_MS,
+    loadDurationMs: (data.load_duration ?? 0) / NANOS_PER_MS,
+    promptDurationMs: (data.prompt_eval_duration ?? 0) / NANOS_PER_MS,
+    evalDurationMs,
+    tokensPerSecond: evalDurationMs > 0 ? (outputTokens * 1000) / evalDurationMs : 0
+  };
+}
+
+/** Parses newline-delimited JSON from a byte stream; a trailing line without a newline is parsed too. */
+export async function* parseNdjson(stream: AsyncIterable<Uint8Array>): AsyncGenerator<unknown> {
+  for await (const line of readLines(stream)) {
+    if (line.trim()) {
+      yield JSON.parse(line) as unknown;
+    }
+  }
+}
+
+export class OllamaClient implements EmbeddingProvider, ChatProvider {
+  readonly name = "ollama";
   private readonly baseUrl: string;
 
   constructor(options: OllamaOptions) {
     this.baseUrl = options.baseUrl.replace(/\/+$/, "");
   }
 
-  private async postJson<T>(endpoint: string, body: Record<string, unknown>): Promise<T> {
+  private async post(endpoint: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
     const response = await fetch(`${this.baseUrl}${endpoint}`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body)
+      body: JSON.stringify(body),
+      signal
     });
 
     if (!response.ok) {
       const payload = await response.text();
-      throw new Error(`Ollama request failed (${response.status}) ${endpoint}: ${payload}`);
+      throw new ProviderError(response.status, `Ollama request failed (${response.status}) ${endpoint}: ${payload}`);
     }
+    return response;
+  }
 
+  private async postJson<T>(endpoint: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+    const response = await this.post(endpoint, body, signal);
     return (await response.json()) as T;
   }
 
@@ -51,17 +110,15 @@ export class OllamaClient {
     return embedding;
   }
 
-  private async embedBatch(model: string, inputs: string[]): Promise<number[][]> {
+  async embedBatch(model: string, inputs: string[], signal?: AbortSignal): Promise<number[][]> {
     try {
-      const data = await this.postJson<EmbedResponse>("/api/embed", {
-        model,
-        input: inputs
-      });
+      const data = await this.postJson<EmbedResponse>("/api/embed", { model, input: inputs }, signal);
       if (Array.isArray(data.embeddings)) {
         return data.embeddings;
       }
     } catch (error) {
-      if (inputs.length > 1) {
+      // Only servers without /api/embed get the fallback; other errors are about the request itself.
+      if (inputs.length > 1 || !(error instanceof ProviderError) || error.status !== 404) {
         throw error;
       }
     }
@@ -69,10 +126,7 @@ export class OllamaClient {
     // Compatibility fallback for older Ollama APIs that only support single embedding calls.
     const output: number[][] = [];
     for (const text of inputs) {
-      const data = await this.postJson<EmbedResponse>("/api/embeddings", {
-        model,
-        prompt: text
-      });
+      const data = await this.postJson<EmbedResponse>("/api/embeddings", { model, prompt: text }, signal);
       if (!Array.isArray(data.embedding)) {
         throw new Error("Ollama /api/embeddings response does not contain embedding");
       }
@@ -81,17 +135,87 @@ export class OllamaClient {
     return output;
   }
 
-  async generate(model: string, prompt: string, system: string): Promise<string> {
-    const data = await this.postJson<{ response?: string }>("/api/generate", {
+  private generateBody(
+    model: string,
+    prompt: string,
+    system: string,
+    options: GenerateOptions,
+    stream: boolean
+  ): Record<string, unknown> {
+    const modelOptions = {
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+      ...(options.contextLength !== undefined ? { num_ctx: options.contextLength } : {})
+    };
+    return {
       model,
       prompt,
       system,
-      stream: false
-    });
+      stream,
+      ...(options.format ? { format: options.format } : {}),
+      ...(Object.keys(modelOptions).length > 0 ? { options: modelOptions } : {})
+    };
+  }
+
+  /**
+   * Reads the context window from `/api/show`: a `num_ctx` set in the Modelfile, otherwise the
+   * `<architecture>.context_length` the model was trained with.
+   */
+  async contextLength(model: string): Promise<number | undefined> {
+    const data = await this.postJson<ShowResponse>("/api/show", { model });
+    const numCtx = /^num_ctx\s+(\d+)/m.exec(data.parameters ?? "")?.[1];
+    if (numCtx) {
+      return Number(numCtx);
+    }
+    const trained = Object.entries(data.model_info ?? {}).find(([key]) => key.endsWith(".context_length"))?.[1];
+    return typeof trained === "number" && trained > 0 ? trained : undefined;
+  }
+
+  async generate(model: string, prompt: string, system: string, options: GenerateOptions = {}): Promise<string> {
+    const data = await this.postJson<GenerateResponse>(
+      "/api/generate",
+      this.generateBody(model, prompt, system, options, false),
+      options.signal
+    );
 
     if (typeof data.response !== "string") {
       throw new Error("Ollama /api/generate response does not contain response");
     }
     return data.response.trim();
   }
+
+  /**
+   * Streams `/api/generate` output as it is produced. The last chunk has `done: true` and carries token and timing
+   * stats; aborting `options.signal` stops the request and makes the iteration throw.
+   */
+  async *generateStream(
+    model: string,
+    prompt: string,
+    system: string,
+    options: GenerateOptions = {}
+  ): AsyncGenerator<GenerateChunk> {
+    const response = await this.post(
+      "/api/generate",
+      this.generateBody(model, prompt, system, options, true),
+      options.signal
+    );
+    if (!response.body) {
+      throw new Error("Ollama /api/generate returned an empty stream");
+    }
+
+    for await (const value of parseNdjson(response.body)) {
+      const data = value as GenerateResponse;
+      if (data.error) {
+        throw new Error(`Ollama generation failed: ${data.error}`);
+      }
+      const text = typeof data.response === "string" ? data.response : "";
+      if (data.done) {
+        yield { text, done: true, stats: toGenerateStats(data) };
+        return;
+      }
+      if (text) {
+        yield { text, done: false };
+      }
+    }
+    throw new Error("Ollama /api/generate stream ended before the final chunk");
+  }
 }
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { OpenAiClient } from "./openai.js";
+import type { GenerateChunk } from "./provider.js";
+
+async function readBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+  let text = "";
+  for await (const part of request) {
+    text += String(part);
+  }
+  return JSON.parse(text) as Record<string, unknown>;
+}
+
+describe("OpenAiClient", () => {
+  let server: Server;
+  let client: OpenAiClient;
+  const requests: Array<{ url?: string; authorization?: string; body: Record<string, unknown> }> = [];
+
+  before(async () => {
+    server = createServer((request, response) => {
+      void readBody(request).then((body) => {
+        requests.push({ url: request.url, authorization: request.headers.authorization, body });
+        if (request.url === "/v1/embeddings") {
+          const inputs = body.input as string[];
+          // Reversed on purpose: entries are matched to inputs by `index`.
+          const data = inputs.map((input, index) => ({ index, embedding: [input.length] })).reverse();
+          response.end(JSON.stringify({ data }));
+          return;
+        }
+        if (body.stream) {
+          response.writeHead(200, { "content-type": "text/event-stream" });
+          const events = [
+            { choices: [{ delta: { role: "assistant" } }] },
+            { choices: [{ delta: { content: '{"ok"' } }] },
+            { choices: [{ delta: { content: ":true}" } }] },
+            { choices: [], usage: { prompt_tokens: 12, completion_tokens: 4 } }
+          ];
+          response.end(`${events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("")}data: [DONE]\n\n`);
+          return;
+        }
+        response.end(JSON.stringify({ choices: [{ message: { content: " answer " } }] }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    client = new OpenAiClient({ baseUrl: `http://127.0.0.1:${port}/v1/`, apiKey: "secret" });
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("embeds in batches and restores input order", async () => {
+    requests.length = 0;
+    const embeddings = await client.embedMany("embed", ["a", "bb", "ccc"], 2);
+    assert.deepEqual(embeddings, [[1], [2], [3]]);
+    assert.deepEqual(
+      requests.map((request) => request.body.input),
+      [["a", "bb"], ["ccc"]]
+    );
+    assert.equal(requests[0]?.authorization, "Bearer secret");
+  });
+
+  it("sends system and user messages with a JSON schema response format", async () => {
+    requests.length = 0;
+    const schema = { type: "object" };
+    assert.equal(await client.generate("chat", "prompt", "system", { format: schema, temperature: 0 }), "answer");
+    assert.equal(requests[0]?.url, "/v1/chat/completions");
+    assert.deepEqual(requests[0]?.body, {
+      model: "chat",
+      messages: [
+        { role: "system", content: "system" },
+        { role: "user", content: "prompt" }
+      ],
+      stream: false,
+      response_format: { type: "json_schema", json_schema: { name: "response", schema } },
+      temperature: 0
+    });
+  });
+
+  it("streams deltas and reports usage on the final chunk", async () => {
+    const chunks: GenerateChunk[] = [];
+    for await (const chunk of client.generateStream("chat", "prompt", "system")) {
+      chunks.push(chunk);
+    }
+    assert.deepEqual(
+      chunks.map((chunk) => chunk.text),
+      ['{"ok"', ":true}", ""]
+    );
+    const last = chunks.at(-1);
+    assert.equal(last?.done, true);
+    assert.equal(last?.stats?.promptTokens, 12);
+    assert.equal(last?.stats?.outputTokens, 4);
+  });
+});
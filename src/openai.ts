@@ -0,0 +1,228 @@
+import {
+  ProviderError,
+  readLines,
+  type ChatProvider,
+  type EmbeddingProvider,
+  type GenerateChunk,
+  type GenerateOptions,
+  type GenerateStats
+} from "./provider.js";
+
+export interface OpenAiOptions {
+  // API root including the version segment, e.g. `http://127.0.0.1:8080/v1`.
+  baseUrl: string;
+  apiKey?: string;
+}
+
+interface EmbeddingsResponse {
+  data?: Array<{ embedding?: number[]; index?: number }>;
+}
+
+interface ModelsResponse {
+  data?: Array<{ id?: string; max_model_len?: number; meta?: { n_ctx_train?: number } }>;
+}
+
+interface ChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: ChatUsage | null;
+  error?: { message?: string } | string;
+}
+
+/** Yields the `data:` payloads of a server-sent event stream up to the `[DONE]` marker. */
+export async function* parseSseData(stream: AsyncIterable<Uint8Array>): AsyncGenerator<string> {
+  for await (const line of readLines(stream)) {
+    if (!line.startsWith("data:")) {
+      continue;
+    }
+    const data = line.slice("data:".length).trim();
+    if (data === "[DONE]") {
+      return;
+    }
+    if (data) {
+      yield data;
+    }
+  }
+}
+
+function responseFormat(format: GenerateOptions["format"]): Record<string, unknown> | undefined {
+  if (!format) {
+    return undefined;
+  }
+  return format === "json"
+    ? { type: "json_object" }
+    : { type: "json_schema", json_schema: { name: "response", schema: format } };
+}
+
+function errorMessage(error: ChatCompletionChunk["error"]): string {
+  return typeof error === "string" ? error : (error?.message ?? "unknown error");
+}
+
+/** Client for servers exposing the OpenAI `/embeddings` and `/chat/completions` API (llama.cpp server, vLLM, ...). */
+export class OpenAiClient implements EmbeddingProvider, ChatProvider {
+  readonly name = "openai";
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+
+  constructor(options: OpenAiOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+  }
+
+  private async request(endpoint: string, init: RequestInit): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      }
+    });
+
+    if (!response.ok) {
+      const payload = await response.text();
+      throw new ProviderError(
+        response.status,
+        `OpenAI-compatible request failed (${response.status}) ${endpoint}: ${payload}`
+      );
+    }
+    return response;
+  }
+
+  private post(endpoint: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    return this.request(endpoint, { method: "POST", body: JSON.stringify(body), signal });
+  }
+
+  async embedMany(model: string, inputs: string[], batchSize: number): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (let i = 0; i < inputs.length; i += batchSize) {
+      embeddings.push(...(await this.embedBatch(model, inputs.slice(i, i + batchSize))));
+    }
+    return embeddings;
+  }
+
+  async embedSingle(model: string, input: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch(model, [input]);
+    if (!embedding) {
+      throw new Error("OpenAI-compatible server returned empty embedding array");
+    }
+    return embedding;
+  }
+
+  async embedBatch(model: string, inputs: string[], signal?: AbortSignal): Promise<number[][]> {
+    const response = await this.post("/embeddings", { model, input: inputs }, signal);
+    const data = ((await response.json()) as EmbeddingsResponse).data;
+    if (!Array.isArray(data) || data.length !== inputs.length) {
+      throw new Error(`/embeddings returned ${data?.length ?? 0} embeddings for ${inputs.length} inputs`);
+    }
+    // Entries carry their input position; servers are not required to keep the order.
+    const ordered = [...data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+    return ordered.map((entry) => {
+      if (!Array.isArray(entry.embedding)) {
+        throw new Error("/embeddings response entry does not contain embedding");
+      }
+      return entry.embedding;
+    });
+  }
+
+  private chatBody(
+    model: string,
+    prompt: string,
+    system: string,
+    options: GenerateOptions,
+    stream: boolean
+  ): Record<string, unknown> {
+    const format = responseFormat(options.format);
+    return {
+      model,
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: prompt }
+      ],
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+      ...(format ? { response_format: format } : {}),
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {})
+    };
+  }
+
+  /** Looks the model up in `/models`: vLLM reports `max_model_len`, llama.cpp server the trained `n_ctx_train`. */
+  async contextLength(model: string): Promise<number | undefined> {
+    const response = await this.request("/models", { method: "GET" });
+    const entry = ((await response.json()) as ModelsResponse).data?.find((item) => item.id === model);
+    const length = entry?.max_model_len ?? entry?.meta?.n_ctx_train;
+    return typeof length === "number" && length > 0 ? length : undefined;
+  }
+
+  async generate(model: string, prompt: string, system: string, options: GenerateOptions = {}): Promise<string> {
+    const response = await this.post(
+      "/chat/completions",
+      this.chatBody(model, prompt, system, options, false),
+      options.signal
+    );
+    const content = ((await response.json()) as ChatCompletionResponse).choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error("/chat/completions response does not contain message content");
+    }
+    return content.trim();
+  }
+
+  /**
+   * Streams `/chat/completions` deltas. Token counts come from the usage chunk when the server sends one; timings are
+   * measured on this side, with the time to the first token counted as prompt processing.
+   */
+  async *generateStream(
+    model: string,
+    prompt: string,
+    system: string,
+    options: GenerateOptions = {}
+  ): AsyncGenerator<GenerateChunk> {
+    const startedAt = performance.now();
+    const response = await this.post(
+      "/chat/completions",
+      this.chatBody(model, prompt, system, options, true),
+      options.signal
+    );
+    if (!response.body) {
+      throw new Error("/chat/completions returned an empty stream");
+    }
+
+    let firstTokenAt: number | undefined;
+    let deltas = 0;
+    let usage: ChatUsage | undefined;
+    for await (const data of parseSseData(response.body)) {
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      if (chunk.error) {
+        throw new Error(`OpenAI-compatible generation failed: ${errorMessage(chunk.error)}`);
+      }
+      usage = chunk.usage ?? usage;
+      const text = chunk.choices?.[0]?.delta?.content ?? "";
+      if (text) {
+        firstTokenAt ??= performance.now();
+        deltas += 1;
+        yield { text, done: false };
+      }
+    }
+
+    const finishedAt = performance.now();
+    const outputTokens = usage?.completion_tokens ?? deltas;
+    const evalDurationMs = finishedAt - (firstTokenAt ?? finishedAt);
+    const stats: GenerateStats = {
+      promptTokens: usage?.prompt_tokens ?? 0,
+      outputTokens,
+      totalDurationMs: finishedAt - startedAt,
+      loadDurationMs: 0,
+      promptDurationMs: (firstTokenAt ?? finishedAt) - startedAt,
+      evalDurationMs,
+      tokensPerSecond: evalDurationMs > 0 ? (outputTokens * 1000) / evalDurationMs : 0
+    };
+    yield { text: "", done: true, stats };
+  }
+}
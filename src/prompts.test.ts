@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  loadRerankPrompts,
+  loadReviewPrompts,
+  REVIEW_GUIDELINES_FILE,
+  REVIEW_TEMPLATE_FILE,
+  validatePromptTemplate
+} from "./prompts.js";
+
+describe("loadReviewPrompts", () => {
+  let repoRoot = "";
+
+  before(async () => {
+    repoRoot = await mkdtemp(path.join(tmpdir(), "code-rag-prompts-"));
+  });
+
+  after(async () => {
+    await rm(repoRoot, { recursive: true, force: true });
+  });
+
+  it("builds the default Russian prompts", async () => {
+    const prompts = await loadReviewPrompts({ repoRoot });
+    assert.match(prompts.system, /^Ты старший инженер/);
+    assert.match(prompts.system, /на языке пользователя\.$/);
+    assert.match(
+      prompts.renderReview({ query: "q", diff: "", changed: [], context: ["block"] }),
+      /Diff не найден[\s\S]*RAG контекст:\nblock$/
+    );
+  });
+
+  it("switches to English instructions for other languages and adds the preset focus", async () => {
+    const prompts = await loadReviewPrompts({ repoRoot, language: "de", preset: "security" });
+    assert.match(prompts.system, /^You are a senior engineer/);
+    assert.match(prompts.system, /Focus on security/);
+    assert.match(prompts.system, /in German\.$/);
+    assert.equal(prompts.defaultQuery, "Review the current diff");
+  });
+
+  it("adds repository guidelines and renders the repository template", async () => {
+    await mkdir(path.join(repoRoot, ".coderag"), { recursive: true });
+    await writeFile(path.join(repoRoot, REVIEW_GUIDELINES_FILE), "Never use eval.\n");
+    await writeFile(path.join(repoRoot, REVIEW_TEMPLATE_FILE), "Task: {{ query }}\n{{diff}}\nSee {{context}}\n");
+    const prompts = await loadReviewPrompts({ repoRoot, language: "en" });
+    assert.match(prompts.system, /Team rules[^\n]*\nNever use eval\.\n\nWrite/);
+    assert.match(prompts.aggregateSystem, /Never use eval\./);
+    assert.equal(
+      prompts.renderReview({ query: "q", diff: "+{{query}}", changed: [], context: [] }),
+      "Task: q\n+{{query}}\nSee No RAG context found."
+    );
+  });
+
+  it("fails on a missing explicit template", async () => {
+    await assert.rejects(loadReviewPrompts({ repoRoot, promptTemplate: "nope.md" }), /Prompt template not found/);
+  });
+});
+
+describe("loadRerankPrompts", () => {
+  it("follows the answer language of the review prompts", () => {
+    assert.equal(loadRerankPrompts().queryHeading, "Запрос:");
+    assert.equal(loadRerankPrompts("русский").chunkHeading, "Фрагмент");
+    const english = loadRerankPrompts("de");
+    assert.equal(english.queryHeading, "Query:");
+    assert.match(english.system, /^You grade how relevant a code snippet is/);
+  });
+});
+
+describe("validatePromptTemplate", () => {
+  it("requires {{diff}} and rejects unknown placeholders", () => {
+    assert.throws(() => validatePromptTemplate("{{query}}", "t.md"), /must contain \{\{diff\}\}/);
+    assert.throws(() => validatePromptTemplate("{{diff}} {{files}}", "t.md"), /unknown placeholders \{\{files\}\}/);
+    validatePromptTemplate("{{diff}}", "t.md");
+  });
+});
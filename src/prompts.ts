@@ -0,0 +1,372 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+export type ReviewPreset = "general" | "security" | "performance";
+
+export const REVIEW_PRESETS: readonly ReviewPreset[] = ["general", "security", "performance"];
+
+// House rules appended to the system prompts, and the default user prompt template; both relative to the repository.
+export const REVIEW_GUIDELINES_FILE = ".coderag/review-guidelines.md";
+export const REVIEW_TEMPLATE_FILE = ".coderag/review-prompt.md";
+
+export const DEFAULT_REVIEW_QUERY = "Проведи code review текущего diff";
+
+const TEMPLATE_PLACEHOLDERS = ["query", "diff", "changed", "context"] as const;
+
+type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+
+const PLACEHOLDER_RE = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+interface PromptTexts {
+  defaultQuery: string;
+  reviewSystem: string;
+  aggregateSystem: string;
+  presets: Record<ReviewPreset, string>;
+  guidelinesHeading: string;
+  // Tells the model which language to answer in; without a language, the user's one.
+  answerLanguage: (language?: string) => string;
+  reviewTemplate: string;
+  noDiff: string;
+  noChanged: string;
+  noContext: string;
+  aggregateTemplate: string;
+  noSummary: string;
+  noFindings: string;
+  retry: (error: string) => string;
+  rerankSystem: string;
+  rerankQuery: string;
+  rerankChunk: string;
+}
+
+const JSON_FORMAT = `
+{
+  "summary": "%summary%",
+  "findings": [
+    {
+      "severity": "critical" | "major" | "minor" | "info",
+      "category": "bug" | "security" | "performance" | "maintainability" | "style" | "testing" | "other",
+      "file": "%file%",
+      "startLine": 1,
+      "endLine": 1,
+      "title": "%title%",
+      "rationale": "%rationale%",
+      "suggestedFix": "%fix%",
+      "chunkIds": ["%chunkIds%"]
+    }
+  ]
+}`.trim();
+
+function jsonFormat(labels: Record<string, string>): string {
+  return JSON_FORMAT.replace(/%(\w+)%/g, (_, key: string) => labels[key] ?? key);
+}
+
+const RUSSIAN: PromptTexts = {
+  defaultQuery: DEFAULT_REVIEW_QUERY,
+  reviewSystem: `
+Ты старший инженер и проводишь code review.
+Используй только предоставленные diff и контекст RAG.
+Если данных недостаточно, явно напиши это в summary.
+Ответ строго в JSON:
+${jsonFormat({
+  summary: "краткий итог и риски регрессий",
+  file: "путь к файлу из diff",
+  title: "короткий заголовок",
+  rationale: "почему это проблема",
+  fix: "конкретный фикс",
+  chunkIds: "Id фрагментов RAG контекста, на которые опирается вывод"
+})}
+Строки указывай по новой версии файла. Если замечаний нет, верни пустой findings.
+`.trim(),
+  aggregateSystem: `
+Ты старший инженер и сводишь результаты code review, выполненного по частям одного diff.
+Используй только переданные итоги частей и замечания.
+Ответ строго в JSON:
+{
+  "summary": "итог по всему изменению: что меняется и главные риски регрессий",
+  "risk": "low" | "medium" | "high",
+  "riskRationale": "почему выбран такой уровень риска",
+  "duplicates": [[номера замечаний, описывающих одну и ту же проблему]]
+}
+Если дублей нет, верни пустой duplicates.
+`.trim(),
+  presets: {
+    general: "Проверяй корректность, обработку ошибок, безопасность, производительность, поддерживаемость и тесты.",
+    security:
+      "Сосредоточься на безопасности: инъекции (SQL, команды оболочки, пути), проверка входных данных, " +
+      "аутентификация и авторизация, секреты и персональные данные в коде и логах, небезопасная десериализация, " +
+      "криптография, SSRF, права доступа. Остальные проблемы указывай, только если они критичны.",
+    performance:
+      "Сосредоточься на производительности: алгоритмическая сложность, лишние запросы и N+1, блокирующий I/O, " +
+      "аллокации и копирование в горячих путях, утечки памяти и ресурсов, отсутствие пакетной обработки и " +
+      "кэширования. Остальные проблемы указывай, только если они критичны."
+  },
+  guidelinesHeading: "Правила команды (соблюдение обязательно проверяй):",
+  answerLanguage: (language) =>
+    "Тексты summary/title/rationale/suggestedFix/riskRationale пиши " +
+    `${language ? "на русском" : "на языке пользователя"}.`,
+  reviewTemplate: `
+Задача ревью:
+{{query}}
+
+Diff:
+{{diff}}
+
+Измененные декларации (полный текст из индекса):
+{{changed}}
+
+RAG контекст:
+{{context}}
+`.trim(),
+  noDiff: "Diff не найден",
+  noChanged: "Измененные декларации не найдены в индексе.",
+  noContext: "RAG контекст не найден.",
+  aggregateTemplate: `
+Задача ревью:
+{{query}}
+
+Итоги ревью по частям diff:
+{{parts}}
+
+Замечания всех частей:
+{{findings}}
+`.trim(),
+  noSummary: "без итога",
+  noFindings: "Замечаний нет.",
+  retry: (error) => `Предыдущий ответ не прошел валидацию (${error}). Верни только корректный JSON по схеме.`,
+  rerankSystem: `
+Ты оцениваешь релевантность фрагмента кода запросу.
+Верни JSON {"score": N}, где N — целое от 0 (не относится к запросу) до 10 (точно то, что нужно для ответа).
+`.trim(),
+  rerankQuery: "Запрос:",
+  rerankChunk: "Фрагмент"
+};
+
+const ENGLISH: PromptTexts = {
+  defaultQuery: "Review the current diff",
+  reviewSystem: `
+You are a senior engineer doing a code review.
+Use only the provided diff and RAG context.
+If the data is not enough, say so explicitly in the summary.
+Answer strictly in JSON:
+${jsonFormat({
+  summary: "short verdict and regression risks",
+  file: "path of a file from the diff",
+  title: "short title",
+  rationale: "why this is a problem",
+  fix: "concrete fix",
+  chunkIds: "Ids of the RAG context chunks the finding relies on"
+})}
+Give line numbers in the new version of the file. If there are no findings, return an empty findings array.
+`.trim(),
+  aggregateSystem: `
+You are a senior engineer merging the results of a code review that was done part by part for one diff.
+Use only the given part summaries and findings.
+Answer strictly in JSON:
+{
+  "summary": "verdict for the whole change: what changes and the main regression risks",
+  "risk": "low" | "medium" | "high",
+  "riskRationale": "why this risk level was chosen",
+  "duplicates": [[numbers of findings that describe the same problem]]
+}
+If there are no duplicates, return an empty duplicates array.
+`.trim(),
+  presets: {
+    general: "Check correctness, error handling, security, performance, maintainability and tests.",
+    security:
+      "Focus on security: injection (SQL, shell commands, paths), input validation, authentication and " +
+      "authorization, secrets and personal data in code and logs, unsafe deserialization, cryptography, SSRF, " +
+      "access rights. Report other problems only when they are critical.",
+    performance:
+      "Focus on performance: algorithmic complexity, redundant queries and N+1, blocking I/O, allocations and " +
+      "copies on hot paths, memory and resource leaks, missing batching and caching. Report other problems only " +
+      "when they are critical."
+  },
+  guidelinesHeading: "Team rules (always check that the change follows them):",
+  answerLanguage: (language) =>
+    `Write summary/title/rationale/suggestedFix/riskRationale in ${language ?? "the user's language"}.`,
+  reviewTemplate: `
+Review task:
+{{query}}
+
+Diff:
+{{diff}}
+
+Changed declarations (full text from the index):
+{{changed}}
+
+RAG context:
+{{context}}
+`.trim(),
+  noDiff: "No diff",
+  noChanged: "No changed declarations found in the index.",
+  noContext: "No RAG context found.",
+  aggregateTemplate: `
+Review task:
+{{query}}
+
+Review summaries of the diff parts:
+{{parts}}
+
+Findings of all parts:
+{{findings}}
+`.trim(),
+  noSummary: "no summary",
+  noFindings: "No findings.",
+  retry: (error) => `The previous answer failed validation (${error}). Return only valid JSON matching the schema.`,
+  rerankSystem: `
+You grade how relevant a code snippet is to a query.
+Return JSON {"score": N}, where N is an integer from 0 (unrelated to the query) to 10 (exactly what the answer needs).
+`.trim(),
+  rerankQuery: "Query:",
+  rerankChunk: "Snippet"
+};
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: "English",
+  ru: "Russian",
+  de: "German",
+  fr: "French",
+  es: "Spanish",
+  it: "Italian",
+  pt: "Portuguese",
+  uk: "Ukrainian",
+  pl: "Polish",
+  zh: "Chinese",
+  ja: "Japanese",
+  ko: "Korean"
+};
+
+export interface PromptOptions {
+  repoRoot: string;
+  // Answer language as a code (`en`, `ru`) or a name; the user's language when unset.
+  language?: string;
+  preset?: ReviewPreset;
+  // User prompt template; defaults to REVIEW_TEMPLATE_FILE when the repository has one.
+  promptTemplate?: string;
+}
+
+export interface ReviewPromptValues {
+  query: string;
+  diff: string;
+  // Formatted chunk blocks.
+  changed: string[];
+  context: string[];
+}
+
+/** System prompts and user prompt renderers of a review, in the chosen language and with the repository's rules. */
+export interface ReviewPrompts {
+  system: string;
+  aggregateSystem: string;
+  defaultQuery: string;
+  renderReview(values: ReviewPromptValues): string;
+  renderAggregate(values: {
+    query: string;
+    parts: Array<{ label: string; summary: string }>;
+    // Formatted finding lines, numbered from 1.
+    findings: string[];
+  }): string;
+  retry(error: string): string;
+}
+
+/** Rerank model instructions and the headings of its user prompt. */
+export interface RerankPrompts {
+  system: string;
+  queryHeading: string;
+  chunkHeading: string;
+}
+
+// Russian keeps the original Russian instructions; every other language gets the English ones.
+function resolveLanguage(language: string | undefined): { texts: PromptTexts; name?: string } {
+  const trimmed = language?.trim();
+  if (!trimmed) {
+    return { texts: RUSSIAN };
+  }
+  const key = trimmed.toLowerCase();
+  const name = LANGUAGE_NAMES[key] ?? trimmed;
+  return { texts: ["ru", "russian", "русский"].includes(key) ? RUSSIAN : ENGLISH, name };
+}
+
+function fillTemplate(template: string, values: Record<string, string>): string {
+  // One pass, so placeholders inside the values (a diff of a template, say) stay as they are.
+  return template.replace(PLACEHOLDER_RE, (match, name: string) => values[name] ?? match);
+}
+
+/** Checks a user template: it needs `{{diff}}` and may only use the known placeholders. */
+export function validatePromptTemplate(template: string, source: string): void {
+  const names = [...template.matchAll(PLACEHOLDER_RE)].map((match) => match[1] ?? "");
+  const unknown = names.filter((name) => !TEMPLATE_PLACEHOLDERS.includes(name as TemplatePlaceholder));
+  if (unknown.length > 0) {
+    throw new Error(
+      `${source}: unknown placeholders ${[...new Set(unknown)].map((name) => `{{${name}}}`).join(", ")}; ` +
+        `use ${TEMPLATE_PLACEHOLDERS.map((name) => `{{${name}}}`).join(", ")}`
+    );
+  }
+  if (!names.includes("diff")) {
+    throw new Error(`${source}: the template must contain {{diff}}`);
+  }
+}
+
+async function readOptionalFile(filePath: string): Promise<string | null> {
+  try {
+    return await readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/** Rerank prompts in the answer language (same choice as the review prompts). */
+export function loadRerankPrompts(language?: string): RerankPrompts {
+  const { texts } = resolveLanguage(language);
+  return { system: texts.rerankSystem, queryHeading: texts.rerankQuery, chunkHeading: texts.rerankChunk };
+}
+
+/**
+ * Builds the review prompts: the system prompt in the answer language with the preset's focus and the repository's
+ * REVIEW_GUIDELINES_FILE, and the user prompt from `promptTemplate`, REVIEW_TEMPLATE_FILE or the built-in template.
+ * Only the user prompt can be replaced; system prompts are built in and take repository rules as an addition, so the
+ * JSON answer format they describe always matches the parser.
+ */
+export async function loadReviewPrompts(options: PromptOptions): Promise<ReviewPrompts> {
+  const { texts, name } = resolveLanguage(options.language);
+  const guidelines = (await readOptionalFile(path.join(options.repoRoot, REVIEW_GUIDELINES_FILE)))?.trim();
+
+  const templatePath = options.promptTemplate
+    ? path.resolve(options.repoRoot, options.promptTemplate)
+    : path.join(options.repoRoot, REVIEW_TEMPLATE_FILE);
+  const customTemplate = await readOptionalFile(templatePath);
+  if (customTemplate === null && options.promptTemplate) {
+    throw new Error(`Prompt template not found: ${templatePath}`);
+  }
+  if (customTemplate !== null) {
+    validatePromptTemplate(customTemplate, templatePath);
+  }
+  const reviewTemplate = customTemplate?.trim() ?? texts.reviewTemplate;
+
+  const withRules = (system: string) =>
+    [system, guidelines ? `${texts.guidelinesHeading}\n${guidelines}` : "", texts.answerLanguage(name)]
+      .filter(Boolean)
+      .join("\n\n");
+
+  return {
+    system: withRules(`${texts.reviewSystem}\n\n${texts.presets[options.preset ?? "general"]}`),
+    aggregateSystem: withRules(texts.aggregateSystem),
+    defaultQuery: texts.defaultQuery,
+    renderReview: (values) =>
+      fillTemplate(reviewTemplate, {
+        query: values.query,
+        diff: values.diff || texts.noDiff,
+        changed: values.changed.length === 0 ? texts.noChanged : values.changed.join("\n\n"),
+        context: values.context.length === 0 ? texts.noContext : values.context.join("\n\n")
+      }),
+    renderAggregate: (values) =>
+      fillTemplate(texts.aggregateTemplate, {
+        query: values.query,
+        parts: values.parts.map((part) => `- ${part.label}: ${part.summary || texts.noSummary}`).join("\n"),
+        findings: values.findings.length === 0 ? texts.noFindings : values.findings.join("\n")
+      }),
+    retry: texts.retry
+  };
+}
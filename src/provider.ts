@@ -0,0 +1,111 @@
+import { OllamaClient } from "./ollama.js";
+import { OpenAiClient } from "./openai.js";
+import type { ProviderName } from "./types.js";
+
+/** Which backend serves embeddings and generations, and where. */
+export interface ProviderConfig {
+  provider: ProviderName;
+  baseUrl: string;
+  // Sent as a bearer token; OpenAI-compatible servers only.
+  apiKey?: string;
+}
+
+export interface GenerateOptions {
+  // "json" or a JSON schema for structured outputs.
+  format?: "json" | Record<string, unknown>;
+  temperature?: number;
+  // Context window to load the model with; Ollama only, other servers fix it at startup.
+  contextLength?: number;
+  // Cancels the request, including a stream that is already being read.
+  signal?: AbortSignal;
+}
+
+export interface GenerateStats {
+  promptTokens: number;
+  outputTokens: number;
+  totalDurationMs: number;
+  loadDurationMs: number;
+  promptDurationMs: number;
+  evalDurationMs: number;
+  // Output tokens per second of generation time.
+  tokensPerSecond: number;
+}
+
+export interface GenerateChunk {
+  text: string;
+  done: boolean;
+  // Present on the final chunk.
+  stats?: GenerateStats;
+}
+
+/** Non-2xx response from a provider; `status` tells transient failures from rejected requests. */
+export class ProviderError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export interface EmbeddingProvider {
+  readonly name: ProviderName;
+  /** Embeds `inputs` in a single request. */
+  embedBatch(model: string, inputs: string[], signal?: AbortSignal): Promise<number[][]>;
+  embedMany(model: string, inputs: string[], batchSize: number): Promise<number[][]>;
+  embedSingle(model: string, input: string): Promise<number[]>;
+}
+
+export interface ChatProvider {
+  readonly name: ProviderName;
+  generate(model: string, prompt: string, system: string, options?: GenerateOptions): Promise<string>;
+  /** The last chunk has `done: true` and carries token and timing stats. */
+  generateStream(
+    model: string,
+    prompt: string,
+    system: string,
+    options?: GenerateOptions
+  ): AsyncGenerator<GenerateChunk>;
+  /** Context window of `model` in tokens, when the server tells it. */
+  contextLength(model: string): Promise<number | undefined>;
+}
+
+export function createProvider(config: ProviderConfig): EmbeddingProvider & ChatProvider {
+  return config.provider === "openai"
+    ? new OpenAiClient({ baseUrl: config.baseUrl, apiKey: config.apiKey })
+    : new OllamaClient({ baseUrl: config.baseUrl });
+}
+
+/**
+ * Fails when query vectors would come from another provider than the indexed ones: the same model name served by
+ * different backends is not guaranteed to produce comparable embeddings. Indexes without a recorded provider were
+ * built with Ollama.
+ */
+export function assertEmbeddingProvider(indexProvider: ProviderName | undefined, provider: ProviderName): void {
+  const indexed = indexProvider ?? "ollama";
+  if (indexed !== provider) {
+    throw new Error(
+      `Index was embedded with the ${indexed} provider but ${provider} is configured; ` +
+        `pass --provider ${indexed} or reindex.`
+    );
+  }
+}
+
+/** Splits a byte stream into lines; a trailing line without a newline is returned too. */
+export async function* readLines(stream: AsyncIterable<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffered = "";
+  for await (const bytes of stream) {
+    buffered += decoder.decode(bytes, { stream: true });
+    let newline = buffered.indexOf("\n");
+    while (newline !== -1) {
+      yield buffered.slice(0, newline);
+      buffered = buffered.slice(newline + 1);
+      newline = buffered.indexOf("\n");
+    }
+  }
+  const rest = buffered + decoder.decode();
+  if (rest) {
+    yield rest;
+  }
+}
@@ -0,0 +1,156 @@
+import type { ReviewFinding } from "./findings.js";
+import type { DiffSource } from "./git.js";
+import { formatChunkLocation } from "./retrieval.js";
+import type { ReviewResult } from "./review.js";
+import type { RetrievalResult } from "./types.js";
+
+export type ReviewOutputFormat = "text" | "json" | "markdown";
+
+function formatLocation(finding: ReviewFinding): string {
+  if (finding.startLine <= 0) {
+    return finding.file;
+  }
+  if (finding.endLine > finding.startLine) {
+    return `${finding.file}:${finding.startLine}-${finding.endLine}`;
+  }
+  return `${finding.file}:${finding.startLine}`;
+}
+
+function formatSource(item: RetrievalResult): string {
+  return formatChunkLocation(item.chunk);
+}
+
+function formatRisk(result: ReviewResult): string | null {
+  if (!result.risk) {
+    return null;
+  }
+  return `${result.risk.level.toUpperCase()}${result.risk.rationale ? ` — ${result.risk.rationale}` : ""}`;
+}
+
+function renderText(result: ReviewResult): string {
+  const lines: string[] = [];
+  if (result.summary) {
+    lines.push(result.summary, "");
+  }
+  const risk = formatRisk(result);
+  if (risk) {
+    lines.push(`Risk: ${risk}`, "");
+  }
+
+  if (result.findings.length === 0) {
+    lines.push("No findings.");
+    return lines.join("\n");
+  }
+
+  for (const finding of result.findings) {
+    lines.push(`[${finding.severity.toUpperCase()}/${finding.category}] ${formatLocation(finding)} ${finding.title}`);
+    lines.push(`  ${finding.rationale}`);
+    if (finding.suggestedFix) {
+      lines.push(`  Fix: ${finding.suggestedFix}`);
+    }
+    if (finding.chunkIds.length > 0) {
+      lines.push(`  Sources: ${finding.chunkIds.join(", ")}`);
+    }
+    lines.push("");
+  }
+  return lines.join("\n").trimEnd();
+}
+
+function describeDiffSource(source: DiffSource): string {
+  switch (source.kind) {
+    case "range":
+      return `\`${source.baseRef}...${source.headRef}\` (merge-base \`${source.mergeBase?.slice(0, 12)}\`)`;
+    case "commit":
+      return `commit \`${source.commit?.slice(0, 12)}\``;
+    case "staged":
+      return "staged changes";
+    case "file":
+      return `\`${source.diffFile}\``;
+    case "inline":
+      return "supplied diff";
+    default:
+      return "working tree";
+  }
+}
+
+function renderMarkdown(result: ReviewResult): string {
+  const lines: string[] = ["# Code review", "", `Diff: ${describeDiffSource(result.diffSource)}`, ""];
+  for (const warning of result.warnings) {
+    lines.push(`> **Warning:** ${warning}`, "");
+  }
+  if (result.summary) {
+    lines.push(result.summary, "");
+  }
+  const risk = formatRisk(result);
+  if (risk) {
+    lines.push(`**Risk:** ${risk}`, "");
+  }
+  if (result.parts && result.parts.length > 0) {
+    lines.push("## Reviewed parts", "");
+    for (const part of result.parts) {
+      const count = `${part.findings} finding${part.findings === 1 ? "" : "s"}`;
+      lines.push(`- \`${part.label}\` (${count}): ${part.summary}`);
+    }
+    lines.push("");
+  }
+
+  lines.push("## Findings", "");
+  if (result.findings.length === 0) {
+    lines.push("No findings.");
+  }
+
+  const chunkPaths = new Map(result.retrieval.map((item) => [item.chunk.id, formatSource(item)]));
+  for (const finding of result.findings) {
+    lines.push(`### ${finding.severity.toUpperCase()}: ${finding.title}`, "");
+    lines.push(`- **Location:** \`${formatLocation(finding)}\``);
+    lines.push(`- **Category:** ${finding.category}`);
+    if (finding.chunkIds.length > 0) {
+      const cited = finding.chunkIds.map((id) => `\`${chunkPaths.get(id) ?? id}\``).join(", ");
+      lines.push(`- **Context:** ${cited}`);
+    }
+    lines.push("", finding.rationale, "");
+    if (finding.suggestedFix) {
+      lines.push(`**Suggested fix:** ${finding.suggestedFix}`, "");
+    }
+  }
+
+  return lines.join("\n").trimEnd();
+}
+
+function renderJson(result: ReviewResult): string {
+  return JSON.stringify(
+    {
+      summary: result.summary,
+      diffSource: result.diffSource,
+      warnings: result.warnings,
+      risk: result.risk,
+      context: result.context,
+      parts: result.parts,
+      findings: result.findings,
+      sources: result.retrieval.map((item) => ({
+        id: item.chunk.id,
+        repo: item.chunk.repo,
+        path: item.chunk.path,
+        startLine: item.chunk.startLine,
+        endLine: item.chunk.endLine,
+        symbol: item.chunk.symbol,
+        score: item.score,
+        origin: item.origin ?? "search",
+        relation: item.relation
+      }))
+    },
+    null,
+    2
+  );
+}
+
+export function renderReview(result: ReviewResult, format: ReviewOutputFormat): string {
+  switch (format) {
+    case "json":
+      return renderJson(result);
+    case "markdown":
+      return renderMarkdown(result);
+    default:
+      return renderText(result);
+  }
+}
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ChatProvider } from "./provider.js";
+import { parseRerankScore, rerankGroups, rerankResults } from "./rerank.js";
+import type { RetrievalResult } from "./types.js";
+
+// Chunk content carries the grade the fake model replies with.
+function candidate(id: string, path: string, grade: number, score = 0.5): RetrievalResult {
+  return {
+    score,
+    vectorScore: score,
+    lexicalScore: score / 2,
+    chunk: {
+      id,
+      path,
+      language: "ts",
+      startLine: 1,
+      endLine: 1,
+      content: `grade ${grade}`,
+      chunkingStrategy: "text",
+      contentHash: "",
+      fileMtimeMs: 0,
+      fileSize: 0,
+      embedding: []
+    }
+  };
+}
+
+function fakeChat(prompts: string[] = []): ChatProvider {
+  return {
+    name: "ollama",
+    async generate(_model, prompt) {
+      prompts.push(prompt);
+      return JSON.stringify({ score: Number(/grade (\d+)/.exec(prompt)?.[1] ?? 0) });
+    },
+    async *generateStream() {
+      yield { text: "", done: true };
+    },
+    async contextLength() {
+      return undefined;
+    }
+  };
+}
+
+describe("parseRerankScore", () => {
+  it("normalizes JSON grades to 0-1", () => {
+    assert.equal(parseRerankScore('{"score": 7}'), 0.7);
+    assert.equal(parseRerankScore('<think>hmm</think>{"score": 12}'), 1);
+  });
+
+  it("falls back to the first number and scores unreadable replies as 0", () => {
+    assert.equal(parseRerankScore("Score: 4/10"), 0.4);
+    assert.equal(parseRerankScore("not relevant"), 0);
+  });
+});
+
+describe("rerankResults", () => {
+  it("orders by grade, keeps first-stage order on ties and cuts to topK", async () => {
+    const candidates = [
+      candidate("a", "a.ts", 3, 0.9),
+      candidate("b", "b.ts", 8, 0.8),
+      candidate("c", "c.ts", 5, 0.7),
+      candidate("d", "d.ts", 8, 0.6)
+    ];
+    const reranked = await rerankResults(fakeChat(), candidates, { model: "m", query: "q", topK: 3 });
+    assert.deepEqual(
+      reranked.map((result) => result.chunk.id),
+      ["b", "d", "c"]
+    );
+    assert.deepEqual(
+      reranked.map((result) => result.score),
+      [0.8, 0.8, 0.5]
+    );
+  });
+
+  it("writes the prompt in the answer language", async () => {
+    const prompts: string[] = [];
+    const options = { model: "m", query: "q", topK: 1, language: "en" };
+    await rerankResults(fakeChat(prompts), [candidate("a", "a.ts", 1)], options);
+    assert.match(prompts[0] ?? "", /^Query:\nq\n\nSnippet a\.ts:1-1:/);
+  });
+
+  it("keeps first-stage scores next to the rerank grade", async () => {
+    const [result] = await rerankResults(fakeChat(), [candidate("a", "a.ts", 6, 0.4)], {
+      model: "m",
+      query: "q",
+      topK: 1
+    });
+    assert.ok(result);
+    assert.equal(result.rerankScore, 0.6);
+    assert.equal(result.vectorScore, 0.4);
+    assert.equal(result.lexicalScore, 0.2);
+  });
+});
+
+describe("rerankGroups", () => {
+  it("reranks each file against its own query and keeps the per-file quota", async () => {
+    const prompts: string[] = [];
+    const reranked = await rerankGroups(
+      fakeChat(prompts),
+      [
+        { path: "a.ts", results: [candidate("a1", "x.ts", 9), candidate("a2", "y.ts", 9)] },
+        { path: "b.ts", results: [candidate("b1", "z.ts", 2)] }
+      ],
+      { model: "m", queryFor: (path) => `changes of ${path}`, topK: 2, perFileQuota: 1 }
+    );
+    assert.deepEqual(
+      reranked.map((result) => result.chunk.id),
+      ["a1", "b1"]
+    );
+    assert.equal(prompts.filter((prompt) => prompt.includes("changes of a.ts")).length, 2);
+    assert.equal(prompts.filter((prompt) => prompt.includes("changes of b.ts")).length, 1);
+  });
+});
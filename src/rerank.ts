@@ -0,0 +1,113 @@
+import { loadRerankPrompts, type RerankPrompts } from "./prompts.js";
+import type { ChatProvider } from "./provider.js";
+import { formatChunkLocation, mergeRetrievalGroups, type RetrievalGroup } from "./retrieval.js";
+import type { RetrievalResult } from "./types.js";
+
+const MAX_RERANK_CHUNK_CHARS = 2000;
+const MAX_RERANK_QUERY_CHARS = 2000;
+
+const RERANK_SCHEMA: Record<string, unknown> = {
+  type: "object",
+  properties: { score: { type: "integer", minimum: 0, maximum: 10 } },
+  required: ["score"]
+};
+
+export interface RerankOptions {
+  model: string;
+  query: string;
+  topK: number;
+  // Language of the rerank instructions, chosen like the review answer language.
+  language?: string;
+}
+
+function clip(value: string, maxChars: number): string {
+  return value.length <= maxChars ? value : `${value.slice(0, maxChars)}\n[...]`;
+}
+
+/** Reads the 0-10 relevance grade from a model reply and normalizes it to 0-1; unreadable replies score 0. */
+export function parseRerankScore(raw: string): number {
+  const withoutThinking = raw.replace(/<think>[\s\S]*?<\/think>/g, "");
+  let value = Number.NaN;
+  try {
+    const parsed = JSON.parse(withoutThinking.trim()) as { score?: unknown };
+    value = Number(parsed.score);
+  } catch {
+    const match = /-?\d+(?:\.\d+)?/.exec(withoutThinking);
+    value = match ? Number(match[0]) : Number.NaN;
+  }
+  if (!Number.isFinite(value)) {
+    return 0;
+  }
+  return Math.min(10, Math.max(0, value)) / 10;
+}
+
+function buildRerankPrompt(prompts: RerankPrompts, query: string, result: RetrievalResult): string {
+  const chunk = result.chunk;
+  return [
+    prompts.queryHeading,
+    clip(query, MAX_RERANK_QUERY_CHARS),
+    "",
+    `${prompts.chunkHeading} ${formatChunkLocation(chunk)}${chunk.symbol ? ` (${chunk.symbol})` : ""}:`,
+    "```",
+    clip(chunk.content, MAX_RERANK_CHUNK_CHARS),
+    "```"
+  ].join("\n");
+}
+
+/**
+ * Second retrieval stage: grades every (query, chunk) pair with a local model and keeps the best `topK`.
+ * The rerank grade becomes the result score; earlier stage scores are preserved for display.
+ */
+export async function rerankResults(
+  client: ChatProvider,
+  candidates: RetrievalResult[],
+  options: RerankOptions
+): Promise<RetrievalResult[]> {
+  const prompts = loadRerankPrompts(options.language);
+  const graded: RetrievalResult[] = [];
+  // Sequential on purpose: local servers (Ollama by default) run one generation per model at a time.
+  for (const candidate of candidates) {
+    const prompt = buildRerankPrompt(prompts, options.query, candidate);
+    const raw = await client.generate(options.model, prompt, prompts.system, { format: RERANK_SCHEMA, temperature: 0 });
+    const rerankScore = parseRerankScore(raw);
+    graded.push({ ...candidate, rerankScore, score: rerankScore });
+  }
+
+  // Array#sort is stable, so equal grades keep first-stage order.
+  return graded.sort((a, b) => (b.rerankScore ?? 0) - (a.rerankScore ?? 0)).slice(0, options.topK);
+}
+
+export interface GroupRerankOptions {
+  model: string;
+  // Rerank query of a group (changed file), e.g. the task plus that file's changed identifiers.
+  queryFor: (path: string) => string;
+  topK: number;
+  perFileQuota?: number;
+  language?: string;
+}
+
+/**
+ * Reranks each group against its own query, then merges the graded groups with the per-file quota of
+ * `mergeRetrievalGroups`, so every changed file keeps its share of the context after reranking.
+ */
+export async function rerankGroups(
+  client: ChatProvider,
+  groups: RetrievalGroup[],
+  options: GroupRerankOptions
+): Promise<RetrievalResult[]> {
+  const graded: RetrievalGroup[] = [];
+  for (const group of groups) {
+    const results = await rerankResults(client, group.results, {
+      model: options.model,
+      query: options.queryFor(group.path),
+      topK: group.results.length,
+      language: options.language
+    });
+    graded.push({ path: group.path, results });
+  }
+  return mergeRetrievalGroups(graded, options.topK, options.perFileQuota);
+}
+
+export function rerankCandidateCount(topK: number, requested?: number): number {
+  return Math.max(topK, requested ?? topK * 3);
+}
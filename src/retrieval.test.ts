@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  extractLexicalTerms,
+  formatChunkLocation,
+  fuseRankings,
+  mergeRetrievalGroups,
+  resolveRetrievalMode,
+  selectChangedChunks
+} from "./retrieval.js";
+import type { Chunk, RetrievalResult } from "./types.js";
+
+function result(id: string, score: number): RetrievalResult {
+  return {
+    score,
+    chunk: {
+      id,
+      path: `${id}.ts`,
+      language: "ts",
+      startLine: 1,
+      endLine: 1,
+      content: "",
+      chunkingStrategy: "text",
+      contentHash: "",
+      fileMtimeMs: 0,
+      fileSize: 0,
+      embedding: []
+    }
+  };
+}
+
+describe("mergeRetrievalGroups", () => {
+  it("deduplicates chunks and keeps the best score", () => {
+    const merged = mergeRetrievalGroups(
+      [
+        { path: "a.ts", results: [result("x", 0.4)] },
+        { path: "a.ts", results: [result("x", 0.9)] }
+      ],
+      5
+    );
+    assert.deepEqual(
+      merged.map((item) => [item.chunk.id, item.score]),
+      [["x", 0.9]]
+    );
+  });
+
+  it("reserves a quota for every changed file", () => {
+    const merged = mergeRetrievalGroups(
+      [
+        { path: "a.ts", results: [result("a1", 0.9), result("a2", 0.8), result("a3", 0.7)] },
+        { path: "b.ts", results: [result("b1", 0.2)] }
+      ],
+      3
+    );
+    assert.deepEqual(
+      merged.map((item) => item.chunk.id),
+      ["a1", "a2", "b1"]
+    );
+  });
+});
+
+describe("fuseRankings", () => {
+  it("ranks chunks found by both retrievers first and keeps stage scores", () => {
+    const vector = [
+      { ...result("a", 0.9), vectorScore: 0.9 },
+      { ...result("b", 0.8), vectorScore: 0.8 }
+    ];
+    const lexical = [
+      { ...result("c", 0.7), lexicalScore: 0.7 },
+      { ...result("b", 0.6), lexicalScore: 0.6 }
+    ];
+
+    const fused = fuseRankings([vector, lexical], 2);
+    assert.deepEqual(
+      fused.map((item) => item.chunk.id),
+      ["b", "a"]
+    );
+    assert.equal(fused[0]?.vectorScore, 0.8);
+    assert.equal(fused[0]?.lexicalScore, 0.6);
+  });
+});
+
+describe("extractLexicalTerms", () => {
+  it("keeps identifiers once and drops short tokens", () => {
+    assert.deepEqual(extractLexicalTerms("if (parseChunkingMode(x)) parseChunkingMode(y); $el"), [
+      "parseChunkingMode",
+      "$el"
+    ]);
+  });
+});
+
+describe("selectChangedChunks", () => {
+  function astChunk(id: string, startLine: number, endLine: number, nodeType: string, symbol: string): Chunk {
+    return { ...result(id, 0).chunk, startLine, endLine, nodeType, symbol, chunkingStrategy: "ast" };
+  }
+
+  it("returns the innermost enclosing declaration with all its parts, then its siblings", () => {
+    const chunks = [
+      astChunk("class", 1, 40, "ClassDeclaration", "Service"),
+      astChunk("first", 2, 9, "MethodDeclaration", "first"),
+      astChunk("big-1", 10, 20, "MethodDeclaration", "big"),
+      astChunk("big-2", 18, 30, "MethodDeclaration", "big"),
+      astChunk("last", 31, 39, "MethodDeclaration", "last"),
+      astChunk("other", 42, 50, "FunctionDeclaration", "other")
+    ];
+
+    const selected = selectChangedChunks(chunks, [{ startLine: 12, endLine: 12 }]);
+    assert.deepEqual(
+      selected.map((item) => item.chunk.id),
+      ["big-1", "big-2", "first", "last"]
+    );
+    assert.ok(selected.every((item) => item.origin === "diff"));
+    assert.equal(selected[2]?.relation, "sibling of MethodDeclaration big");
+  });
+});
+
+describe("formatChunkLocation", () => {
+  it("prefixes workspace chunks with their repository", () => {
+    const chunk = { ...result("a", 0).chunk, startLine: 10, endLine: 20 };
+    assert.equal(formatChunkLocation(chunk), "a.ts:10-20");
+    assert.equal(formatChunkLocation({ ...chunk, repo: "backend" }), "backend:a.ts:10-20");
+  });
+});
+
+describe("resolveRetrievalMode", () => {
+  it("falls back to vector search when the index has no full-text columns", () => {
+    const warnings: string[] = [];
+    assert.equal(resolveRetrievalMode("hybrid", ["content"], warnings), "hybrid");
+    assert.equal(resolveRetrievalMode("vector", [], warnings), "vector");
+    assert.deepEqual(warnings, []);
+
+    assert.equal(resolveRetrievalMode("hybrid", [], warnings), "vector");
+    assert.equal(warnings.length, 1);
+    assert.throws(() => resolveRetrievalMode("lexical", [], warnings), /Full-text index is not available/);
+  });
+});
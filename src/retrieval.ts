@@ -0,0 +1,549 @@
+import { changedLineRanges, formatDiffHunk, type DiffFile, type DiffHunk, type LineRange } from "./git.js";
+import { collectRelatedSymbols, linkCodeGraph, qualifiedName, type GraphRelation, type GraphSymbol } from "./graph.js";
+import type { EmbeddingProvider } from "./provider.js";
+import { lexicalSearchMany, loadChunksByPaths, loadGraph, vectorSearchMany } from "./store.js";
+import type { Chunk, RetrievalResult } from "./types.js";
+
+// Upper bound for the text of a single retrieval query; embedding models have small context windows.
+const MAX_QUERY_CHARS = 4000;
+const MAX_LEXICAL_TERMS = 48;
+const DEFAULT_EMBED_BATCH_SIZE = 16;
+// Fixed priors for graph context: it has no similarity score, but a direct code link is strong evidence.
+const GRAPH_RELATION_SCORES: Record<GraphRelation, number> = {
+  definition: 0.9,
+  callee: 0.7,
+  caller: 0.6
+};
+const ENCLOSING_SCORE = 1;
+const SIBLING_SCORE = 0.8;
+// Standard RRF damping constant from Cormack et al.; keeps low ranks from dominating.
+const RRF_K = 60;
+
+export type RetrievalUnit = "hunk" | "file";
+export type RetrievalMode = "vector" | "lexical" | "hybrid";
+
+export interface RetrievalQuery {
+  // Changed file the query was built from; empty for the plain review query.
+  path: string;
+  text: string;
+  // Keyword form of the query for BM25: identifiers and words, without diff noise.
+  lexicalText: string;
+}
+
+export interface QuerySearchOptions {
+  indexDir: string;
+  embeddingModel: string;
+  mode: RetrievalMode;
+  // BM25-indexed columns recorded in the manifest; lexical search uses only these.
+  fullTextColumns: string[];
+  topK: number;
+  batchSize?: number;
+  // SQL prefilter (see `buildChunkWhere`), applied before top-K in both vector and lexical search.
+  where?: string;
+}
+
+/** Workspace member whose rows, manifest and graph a lookup is limited to; empty for single-repository indexes. */
+export interface RepoScope {
+  repo?: string;
+  metaDir?: string;
+}
+
+export interface RetrievalGroup {
+  path: string;
+  results: RetrievalResult[];
+}
+
+export interface DiffRetrievalOptions {
+  indexDir: string;
+  embeddingModel: string;
+  query: string;
+  diffFiles: DiffFile[];
+  topK: number;
+  unit: RetrievalUnit;
+  mode?: RetrievalMode;
+  fullTextColumns: string[];
+  perFileQuota?: number;
+  batchSize?: number;
+  where?: string;
+}
+
+/** Source label of a chunk; workspace chunks are prefixed with their repository, e.g. `backend:src/x.ts:10-20`. */
+export function formatChunkLocation(chunk: Chunk): string {
+  return `${chunk.repo ? `${chunk.repo}:` : ""}${chunk.path}:${chunk.startLine}-${chunk.endLine}`;
+}
+
+function clip(value: string): string {
+  return value.length <= MAX_QUERY_CHARS ? value : value.slice(0, MAX_QUERY_CHARS);
+}
+
+function byScoreDesc(a: RetrievalResult, b: RetrievalResult): number {
+  return b.score - a.score;
+}
+
+/** Extracts distinct identifier-like terms, preserving first-seen order. */
+export function extractLexicalTerms(text: string, limit = MAX_LEXICAL_TERMS): string[] {
+  const terms = new Set<string>();
+  for (const match of text.matchAll(/[\p{L}_$][\p{L}\p{N}_$]{2,}/gu)) {
+    terms.add(match[0]);
+    if (terms.size >= limit) {
+      break;
+    }
+  }
+  return [...terms];
+}
+
+function changedText(hunks: DiffHunk[]): string {
+  return hunks
+    .flatMap((hunk) => hunk.lines.filter((line) => line.type !== "context").map((line) => line.content))
+    .join("\n");
+}
+
+export function buildRetrievalQueries(query: string, files: DiffFile[], unit: RetrievalUnit): RetrievalQuery[] {
+  const queries: RetrievalQuery[] = [];
+  for (const file of files) {
+    if (file.isBinary || file.hunks.length === 0) {
+      continue;
+    }
+
+    const hunkGroups = unit === "file" ? [file.hunks] : file.hunks.map((hunk) => [hunk]);
+    for (const hunks of hunkGroups) {
+      const body = hunks.map((hunk) => formatDiffHunk(hunk)).join("\n");
+      queries.push({
+        path: file.path,
+        text: clip(`${query}\n\nFile: ${file.path}\n${body}`),
+        lexicalText: extractLexicalTerms(`${changedText(hunks)}\n${query}`).join(" ")
+      });
+    }
+  }
+
+  if (queries.length === 0 && query) {
+    queries.push({ path: "", text: clip(query), lexicalText: query });
+  }
+  return queries;
+}
+
+/**
+ * Reciprocal rank fusion: each list contributes 1 / (k + rank) per chunk. Stage scores
+ * (vector/lexical) from the input lists are carried over to the fused result.
+ */
+export function fuseRankings(lists: RetrievalResult[][], topK: number, k = RRF_K): RetrievalResult[] {
+  const fused = new Map<string, RetrievalResult>();
+  for (const list of lists) {
+    list.forEach((result, rank) => {
+      const contribution = 1 / (k + rank + 1);
+      const existing = fused.get(result.chunk.id);
+      fused.set(result.chunk.id, {
+        ...existing,
+        ...result,
+        vectorScore: result.vectorScore ?? existing?.vectorScore,
+        lexicalScore: result.lexicalScore ?? existing?.lexicalScore,
+        score: (existing?.score ?? 0) + contribution
+      });
+    });
+  }
+  return [...fused.values()].sort(byScoreDesc).slice(0, topK);
+}
+
+/**
+ * Mode the index can serve: without full-text columns hybrid retrieval degrades to vector search with a warning, and
+ * lexical retrieval fails.
+ */
+export function resolveRetrievalMode(
+  mode: RetrievalMode,
+  fullTextColumns: string[],
+  warnings: string[]
+): RetrievalMode {
+  if (mode === "vector" || fullTextColumns.length > 0) {
+    return mode;
+  }
+  if (mode === "lexical") {
+    throw new Error("Full-text index is not available; re-run 'code-rag index'.");
+  }
+  warnings.push("Full-text index is not available; hybrid retrieval uses vector search only. Re-run 'code-rag index'.");
+  return "vector";
+}
+
+/** Runs every query through the selected retrieval mode; results are returned in query order. */
+export async function searchQueries(
+  client: EmbeddingProvider,
+  queries: RetrievalQuery[],
+  options: QuerySearchOptions
+): Promise<RetrievalResult[][]> {
+  if (queries.length === 0) {
+    return [];
+  }
+
+  // Fusion needs deeper candidate lists than the final top-K to find overlaps.
+  const depth = options.mode === "hybrid" ? Math.max(options.topK * 2, 20) : options.topK;
+
+  const vectorResults =
+    options.mode === "lexical"
+      ? []
+      : await vectorSearchMany(
+          options.indexDir,
+          await client.embedMany(
+            options.embeddingModel,
+            queries.map((query) => query.text),
+            options.batchSize ?? DEFAULT_EMBED_BATCH_SIZE
+          ),
+          depth,
+          options.where
+        );
+  const lexicalResults =
+    options.mode === "vector"
+      ? []
+      : await lexicalSearchMany(
+          options.indexDir,
+          queries.map((query) => query.lexicalText),
+          depth,
+          options.fullTextColumns,
+          options.where
+        );
+
+  return queries.map((_, index) => {
+    const vector = vectorResults[index] ?? [];
+    const lexical = lexicalResults[index] ?? [];
+    if (options.mode === "vector") {
+      return vector;
+    }
+    if (options.mode === "lexical") {
+      return lexical;
+    }
+    return fuseRankings([vector, lexical], options.topK);
+  });
+}
+
+/**
+ * Merges per-query results into one top-K list. Duplicates keep their best score, and every group
+ * (changed file) is first granted up to `perFileQuota` of its own best chunks before the rest of
+ * the budget is filled by global score.
+ */
+export function mergeRetrievalGroups(
+  groups: RetrievalGroup[],
+  topK: number,
+  perFileQuota?: number
+): RetrievalResult[] {
+  const byPath = new Map<string, Map<string, RetrievalResult>>();
+  const global = new Map<string, RetrievalResult>();
+
+  for (const group of groups) {
+    const bucket = byPath.get(group.path) ?? new Map<string, RetrievalResult>();
+    byPath.set(group.path, bucket);
+    for (const result of group.results) {
+      const id = result.chunk.id;
+      const existing = bucket.get(id);
+      if (!existing || existing.score < result.score) {
+        bucket.set(id, result);
+      }
+      const best = global.get(id);
+      if (!best || best.score < result.score) {
+        global.set(id, result);
+      }
+    }
+  }
+
+  const quota = perFileQuota ?? Math.max(1, Math.floor(topK / Math.max(1, byPath.size)));
+  const selected = new Map<string, RetrievalResult>();
+
+  for (const bucket of byPath.values()) {
+    let taken = 0;
+    for (const result of [...bucket.values()].sort(byScoreDesc)) {
+      if (taken >= quota || selected.size >= topK) {
+        break;
+      }
+      if (selected.has(result.chunk.id)) {
+        continue;
+      }
+      selected.set(result.chunk.id, global.get(result.chunk.id) ?? result);
+      taken += 1;
+    }
+  }
+
+  for (const result of [...global.values()].sort(byScoreDesc)) {
+    if (selected.size >= topK) {
+      break;
+    }
+    if (!selected.has(result.chunk.id)) {
+      selected.set(result.chunk.id, result);
+    }
+  }
+
+  return [...selected.values()].sort(byScoreDesc);
+}
+
+// One group per retrieval query (hunk or file), in query order.
+async function searchDiffQueries(client: EmbeddingProvider, options: DiffRetrievalOptions): Promise<RetrievalGroup[]> {
+  const queries = buildRetrievalQueries(options.query, options.diffFiles, options.unit);
+  if (queries.length === 0 || options.topK <= 0) {
+    return [];
+  }
+
+  const perQuery = await searchQueries(client, queries, {
+    indexDir: options.indexDir,
+    embeddingModel: options.embeddingModel,
+    mode: options.mode ?? "hybrid",
+    fullTextColumns: options.fullTextColumns,
+    topK: options.topK,
+    batchSize: options.batchSize,
+    where: options.where
+  });
+  return queries.map((query, index) => ({ path: query.path, results: perQuery[index] ?? [] }));
+}
+
+export async function retrieveForDiff(client: EmbeddingProvider, options: DiffRetrievalOptions): Promise<RetrievalResult[]> {
+  const groups = await searchDiffQueries(client, options);
+  return mergeRetrievalGroups(groups, options.topK, options.perFileQuota);
+}
+
+/**
+ * The chunks `retrieveForDiff` selects, grouped by the changed file whose queries found them; a chunk found for
+ * several files is listed under each. Lets a later stage regrade every file against its own query.
+ */
+export async function retrieveDiffGroups(
+  client: EmbeddingProvider,
+  options: DiffRetrievalOptions
+): Promise<RetrievalGroup[]> {
+  const groups = await searchDiffQueries(client, options);
+  const selected = new Set(
+    mergeRetrievalGroups(groups, options.topK, options.perFileQuota).map((result) => result.chunk.id)
+  );
+
+  const byPath = new Map<string, Map<string, RetrievalResult>>();
+  for (const group of groups) {
+    const bucket = byPath.get(group.path) ?? new Map<string, RetrievalResult>();
+    byPath.set(group.path, bucket);
+    for (const result of group.results) {
+      const existing = bucket.get(result.chunk.id);
+      if (selected.has(result.chunk.id) && (!existing || existing.score < result.score)) {
+        bucket.set(result.chunk.id, result);
+      }
+    }
+  }
+  return [...byPath].map(([path, bucket]) => ({ path, results: [...bucket.values()].sort(byScoreDesc) }));
+}
+
+function describeRelation(relation: GraphRelation, name: string, via: string): string {
+  switch (relation) {
+    case "definition":
+      return `definition of ${name} (called at ${via})`;
+    case "caller":
+      return `${name} calls ${via}`;
+    default:
+      return `${name} is called by ${via}`;
+  }
+}
+
+function pickSymbolChunk(symbol: GraphSymbol, chunks: Chunk[]): Chunk | undefined {
+  const overlapping = chunks.filter(
+    (chunk) => chunk.startLine <= symbol.endLine && chunk.endLine >= symbol.startLine
+  );
+  // Prefer the chunk declared for this symbol, then the tightest one that contains its first line.
+  return overlapping.sort((a, b) => {
+    const aNamed = a.symbol === symbol.name ? 0 : 1;
+    const bNamed = b.symbol === symbol.name ? 0 : 1;
+    if (aNamed !== bNamed) {
+      return aNamed - bNamed;
+    }
+    const aContains = a.startLine <= symbol.startLine && a.endLine >= symbol.startLine ? 0 : 1;
+    const bContains = b.startLine <= symbol.startLine && b.endLine >= symbol.startLine ? 0 : 1;
+    if (aContains !== bContains) {
+      return aContains - bContains;
+    }
+    return a.endLine - a.startLine - (b.endLine - b.startLine);
+  })[0];
+}
+
+/**
+ * Code-graph context for a diff: definitions of symbols called on changed lines and the callers
+ * and callees of changed declarations. Returns an empty list for indexes without a graph.
+ */
+export async function retrieveGraphContext(
+  indexDir: string,
+  diffFiles: DiffFile[],
+  limit: number,
+  scope: RepoScope = {}
+): Promise<RetrievalResult[]> {
+  if (limit <= 0) {
+    return [];
+  }
+  const graph = await loadGraph(scope.metaDir ?? indexDir);
+  if (!graph) {
+    return [];
+  }
+
+  const changes = diffFiles.map((file) => ({ path: file.path, ranges: changedLineRanges(file) }));
+  const related = collectRelatedSymbols(linkCodeGraph(graph), changes, limit);
+  if (related.length === 0) {
+    return [];
+  }
+
+  const chunks = await loadChunksByPaths(
+    indexDir,
+    related.map((item) => item.symbol.path),
+    scope.repo
+  );
+  const chunksByPath = new Map<string, Chunk[]>();
+  for (const chunk of chunks) {
+    chunksByPath.set(chunk.path, [...(chunksByPath.get(chunk.path) ?? []), chunk]);
+  }
+
+  const results = new Map<string, RetrievalResult>();
+  for (const item of related) {
+    const chunk = pickSymbolChunk(item.symbol, chunksByPath.get(item.symbol.path) ?? []);
+    if (!chunk || results.has(chunk.id)) {
+      continue;
+    }
+    results.set(chunk.id, {
+      score: GRAPH_RELATION_SCORES[item.relation],
+      origin: "graph",
+      relation: describeRelation(item.relation, qualifiedName(item.symbol), item.via),
+      chunk
+    });
+  }
+  return [...results.values()];
+}
+
+interface Declaration {
+  chunks: Chunk[];
+  startLine: number;
+  endLine: number;
+  label: string;
+}
+
+function chunkLabel(chunk: Chunk): string {
+  return chunk.symbol ? `${chunk.nodeType ?? "declaration"} ${chunk.symbol}` : (chunk.nodeType ?? "declaration");
+}
+
+// Re-joins AST chunks into declarations: oversized declarations are split into consecutive parts
+// that share nodeType and symbol.
+function groupDeclarations(chunks: Chunk[]): Declaration[] {
+  const declarations: Declaration[] = [];
+  const open = new Map<string, Declaration>();
+  const sorted = [...chunks].sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine);
+  for (const chunk of sorted) {
+    const key = `${chunk.nodeType ?? ""}|${chunk.symbol ?? ""}`;
+    const previous = open.get(key);
+    if (previous && chunk.startLine <= previous.endLine + 1) {
+      previous.chunks.push(chunk);
+      previous.endLine = Math.max(previous.endLine, chunk.endLine);
+      continue;
+    }
+    const declaration = { chunks: [chunk], startLine: chunk.startLine, endLine: chunk.endLine, label: chunkLabel(chunk) };
+    declarations.push(declaration);
+    open.set(key, declaration);
+  }
+  return declarations;
+}
+
+function contains(outer: Declaration, inner: Declaration): boolean {
+  return (
+    outer !== inner &&
+    outer.startLine <= inner.startLine &&
+    outer.endLine >= inner.endLine &&
+    (outer.startLine < inner.startLine || outer.endLine > inner.endLine)
+  );
+}
+
+function formatRange(range: LineRange): string {
+  return range.startLine === range.endLine ? `${range.startLine}` : `${range.startLine}-${range.endLine}`;
+}
+
+/**
+ * Maps changed line ranges of one file onto its indexed chunks. For AST chunks this yields the innermost
+ * declarations enclosing the change (all parts of split declarations) followed by their neighbouring
+ * sibling declarations; text chunks are matched by plain line overlap.
+ */
+export function selectChangedChunks(chunks: Chunk[], ranges: LineRange[]): RetrievalResult[] {
+  const results = new Map<string, RetrievalResult>();
+  const add = (chunk: Chunk, score: number, relation: string): void => {
+    if (!results.has(chunk.id)) {
+      results.set(chunk.id, { score, origin: "diff", relation, chunk });
+    }
+  };
+
+  const overlapsRange = (item: { startLine: number; endLine: number }, range: LineRange): boolean =>
+    item.startLine <= range.endLine && item.endLine >= range.startLine;
+
+  for (const range of ranges) {
+    for (const chunk of chunks) {
+      if (chunk.chunkingStrategy === "text" && overlapsRange(chunk, range)) {
+        add(chunk, ENCLOSING_SCORE, `changed lines ${formatRange(range)}`);
+      }
+    }
+  }
+
+  const declarations = groupDeclarations(chunks.filter((chunk) => chunk.chunkingStrategy === "ast"));
+  const parentOf = (declaration: Declaration): Declaration | undefined =>
+    declarations
+      .filter((candidate) => contains(candidate, declaration))
+      .sort((a, b) => a.endLine - a.startLine - (b.endLine - b.startLine))[0];
+
+  const enclosing: Declaration[] = [];
+  for (const range of ranges) {
+    const overlapping = declarations.filter((declaration) => overlapsRange(declaration, range));
+    for (const declaration of overlapping) {
+      if (overlapping.some((other) => contains(declaration, other))) {
+        continue;
+      }
+      for (const chunk of declaration.chunks) {
+        add(chunk, ENCLOSING_SCORE, `encloses changed lines ${formatRange(range)}`);
+      }
+      if (!enclosing.includes(declaration)) {
+        enclosing.push(declaration);
+      }
+    }
+  }
+
+  for (const declaration of enclosing) {
+    const parent = parentOf(declaration);
+    const siblings = declarations
+      .filter((candidate) => candidate !== declaration && parentOf(candidate) === parent)
+      .sort((a, b) => a.startLine - b.startLine);
+    const before = siblings.filter((candidate) => candidate.endLine < declaration.startLine).pop();
+    const after = siblings.find((candidate) => candidate.startLine > declaration.endLine);
+    for (const sibling of [before, after]) {
+      for (const chunk of sibling?.chunks ?? []) {
+        add(chunk, SIBLING_SCORE, `sibling of ${declaration.label}`);
+      }
+    }
+  }
+
+  // Enclosing declarations first, then siblings; each group in file order.
+  return [...results.values()].sort((a, b) => b.score - a.score || a.chunk.startLine - b.chunk.startLine);
+}
+
+/**
+ * Exact lookup of the indexed chunks under the changed lines of each file (by path and line overlap).
+ * Line numbers refer to the new side of the diff, so a stale index yields approximate matches.
+ */
+export async function retrieveChangedChunks(
+  indexDir: string,
+  diffFiles: DiffFile[],
+  limit: number,
+  scope: RepoScope = {}
+): Promise<RetrievalResult[]> {
+  const changes = diffFiles
+    .map((file) => ({ path: file.path, ranges: changedLineRanges(file) }))
+    .filter((change) => change.ranges.length > 0);
+  if (limit <= 0 || changes.length === 0) {
+    return [];
+  }
+
+  const chunks = await loadChunksByPaths(
+    indexDir,
+    changes.map((change) => change.path),
+    scope.repo
+  );
+
+  const perFile = changes.map((change) =>
+    selectChangedChunks(
+      chunks.filter((chunk) => chunk.path === change.path),
+      change.ranges
+    )
+  );
+  // Enclosing declarations of every file before any siblings, so one big file cannot use up the limit.
+  return perFile
+    .flat()
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
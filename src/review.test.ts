@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { runReview } from "./review.js";
+import { replaceChunks, saveManifest } from "./store.js";
+import type { Chunk } from "./types.js";
+
+async function readBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+  let text = "";
+  for await (const part of request) {
+    text += String(part);
+  }
+  return JSON.parse(text) as Record<string, unknown>;
+}
+
+function chunk(id: string, content: string, embedding: number[]): Chunk {
+  return {
+    id,
+    path: `lib/${id}.ts`,
+    language: "ts",
+    startLine: 1,
+    endLine: 1,
+    content,
+    chunkingStrategy: "text",
+    contentHash: id,
+    fileMtimeMs: 1,
+    fileSize: 1,
+    embedding
+  };
+}
+
+function fileDiff(file: string): string {
+  return [`diff --git a/${file} b/${file}`, `--- a/${file}`, `+++ b/${file}`, "@@ -1 +1 @@", "-old();", "+renamed();"]
+    .join("\n");
+}
+
+describe("runReview with a rerank model", () => {
+  let server: Server;
+  let baseUrl = "";
+  let root = "";
+
+  before(async () => {
+    // The rerank model grades alpha chunks high for a.ts and the beta chunk a bit lower for b.ts.
+    server = createServer((request, response) => {
+      void readBody(request).then((body) => {
+        if (request.url === "/api/embed") {
+          response.end(JSON.stringify({ embeddings: (body.input as string[]).map(() => [1, 0]) }));
+          return;
+        }
+        if (body.stream) {
+          const report = JSON.stringify({ summary: "ok", findings: [] });
+          const lines = [{ response: report, done: false }, { response: "", done: true }];
+          response.end(lines.map((line) => `${JSON.stringify(line)}\n`).join(""));
+          return;
+        }
+        const prompt = String(body.prompt);
+        const file = /Changed files: (\S+)/.exec(prompt)?.[1];
+        const score = prompt.includes("alpha") ? (file === "a.ts" ? 10 : 0) : file === "b.ts" ? 9 : 0;
+        response.end(JSON.stringify({ response: JSON.stringify({ score }) }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    root = await mkdtemp(path.join(tmpdir(), "code-rag-review-"));
+    const indexDir = path.join(root, ".code-rag");
+    await replaceChunks(indexDir, [
+      chunk("alpha1", "alpha one", [1, 0]),
+      chunk("alpha2", "alpha two", [0.9, 0.1]),
+      chunk("beta", "beta", [0, 1])
+    ]);
+    await saveManifest(indexDir, {
+      version: 1,
+      generatedAt: new Date(0).toISOString(),
+      repoRoot: root,
+      embeddingModel: "embed",
+      embeddingProvider: "ollama",
+      chunkingMode: "text",
+      chunkSize: 40,
+      overlapLines: 0,
+      excludedDirs: [],
+      maxFileSizeBytes: 1000,
+      filesIndexed: 3,
+      chunksIndexed: 3
+    });
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("keeps the per-file quota of every changed file after reranking", async () => {
+    const result = await runReview({
+      repoRoot: root,
+      indexDir: ".code-rag",
+      provider: { provider: "ollama", baseUrl },
+      reviewModel: "review",
+      query: "Find bugs.",
+      topK: 2,
+      perFileQuota: 1,
+      maxDiffChars: 10000,
+      contextTokens: 8192,
+      diff: `${fileDiff("a.ts")}\n${fileDiff("b.ts")}`,
+      retrievalMode: "vector",
+      rerankModel: "rerank",
+      graphContext: 0,
+      changedContext: 0
+    });
+    assert.deepEqual(result.retrieval.map((item) => item.chunk.id).sort(), ["alpha1", "beta"]);
+  });
+});
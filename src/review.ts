@@ -1,40 +1,170 @@
 import { readFile } from "node:fs/promises";
 import path from "node:path";
-import { getWorkingTreeDiff } from "./git.js";
-import { OllamaClient } from "./ollama.js";
-import { loadManifest, vectorSearch } from "./store.js";
-import type { RetrievalResult } from "./types.js";
-
-const REVIEW_SYSTEM_PROMPT = `
-Ты старший инженер и проводишь code review.
-Используй только предоставленные diff и контекст RAG.
-Если данных недостаточно, явно напиши это.
-Формат ответа:
-1) Findings (критичные/важные/minor) с файлами и строками, если возможно.
-2) Риски регрессий.
-3) Короткий список конкретных фиксов.
-Отвечай на языке пользователя.
-`.trim();
+import {
+  diffCharBudget,
+  estimateTokens,
+  packContext,
+  promptBudgetTokens,
+  resolveContextWindow,
+  type ContextReport,
+  type PackedContext
+} from "./budget.js";
+import {
+  mergeDuplicateFindings,
+  parseReviewAggregate,
+  parseReviewReport,
+  REVIEW_AGGREGATE_SCHEMA,
+  REVIEW_REPORT_SCHEMA,
+  sortFindings,
+  type ReviewAggregate,
+  type ReviewFinding,
+  type ReviewReport,
+  type ReviewRisk
+} from "./findings.js";
+import {
+  formatDiffFile,
+  getCommitDiff,
+  getRangeDiff,
+  getStagedDiff,
+  getWorkingTreeDiff,
+  parseUnifiedDiff,
+  resolveCommit,
+  type DiffFile,
+  type DiffSource,
+  type LoadedDiff
+} from "./git.js";
+import {
+  assertEmbeddingProvider,
+  createProvider,
+  type ChatProvider,
+  type EmbeddingProvider,
+  type GenerateStats,
+  type ProviderConfig
+} from "./provider.js";
+import {
+  DEFAULT_REVIEW_QUERY,
+  loadReviewPrompts,
+  type ReviewPreset,
+  type ReviewPrompts
+} from "./prompts.js";
+import { rerankCandidateCount, rerankGroups } from "./rerank.js";
+import {
+  extractLexicalTerms,
+  formatChunkLocation,
+  resolveRetrievalMode,
+  retrieveChangedChunks,
+  retrieveDiffGroups,
+  retrieveForDiff,
+  retrieveGraphContext,
+  type RepoScope,
+  type RetrievalMode,
+  type RetrievalUnit
+} from "./retrieval.js";
+import { buildChunkWhere, type ChunkFilter } from "./store.js";
+import type { IndexManifest, RetrievalResult } from "./types.js";
+import { openIndex, resolveRepoFilter } from "./workspace.js";
+
+const MAX_REVIEW_ATTEMPTS = 3;
+const DEFAULT_GRAPH_CONTEXT = 6;
+const DEFAULT_CHANGED_CONTEXT = 12;
+const MAX_AGGREGATE_RATIONALE_CHARS = 300;
+
+export type ReviewStrategy = "single" | "per-file";
+
+/** A model pass of the per-file strategy; numbered from 1, the last one aggregates the others. */
+export interface ReviewPassInfo {
+  index: number;
+  total: number;
+  label: string;
+}
+
+export interface ReviewPart {
+  // Path of the reviewed file, with the hunk range when the file was split.
+  label: string;
+  summary: string;
+  // Findings of this part before deduplication.
+  findings: number;
+  context: ContextReport;
+}
 
 export interface ReviewOptions {
   repoRoot: string;
   indexDir: string;
-  ollamaUrl: string;
+  provider: ProviderConfig;
   reviewModel: string;
   query: string;
   topK: number;
   maxDiffChars: number;
+  // Context window of the review model in tokens; asked from the provider by default.
+  contextTokens?: number;
+  // Unified diff text supplied by the caller instead of reading it from git or a file.
+  diff?: string;
   diffFile?: string;
+  baseRef?: string;
+  headRef?: string;
+  commit?: string;
+  stagedOnly?: boolean;
   embeddingModel?: string;
+  retrievalUnit?: RetrievalUnit;
+  retrievalMode?: RetrievalMode;
+  rerankModel?: string;
+  rerankCandidates?: number;
+  // Max chunks added from the code graph (definitions, callers, callees); 0 disables.
+  graphContext?: number;
+  // Max declarations enclosing the changed lines (and their siblings); 0 disables.
+  changedContext?: number;
+  perFileQuota?: number;
+  // Workspace repositories searched for context; all when empty.
+  repoFilter?: string[];
+  // Metadata prefilter for the RAG search; changed declarations and graph context are not filtered.
+  filter?: ChunkFilter;
+  // "single" reviews the diff in one prompt, cut to fit; "per-file" reviews each file (or group of hunks) with its
+  // own retrieval and merges the results in an aggregation pass.
+  strategy?: ReviewStrategy;
+  // Answer language as a code (`en`, `ru`) or a name; the user's language when unset.
+  language?: string;
+  // Review focus added to the system prompt; "general" by default.
+  preset?: ReviewPreset;
+  // User prompt template with {{query}}, {{diff}}, {{changed}} and {{context}}, relative to `repoRoot`.
+  promptTemplate?: string;
+  onPass?: (pass: ReviewPassInfo) => void;
+  // Receives review model output as it streams in; a retry after malformed output starts a new attempt.
+  onToken?: (text: string, attempt: number) => void;
+  // Aborts review generation.
+  signal?: AbortSignal;
 }
 
 export interface ReviewResult {
-  output: string;
+  summary: string;
+  findings: ReviewFinding[];
   retrieval: RetrievalResult[];
   usedDiff: string;
+  diffSource: DiffSource;
+  // Non-fatal problems with the review inputs, e.g. an index built from another revision.
+  warnings: string[];
+  // Workspace member that was reviewed; chunks of other members have paths outside `repoRoot`.
+  repo?: string;
+  // Token and timing stats of the review model's accepted answer.
+  generation?: GenerateStats;
+  // What of the diff and retrieval fit into the prompt; single strategy.
+  context?: ContextReport;
+  // Per-file strategy: the reviewed parts, and the risk assessed by the aggregation pass.
+  parts?: ReviewPart[];
+  risk?: ReviewRisk;
 }
 
-function formatChunkForPrompt(result: RetrievalResult): string {
+function formatOrigin(result: RetrievalResult): string {
+  switch (result.origin) {
+    case "diff":
+      return `Changed: ${result.relation ?? "changed declaration"}`;
+    case "graph":
+      return `Graph: ${result.relation ?? "related symbol"}`;
+    default:
+      return `Score: ${result.score.toFixed(4)}`;
+  }
+}
+
+function formatChunkForPrompt({ result, ids }: PackedContext): string {
   const chunk = result.chunk;
   const meta = [
     `Language: ${chunk.language}`,
@@ -46,8 +176,9 @@ function formatChunkForPrompt(result: RetrievalResult): string {
     .join("\n");
 
   return [
-    `Score: ${result.score.toFixed(4)}`,
-    `Path: ${chunk.path}:${chunk.startLine}-${chunk.endLine}`,
+    `Id: ${ids.join(", ")}`,
+    formatOrigin(result),
+    `Path: ${formatChunkLocation(chunk)}`,
     meta,
     "```",
     chunk.content,
@@ -55,78 +186,494 @@ function formatChunkForPrompt(result: RetrievalResult): string {
   ].join("\n");
 }
 
-function buildPrompt(params: {
-  query: string;
-  diff: string;
-  contexts: RetrievalResult[];
-}): string {
-  const contextBlocks =
-    params.contexts.length === 0
-      ? "RAG контекст не найден."
-      : params.contexts.map((ctx) => formatChunkForPrompt(ctx)).join("\n\n");
+function buildPrompt(
+  prompts: ReviewPrompts,
+  params: {
+    query: string;
+    diff: string;
+    contexts: PackedContext[];
+  }
+): string {
+  return prompts.renderReview({
+    query: params.query,
+    diff: params.diff,
+    changed: params.contexts.filter((ctx) => ctx.result.origin === "diff").map((ctx) => formatChunkForPrompt(ctx)),
+    context: params.contexts.filter((ctx) => ctx.result.origin !== "diff").map((ctx) => formatChunkForPrompt(ctx))
+  });
+}
+
+async function loadDiff(options: ReviewOptions): Promise<LoadedDiff> {
+  const selected = [
+    options.diff !== undefined ? "diff" : "",
+    options.diffFile ? "--diff-file" : "",
+    options.baseRef || options.headRef ? "--base/--head" : "",
+    options.commit ? "--commit" : "",
+    options.stagedOnly ? "--staged-only" : ""
+  ].filter(Boolean);
+  if (selected.length > 1) {
+    throw new Error(`Options ${selected.join(", ")} are mutually exclusive`);
+  }
 
-  return `
-Задача ревью:
-${params.query}
+  const repoRoot = options.repoRoot;
+  if (options.diff !== undefined) {
+    return { diff: options.diff.trim(), source: { kind: "inline" } };
+  }
+  if (options.diffFile) {
+    const absDiffPath = path.isAbsolute(options.diffFile) ? options.diffFile : path.join(repoRoot, options.diffFile);
+    const diff = (await readFile(absDiffPath, "utf8")).trim();
+    return { diff, source: { kind: "file", diffFile: absDiffPath } };
+  }
+  if (options.headRef && !options.baseRef) {
+    throw new Error("--head requires --base");
+  }
+  if (options.baseRef) {
+    return getRangeDiff(repoRoot, options.baseRef, options.headRef);
+  }
+  if (options.commit) {
+    return getCommitDiff(repoRoot, options.commit);
+  }
+  if (options.stagedOnly) {
+    return getStagedDiff(repoRoot);
+  }
+  return { diff: await getWorkingTreeDiff(repoRoot), source: { kind: "working-tree" } };
+}
 
-Diff:
-${params.diff || "Diff не найден"}
+async function resolveOptionalCommit(repoRoot: string, ref: string): Promise<string | null> {
+  try {
+    return await resolveCommit(repoRoot, ref);
+  } catch {
+    return null;
+  }
+}
 
-RAG контекст:
-${contextBlocks}
-`.trim();
+/** Commits the diff applies to: the merge-base (or base tip) of a range, a commit's parent, or HEAD. */
+async function diffBaseCommits(repoRoot: string, source: DiffSource): Promise<string[]> {
+  switch (source.kind) {
+    case "range":
+      return [source.mergeBase, source.baseSha].filter((sha): sha is string => !!sha);
+    case "commit": {
+      const parent = source.commit ? await resolveOptionalCommit(repoRoot, `${source.commit}^`) : null;
+      return parent ? [parent] : [];
+    }
+    case "working-tree":
+    case "staged": {
+      const head = await resolveOptionalCommit(repoRoot, "HEAD");
+      return head ? [head] : [];
+    }
+    default:
+      return [];
+  }
 }
 
-async function loadDiff(repoRoot: string, diffFile?: string): Promise<string> {
-  if (diffFile) {
-    const absDiffPath = path.isAbsolute(diffFile) ? diffFile : path.join(repoRoot, diffFile);
-    return (await readFile(absDiffPath, "utf8")).trim();
+async function checkIndexRevision(repoRoot: string, manifest: IndexManifest, source: DiffSource): Promise<string | null> {
+  if (!manifest.revision) {
+    return null;
+  }
+  const bases = await diffBaseCommits(repoRoot, source);
+  if (bases.length === 0 || bases.includes(manifest.revision.commit)) {
+    return null;
   }
-  return getWorkingTreeDiff(repoRoot);
+  const { ref, commit } = manifest.revision;
+  return (
+    `Index was built from ${ref} (${commit.slice(0, 12)}) but the diff base is ${bases[0]?.slice(0, 12)}; ` +
+    "retrieved context may not match the reviewed code."
+  );
 }
 
 function resolveEmbeddingModel(indexEmbeddingModel: string, override?: string): string {
   return override ?? indexEmbeddingModel;
 }
 
-function truncate(value: string, maxChars: number): string {
-  if (value.length <= maxChars) {
-    return value;
+// Rerank query: the review task plus a compact digest of `diffFiles` (paths and changed identifiers).
+function buildRerankQuery(query: string, diffFiles: DiffFile[]): string {
+  const paths = diffFiles.map((file) => file.path).join(", ");
+  const changed = diffFiles
+    .flatMap((file) => file.hunks)
+    .flatMap((hunk) => hunk.lines.filter((line) => line.type !== "context"))
+    .map((line) => line.content)
+    .join("\n");
+  const identifiers = extractLexicalTerms(changed).join(" ");
+  return [query, paths ? `Changed files: ${paths}` : "", identifiers ? `Identifiers: ${identifiers}` : ""]
+    .filter(Boolean)
+    .join("\n");
+}
+
+async function generateJson<T>(
+  client: ChatProvider,
+  model: string,
+  request: {
+    prompt: string;
+    system: string;
+    schema: Record<string, unknown>;
+    parse: (raw: string) => T;
+    retry: (error: string) => string;
+  },
+  options: Pick<ReviewOptions, "onToken" | "signal"> & { contextLength: number }
+): Promise<{ value: T; stats?: GenerateStats }> {
+  let lastError = "";
+  for (let attempt = 1; attempt <= MAX_REVIEW_ATTEMPTS; attempt += 1) {
+    const attemptPrompt = lastError ? `${request.prompt}\n\n${request.retry(lastError)}` : request.prompt;
+    let raw = "";
+    let stats: GenerateStats | undefined;
+    for await (const chunk of client.generateStream(model, attemptPrompt, request.system, {
+      format: request.schema,
+      contextLength: options.contextLength,
+      signal: options.signal
+    })) {
+      raw += chunk.text;
+      stats = chunk.stats ?? stats;
+      if (chunk.text) {
+        options.onToken?.(chunk.text, attempt);
+      }
+    }
+    try {
+      return { value: request.parse(raw.trim()), stats };
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+  }
+  throw new Error(`Review model returned malformed output after ${MAX_REVIEW_ATTEMPTS} attempts: ${lastError}`);
+}
+
+/** Index, model and prompt budget shared by every pass of a review. */
+interface ReviewScope extends RepoScope {
+  options: ReviewOptions;
+  prompts: ReviewPrompts;
+  // Review task; the default one follows the answer language.
+  query: string;
+  client: EmbeddingProvider & ChatProvider;
+  absIndexDir: string;
+  embeddingModel: string;
+  // Requested mode, or vector search when the index has no full-text columns.
+  retrievalMode: RetrievalMode;
+  fullTextColumns: string[];
+  where?: string;
+  // Diff paths only identify chunks and graph symbols of the reviewed repository.
+  localContext: boolean;
+  windowTokens: number;
+  budgetTokens: number;
+}
+
+interface DiffReview {
+  report: ReviewReport;
+  retrieval: RetrievalResult[];
+  usedDiff: string;
+  context: ContextReport;
+  stats?: GenerateStats;
+}
+
+interface DiffPart {
+  label: string;
+  diff: string;
+  files: DiffFile[];
+}
+
+async function retrieveContext(scope: ReviewScope, diffFiles: DiffFile[]): Promise<RetrievalResult[]> {
+  const { options, client, absIndexDir } = scope;
+  const repoScope = { repo: scope.repo, metaDir: scope.metaDir };
+  const changedResults = scope.localContext
+    ? await retrieveChangedChunks(
+        absIndexDir,
+        diffFiles,
+        options.changedContext ?? DEFAULT_CHANGED_CONTEXT,
+        repoScope
+      )
+    : [];
+  const retrievalOptions = {
+    indexDir: absIndexDir,
+    embeddingModel: scope.embeddingModel,
+    query: scope.query,
+    diffFiles,
+    topK: options.topK,
+    unit: options.retrievalUnit ?? "hunk",
+    mode: scope.retrievalMode,
+    fullTextColumns: scope.fullTextColumns,
+    perFileQuota: options.perFileQuota,
+    where: scope.where
+  };
+  // Every file is reranked against its own changes; a query digesting the whole diff gets cut on large diffs.
+  const searchResults = options.rerankModel
+    ? await rerankGroups(
+        client,
+        await retrieveDiffGroups(client, {
+          ...retrievalOptions,
+          topK: rerankCandidateCount(options.topK, options.rerankCandidates)
+        }),
+        {
+          model: options.rerankModel,
+          queryFor: (path) => buildRerankQuery(scope.query, diffFiles.filter((file) => file.path === path)),
+          topK: options.topK,
+          perFileQuota: options.perFileQuota,
+          language: options.language
+        }
+      )
+    : await retrieveForDiff(client, retrievalOptions);
+  const graphResults = scope.localContext
+    ? await retrieveGraphContext(absIndexDir, diffFiles, options.graphContext ?? DEFAULT_GRAPH_CONTEXT, repoScope)
+    : [];
+
+  // Exact matches come first; later stages only add chunks that are not already included.
+  return uniqueByChunkId([...changedResults, ...searchResults, ...graphResults]);
+}
+
+function uniqueByChunkId(results: RetrievalResult[]): RetrievalResult[] {
+  const seen = new Set<string>();
+  return results.filter((item) => !seen.has(item.chunk.id) && seen.add(item.chunk.id));
+}
+
+// Retrieval sees all of `diffFiles`: each hunk is embedded separately, so files past the prompt cut still get context.
+async function reviewDiff(scope: ReviewScope, diff: string, diffFiles: DiffFile[]): Promise<DiffReview> {
+  const { options } = scope;
+  const retrieval = await retrieveContext(scope, diffFiles);
+  const packed = packContext({
+    diff,
+    maxDiffChars: options.maxDiffChars,
+    contexts: retrieval,
+    budgetTokens: scope.budgetTokens,
+    repo: scope.repo
+  });
+  const prompt = buildPrompt(scope.prompts, {
+    query: scope.query,
+    diff: packed.diff,
+    contexts: packed.contexts
+  });
+
+  const { value: report, stats } = await generateJson(
+    scope.client,
+    options.reviewModel,
+    {
+      prompt,
+      system: scope.prompts.system,
+      schema: REVIEW_REPORT_SCHEMA,
+      parse: parseReviewReport,
+      retry: scope.prompts.retry
+    },
+    { ...options, contextLength: scope.windowTokens }
+  );
+  const knownChunkIds = new Set(packed.contexts.flatMap((item) => item.ids));
+  const findings = report.findings.map((finding) => ({
+    ...finding,
+    chunkIds: finding.chunkIds.filter((id) => knownChunkIds.has(id))
+  }));
+
+  return {
+    report: { summary: report.summary, findings },
+    retrieval,
+    usedDiff: packed.diff,
+    context: { windowTokens: scope.windowTokens, budgetTokens: Math.max(0, scope.budgetTokens), ...packed.report },
+    stats
+  };
+}
+
+/** One part per file; a file whose diff exceeds `maxChars` is split into groups of consecutive hunks. */
+function splitDiff(diffFiles: DiffFile[], maxChars: number): DiffPart[] {
+  const parts: DiffPart[] = [];
+  for (const file of diffFiles.filter((entry) => entry.hunks.length > 0)) {
+    const diff = formatDiffFile(file);
+    if (diff.length <= maxChars || file.hunks.length === 1) {
+      parts.push({ label: file.path, diff, files: [file] });
+      continue;
+    }
+
+    let first = 0;
+    const flush = (end: number) => {
+      const hunks = file.hunks.slice(first, end);
+      const range = end - first === 1 ? `hunk ${end}` : `hunks ${first + 1}-${end}`;
+      parts.push({
+        label: `${file.path} (${range} of ${file.hunks.length})`,
+        diff: formatDiffFile(file, hunks),
+        files: [{ ...file, hunks }]
+      });
+      first = end;
+    };
+    for (let index = 1; index < file.hunks.length; index += 1) {
+      if (formatDiffFile(file, file.hunks.slice(first, index + 1)).length > maxChars) {
+        flush(index);
+      }
+    }
+    flush(file.hunks.length);
+  }
+  return parts;
+}
+
+function sumGenerateStats(all: Array<GenerateStats | undefined>): GenerateStats | undefined {
+  const stats = all.filter((entry): entry is GenerateStats => entry !== undefined);
+  if (stats.length === 0) {
+    return undefined;
   }
-  return `${value.slice(0, maxChars)}\n\n[...truncated...]`;
+  const sum = (key: keyof GenerateStats) => stats.reduce((total, entry) => total + entry[key], 0);
+  const outputTokens = sum("outputTokens");
+  const evalDurationMs = sum("evalDurationMs");
+  return {
+    promptTokens: sum("promptTokens"),
+    outputTokens,
+    totalDurationMs: sum("totalDurationMs"),
+    loadDurationMs: sum("loadDurationMs"),
+    promptDurationMs: sum("promptDurationMs"),
+    evalDurationMs,
+    tokensPerSecond: evalDurationMs > 0 ? (outputTokens * 1000) / evalDurationMs : 0
+  };
+}
+
+function clip(text: string, maxChars: number): string {
+  return text.length <= maxChars ? text : `${text.slice(0, maxChars)}...`;
+}
+
+function buildAggregatePrompt(scope: ReviewScope, parts: ReviewPart[], findings: ReviewFinding[]): string {
+  return scope.prompts.renderAggregate({
+    query: scope.query,
+    parts,
+    findings: findings.map(
+      (finding, index) =>
+        `[${index + 1}] ${finding.severity}/${finding.category} ${finding.file}:${finding.startLine}-` +
+        `${finding.endLine} ${finding.title}: ${clip(finding.rationale, MAX_AGGREGATE_RATIONALE_CHARS)}`
+    )
+  });
 }
 
-function renderSearchQuery(query: string, diff: string): string {
-  return `${query}\n\n${truncate(diff, 4000)}`;
+async function reviewPerFile(
+  scope: ReviewScope,
+  parts: DiffPart[],
+  base: Pick<ReviewResult, "diffSource" | "warnings" | "repo">
+): Promise<ReviewResult> {
+  const { options } = scope;
+  const total = parts.length + 1;
+  const reviewed: Array<{ part: DiffPart; review: DiffReview }> = [];
+  for (const [index, part] of parts.entries()) {
+    options.onPass?.({ index: index + 1, total, label: part.label });
+    const review = await reviewDiff(scope, part.diff, part.files);
+    if (review.context.diffTruncated) {
+      base.warnings.push(`${part.label} does not fit the prompt; its tail was not reviewed.`);
+    }
+    reviewed.push({ part, review });
+  }
+
+  const reviews = reviewed.map(({ review }) => review);
+  const reviewParts: ReviewPart[] = reviewed.map(({ part, review }) => ({
+    label: part.label,
+    summary: review.report.summary,
+    findings: review.report.findings.length,
+    context: review.context
+  }));
+  const findings = mergeDuplicateFindings(reviews.flatMap((review) => review.report.findings));
+
+  options.onPass?.({ index: total, total, label: "summary" });
+  let aggregate: { value: ReviewAggregate; stats?: GenerateStats } | null = null;
+  try {
+    aggregate = await generateJson(
+      scope.client,
+      options.reviewModel,
+      {
+        prompt: buildAggregatePrompt(scope, reviewParts, findings),
+        system: scope.prompts.aggregateSystem,
+        schema: REVIEW_AGGREGATE_SCHEMA,
+        parse: (raw) => parseReviewAggregate(raw, findings.length),
+        retry: scope.prompts.retry
+      },
+      { ...options, contextLength: scope.windowTokens }
+    );
+  } catch (error) {
+    if (options.signal?.aborted) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    base.warnings.push(`Aggregation pass failed (${message}); the summary lists the per-file summaries.`);
+  }
+
+  const generation = sumGenerateStats([...reviews.map((review) => review.stats), aggregate?.stats]);
+  return {
+    ...base,
+    summary: aggregate?.value.summary ?? reviewParts.map((part) => `${part.label}: ${part.summary}`).join("\n"),
+    findings: sortFindings(mergeDuplicateFindings(findings, aggregate?.value.duplicates)),
+    retrieval: uniqueByChunkId(reviews.flatMap((review) => review.retrieval)),
+    usedDiff: reviews.map((review) => review.usedDiff).join("\n"),
+    parts: reviewParts,
+    ...(aggregate ? { risk: aggregate.value.risk } : {}),
+    ...(generation ? { generation } : {})
+  };
 }
 
 export async function runReview(options: ReviewOptions): Promise<ReviewResult> {
   const absIndexDir = path.isAbsolute(options.indexDir)
     ? options.indexDir
     : path.join(options.repoRoot, options.indexDir);
-  const manifest = await loadManifest(absIndexDir);
-  if (!manifest) {
-    throw new Error(`Index not found in ${absIndexDir}. Run 'code-rag index' first.`);
+  const { manifest, workspace, repo, metaDir, fullTextColumns } = await openIndex(absIndexDir, options.repoRoot);
+  const where = buildChunkWhere({
+    ...options.filter,
+    repos: resolveRepoFilter(workspace, options.repoFilter)
+  });
+  const warnings: string[] = [];
+  const localContext = !workspace || repo !== undefined;
+  if (!localContext) {
+    warnings.push(
+      `${options.repoRoot} is not part of the workspace index; changed-declaration and code graph context are skipped.`
+    );
   }
 
-  const diff = truncate(await loadDiff(options.repoRoot, options.diffFile), options.maxDiffChars);
-  if (!diff && !options.query) {
+  const { diff: fullDiff, source: diffSource } = await loadDiff(options);
+  const revisionWarning = localContext ? await checkIndexRevision(options.repoRoot, manifest, diffSource) : null;
+  if (revisionWarning) {
+    warnings.push(revisionWarning);
+  }
+  if (!fullDiff && !options.query) {
     throw new Error("No review input: pass --query or provide a git diff.");
   }
 
   const embeddingModel = resolveEmbeddingModel(manifest.embeddingModel, options.embeddingModel);
-  const client = new OllamaClient({ baseUrl: options.ollamaUrl });
-
-  const retrievalQuery = renderSearchQuery(options.query, diff);
-  const queryEmbedding = await client.embedSingle(embeddingModel, retrievalQuery);
-  const retrieval = await vectorSearch(absIndexDir, queryEmbedding, options.topK);
-
-  const prompt = buildPrompt({
-    query: options.query,
-    diff,
-    contexts: retrieval
+  const retrievalMode = resolveRetrievalMode(options.retrievalMode ?? "hybrid", fullTextColumns, warnings);
+  if (retrievalMode !== "lexical") {
+    assertEmbeddingProvider(manifest.embeddingProvider, options.provider.provider);
+  }
+  const client = createProvider(options.provider);
+  const windowTokens = await resolveContextWindow(client, options.reviewModel, options.contextTokens, warnings);
+  const prompts = await loadReviewPrompts({
+    repoRoot: options.repoRoot,
+    language: options.language,
+    preset: options.preset,
+    promptTemplate: options.promptTemplate
   });
+  const query = options.query === DEFAULT_REVIEW_QUERY ? prompts.defaultQuery : options.query;
+  const template = buildPrompt(prompts, { query, diff: "", contexts: [] });
+  const fixedTokens = estimateTokens(prompts.system) + estimateTokens(template);
+  const scope: ReviewScope = {
+    options,
+    prompts,
+    query,
+    client,
+    absIndexDir,
+    embeddingModel,
+    retrievalMode,
+    fullTextColumns,
+    where,
+    repo,
+    metaDir,
+    localContext,
+    windowTokens,
+    budgetTokens: promptBudgetTokens(windowTokens, fixedTokens)
+  };
+  const base = { diffSource, warnings, ...(repo ? { repo } : {}) };
 
-  const output = await client.generate(options.reviewModel, prompt, REVIEW_SYSTEM_PROMPT);
-  return { output, retrieval, usedDiff: diff };
+  const diffFiles = parseUnifiedDiff(fullDiff);
+  if (options.strategy === "per-file") {
+    const parts = splitDiff(diffFiles, diffCharBudget(scope.budgetTokens, options.maxDiffChars));
+    if (parts.length > 0) {
+      return reviewPerFile(scope, parts, base);
+    }
+  }
+
+  const review = await reviewDiff(scope, fullDiff, diffFiles);
+  if (review.context.diffTruncated) {
+    warnings.push(
+      "Diff was cut to fit the prompt and its tail was not reviewed; use --strategy per-file to review all of it."
+    );
+  }
+  return {
+    ...base,
+    summary: review.report.summary,
+    findings: sortFindings(review.report.findings),
+    retrieval: review.retrieval,
+    usedDiff: review.usedDiff,
+    context: review.context,
+    ...(review.stats ? { generation: review.stats } : {})
+  };
 }
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildSarifLog } from "./sarif.js";
+import type { ReviewResult } from "./review.js";
+
+const result: ReviewResult = {
+  summary: "Risky change",
+  usedDiff: "",
+  diffSource: { kind: "working-tree" },
+  warnings: [],
+  context: {
+    windowTokens: 8192,
+    budgetTokens: 5000,
+    diffTokens: 0,
+    diffTruncated: false,
+    contextTokens: 80,
+    included: [],
+    dropped: []
+  },
+  findings: [
+    {
+      severity: "critical",
+      category: "security",
+      file: "src/auth.ts",
+      startLine: 10,
+      endLine: 14,
+      title: "Token logged",
+      rationale: "Secrets end up in logs",
+      suggestedFix: "Remove the log call",
+      chunkIds: ["c2"]
+    }
+  ],
+  retrieval: ["c1", "c2"].map((id, index) => ({
+    score: 0.5,
+    chunk: {
+      id,
+      path: `src/file${index}.ts`,
+      language: "ts",
+      startLine: 1,
+      endLine: 5,
+      content: "",
+      chunkingStrategy: "text",
+      contentHash: "",
+      fileMtimeMs: 0,
+      fileSize: 0,
+      embedding: []
+    }
+  }))
+};
+
+describe("buildSarifLog", () => {
+  it("maps findings to SARIF results with rules, levels and related locations", () => {
+    const log = buildSarifLog(result, { repoRoot: "/repo" });
+    const [run] = log.runs;
+    assert.ok(run);
+
+    assert.equal(log.version, "2.1.0");
+    assert.deepEqual(
+      run.tool.driver.rules.map((rule) => rule.id),
+      ["code-rag/security"]
+    );
+    assert.equal(run.originalUriBaseIds["%SRCROOT%"]?.uri, "file:///repo/");
+
+    const [sarifResult] = run.results;
+    assert.ok(sarifResult);
+    assert.equal(sarifResult.ruleId, "code-rag/security");
+    assert.equal(sarifResult.level, "error");
+    assert.deepEqual(sarifResult.locations[0]?.physicalLocation.region, { startLine: 10, endLine: 14 });
+    assert.equal(sarifResult.relatedLocations.length, 1);
+    assert.equal(sarifResult.relatedLocations[0]?.physicalLocation.artifactLocation.uri, "src/file1.ts");
+  });
+
+  it("percent-encodes artifact paths", () => {
+    const [finding] = result.findings;
+    assert.ok(finding);
+    const moved = { ...finding, file: "docs/My Notes #1/100%/résumé.ts" };
+    const log = buildSarifLog({ ...result, findings: [moved] }, { repoRoot: "/repo" });
+    assert.equal(
+      log.runs[0]?.results[0]?.locations[0]?.physicalLocation.artifactLocation.uri,
+      "docs/My%20Notes%20%231/100%25/r%C3%A9sum%C3%A9.ts"
+    );
+  });
+
+  it("adds version control provenance only when the repository has a remote", () => {
+    assert.equal(buildSarifLog(result, { repoRoot: "/repo" }).runs[0]?.versionControlProvenance, undefined);
+    assert.deepEqual(
+      buildSarifLog(result, { repoRoot: "/repo", repositoryUri: "https://github.com/acme/app.git" }).runs[0]
+        ?.versionControlProvenance,
+      [{ repositoryUri: "https://github.com/acme/app.git", mappedTo: { uriBaseId: "%SRCROOT%" } }]
+    );
+  });
+
+  it("records the reviewed commit as the provenance revision", () => {
+    const committed: ReviewResult = { ...result, diffSource: { kind: "commit", headSha: "abc123", commit: "abc123" } };
+    assert.deepEqual(
+      buildSarifLog(committed, { repoRoot: "/repo", repositoryUri: "https://github.com/acme/app.git" }).runs[0]
+        ?.versionControlProvenance,
+      [{ repositoryUri: "https://github.com/acme/app.git", revisionId: "abc123", mappedTo: { uriBaseId: "%SRCROOT%" } }]
+    );
+  });
+});
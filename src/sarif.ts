@@ -0,0 +1,189 @@
+import { writeFile } from "node:fs/promises";
+import { pathToFileURL } from "node:url";
+import type { ReviewCategory, ReviewFinding, ReviewSeverity } from "./findings.js";
+import type { ReviewResult } from "./review.js";
+import type { RetrievalResult } from "./types.js";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const SRCROOT = "%SRCROOT%";
+const RULE_PREFIX = "code-rag";
+
+type SarifLevel = "error" | "warning" | "note";
+
+export interface SarifRegion {
+  startLine: number;
+  endLine: number;
+}
+
+export interface SarifPhysicalLocation {
+  artifactLocation: { uri: string; uriBaseId: string };
+  region?: SarifRegion;
+}
+
+export interface SarifRelatedLocation {
+  id: number;
+  physicalLocation: SarifPhysicalLocation;
+  message: { text: string };
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{ physicalLocation: SarifPhysicalLocation }>;
+  relatedLocations: SarifRelatedLocation[];
+  properties: { severity: ReviewSeverity; chunkIds: string[] };
+}
+
+export interface SarifVersionControlDetails {
+  repositoryUri: string;
+  // Commit the findings refer to; unknown when reviewing the working tree or a diff file.
+  revisionId?: string;
+  mappedTo: { uriBaseId: string };
+}
+
+export interface SarifRun {
+  tool: { driver: { name: string; version: string; rules: SarifRule[] } };
+  originalUriBaseIds: Record<string, { uri: string }>;
+  versionControlProvenance?: SarifVersionControlDetails[];
+  results: SarifResult[];
+  properties?: { summary: string };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: SarifRun[];
+}
+
+export interface SarifOptions {
+  repoRoot: string;
+  // Remote of the repository (see `getRemoteUri`); version control provenance is left out without it.
+  repositoryUri?: string;
+  toolVersion?: string;
+}
+
+const SEVERITY_LEVELS: Record<ReviewSeverity, SarifLevel> = {
+  critical: "error",
+  major: "warning",
+  minor: "note",
+  info: "note"
+};
+
+const CATEGORY_DESCRIPTIONS: Record<ReviewCategory, string> = {
+  bug: "Functional defect or incorrect behaviour",
+  security: "Security vulnerability or unsafe practice",
+  performance: "Performance or resource usage problem",
+  maintainability: "Code structure or maintainability concern",
+  style: "Style or readability issue",
+  testing: "Missing or inadequate tests",
+  other: "Other review remark"
+};
+
+function ruleId(category: ReviewCategory): string {
+  return `${RULE_PREFIX}/${category}`;
+}
+
+function toRegion(startLine: number, endLine: number): SarifRegion | undefined {
+  if (startLine < 1) {
+    return undefined;
+  }
+  return { startLine, endLine: Math.max(startLine, endLine) };
+}
+
+// Relative URI reference of a repository path: spaces, `#`, `%` and non-ASCII characters are percent-encoded.
+function toRelativeUri(repoPath: string): string {
+  return repoPath.split("/").map(encodeURIComponent).join("/");
+}
+
+function physicalLocation(repoPath: string, startLine: number, endLine: number): SarifPhysicalLocation {
+  const region = toRegion(startLine, endLine);
+  return {
+    artifactLocation: { uri: toRelativeUri(repoPath), uriBaseId: SRCROOT },
+    ...(region ? { region } : {})
+  };
+}
+
+function relatedLocations(finding: ReviewFinding, result: ReviewResult): SarifRelatedLocation[] {
+  // Only chunks of the reviewed repository resolve against the run's source root.
+  const retrieval = result.retrieval.filter((item) => !item.chunk.repo || item.chunk.repo === result.repo);
+  // Prefer the chunks the model cited; fall back to the full retrieved context.
+  const cited = retrieval.filter((item) => finding.chunkIds.includes(item.chunk.id));
+  const sources = cited.length > 0 ? cited : retrieval;
+  return sources.map((item, index) => ({
+    id: index,
+    physicalLocation: physicalLocation(item.chunk.path, item.chunk.startLine, item.chunk.endLine),
+    message: {
+      text: [`RAG source ${item.chunk.id}`, item.chunk.symbol, `score=${item.score.toFixed(4)}`]
+        .filter(Boolean)
+        .join(", ")
+    }
+  }));
+}
+
+export function buildSarifLog(result: ReviewResult, options: SarifOptions): SarifLog {
+  const categories = [...new Set(result.findings.map((finding) => finding.category))].sort();
+  const rules = categories.map((category): SarifRule => ({
+    id: ruleId(category),
+    name: category,
+    shortDescription: { text: CATEGORY_DESCRIPTIONS[category] }
+  }));
+
+  const results = result.findings.map((finding): SarifResult => {
+    const message = finding.suggestedFix
+      ? `${finding.title}\n\n${finding.rationale}\n\nSuggested fix: ${finding.suggestedFix}`
+      : `${finding.title}\n\n${finding.rationale}`;
+    return {
+      ruleId: ruleId(finding.category),
+      ruleIndex: categories.indexOf(finding.category),
+      level: SEVERITY_LEVELS[finding.severity],
+      message: { text: message },
+      locations: [{ physicalLocation: physicalLocation(finding.file, finding.startLine, finding.endLine) }],
+      relatedLocations: relatedLocations(finding, result),
+      properties: { severity: finding.severity, chunkIds: finding.chunkIds }
+    };
+  });
+
+  const rootUri = pathToFileURL(options.repoRoot).href.replace(/\/?$/, "/");
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "code-rag",
+            version: options.toolVersion ?? "0.1.0",
+            rules
+          }
+        },
+        originalUriBaseIds: { [SRCROOT]: { uri: rootUri } },
+        ...(options.repositoryUri
+          ? {
+              versionControlProvenance: [
+                {
+                  repositoryUri: options.repositoryUri,
+                  ...(result.diffSource.headSha ? { revisionId: result.diffSource.headSha } : {}),
+                  mappedTo: { uriBaseId: SRCROOT }
+                }
+              ]
+            }
+          : {}),
+        results,
+        ...(result.summary ? { properties: { summary: result.summary } } : {})
+      }
+    ]
+  };
+}
+
+export async function writeSarif(filePath: string, result: ReviewResult, options: SarifOptions): Promise<void> {
+  await writeFile(filePath, JSON.stringify(buildSarifLog(result, options), null, 2), "utf8");
+}
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { isExcludedPath, scanSourceFiles } from "./scanner.js";
+
+describe("isExcludedPath", () => {
+  it("matches excluded directories at any depth", () => {
+    assert.equal(isExcludedPath("node_modules/pkg/index.js", {}), true);
+    assert.equal(isExcludedPath("packages/app/node_modules/pkg/index.js", {}), true);
+    assert.equal(isExcludedPath(".coderag/manifest.json", { excludedDirs: [".coderag"] }), true);
+  });
+
+  it("ignores the file name itself", () => {
+    assert.equal(isExcludedPath("src/dist", {}), false);
+    assert.equal(isExcludedPath("src/indexer.ts", {}), false);
+  });
+});
+
+describe("scanSourceFiles", () => {
+  let repoRoot = "";
+
+  before(async () => {
+    repoRoot = await mkdtemp(path.join(tmpdir(), "code-rag-scan-"));
+    const files: Record<string, string> = {
+      ".gitignore": "*.log\ngenerated/\n",
+      ".coderagignore": "fixtures/\n",
+      "src/app.ts": "export const app = 1;\n",
+      "src/app.log": "log\n",
+      "src/generated/api.ts": "export {};\n",
+      "src/legacy/.gitignore": "*.ts\n!keep.ts\n",
+      "src/legacy/old.ts": "export {};\n",
+      "src/legacy/keep.ts": "export {};\n",
+      "test/fixtures/sample.ts": "export {};\n",
+      "test/app.test.ts": "export {};\n",
+      "docs/readme.md": "# docs\n"
+    };
+    for (const [relPath, content] of Object.entries(files)) {
+      await mkdir(path.dirname(path.join(repoRoot, relPath)), { recursive: true });
+      await writeFile(path.join(repoRoot, relPath), content);
+    }
+  });
+
+  after(async () => {
+    await rm(repoRoot, { recursive: true, force: true });
+  });
+
+  async function scan(options: { useGitignore?: boolean; include?: string[]; excludeGlobs?: string[] } = {}) {
+    const files = await scanSourceFiles(repoRoot, { maxFileSizeBytes: 1024, ...options });
+    return files.map((file) => file.relPath);
+  }
+
+  it("applies nested .gitignore files and .coderagignore", async () => {
+    assert.deepEqual(await scan(), [
+      ".coderagignore",
+      ".gitignore",
+      "docs/readme.md",
+      "src/app.ts",
+      "src/legacy/.gitignore",
+      "src/legacy/keep.ts",
+      "test/app.test.ts"
+    ]);
+  });
+
+  it("supports include and exclude globs", async () => {
+    assert.deepEqual(await scan({ include: ["*.ts"], excludeGlobs: ["test/"] }), ["src/app.ts", "src/legacy/keep.ts"]);
+  });
+
+  it("can skip .gitignore files", async () => {
+    const files = await scan({ useGitignore: false, include: ["src/**"] });
+    assert.deepEqual(files, [
+      "src/app.log",
+      "src/app.ts",
+      "src/generated/api.ts",
+      "src/legacy/.gitignore",
+      "src/legacy/keep.ts",
+      "src/legacy/old.ts"
+    ]);
+  });
+});
@@ -1,5 +1,7 @@
-import { open, readdir, stat } from "node:fs/promises";
+import { open, readdir, readFile, stat } from "node:fs/promises";
 import path from "node:path";
+import { listGitFiles, type GitFileEntry, type GitTreeEntry } from "./git.js";
+import { compileIgnoreRule, matchIgnoreRules, parseIgnoreFile, type IgnoreRule } from "./ignore.js";
 import type { SourceFile } from "./types.js";
 
 const DEFAULT_EXCLUDED_DIRS = [
@@ -51,9 +53,29 @@ const KNOWN_BINARY_EXTENSIONS = new Set([
   ".avi"
 ]);
 
-export interface ScanOptions {
-  maxFileSizeBytes: number;
+export const CODERAG_IGNORE_FILE = ".coderagignore";
+const GITIGNORE_FILE = ".gitignore";
+
+export interface PathFilterOptions {
   excludedDirs?: string[];
+  // Honour nested .gitignore files (default true).
+  useGitignore?: boolean;
+  // When set, only files matching one of these globs are indexed.
+  include?: string[];
+  // Extra gitignore-style patterns applied to files and directories.
+  excludeGlobs?: string[];
+}
+
+export interface ScanOptions extends PathFilterOptions {
+  maxFileSizeBytes: number;
+  // Repo-relative directories to walk instead of the whole repository.
+  roots?: string[];
+}
+
+export interface PathFilter {
+  isIgnored: (relPath: string, isDirectory: boolean) => Promise<boolean>;
+  /** Repo-relative ignore files read so far, sorted. */
+  ignoreFiles: () => string[];
 }
 
 function toPosixPath(input: string): string {
@@ -71,7 +93,7 @@ async function readFirstBytes(filePath: string, bytes: number): Promise<Buffer>
   }
 }
 
-function isProbablyBinary(buffer: Buffer): boolean {
+export function isProbablyBinary(buffer: Buffer): boolean {
   if (buffer.length === 0) {
     return false;
   }
@@ -96,11 +118,147 @@ export function detectLanguage(filePath: string): string {
   return ext.replace(".", "");
 }
 
-export async function scanSourceFiles(repoRoot: string, options: ScanOptions): Promise<SourceFile[]> {
-  const excludedDirSet = new Set(
-    [...DEFAULT_EXCLUDED_DIRS, ...(options.excludedDirs ?? [])].map((entry) => entry.toLowerCase())
-  );
+function excludedDirSetOf(options: Pick<ScanOptions, "excludedDirs">): Set<string> {
+  return new Set([...DEFAULT_EXCLUDED_DIRS, ...(options.excludedDirs ?? [])].map((entry) => entry.toLowerCase()));
+}
+
+/** Whether any directory segment of a repo-relative path is excluded. */
+export function isExcludedPath(relPath: string, options: Pick<ScanOptions, "excludedDirs">): boolean {
+  const excludedDirSet = excludedDirSetOf(options);
+  const segments = relPath.split("/");
+  return segments.slice(0, -1).some((segment) => excludedDirSet.has(segment.toLowerCase()));
+}
+
+function parentDir(relPath: string): string {
+  const index = relPath.lastIndexOf("/");
+  return index === -1 ? "" : relPath.slice(0, index);
+}
+
+async function readIgnoreFile(absPath: string): Promise<string | null> {
+  try {
+    return await readFile(absPath, "utf8");
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === "ENOENT" || code === "ENOTDIR" || code === "EISDIR") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Combines the excluded directory names with gitignore semantics: nested .gitignore files (deeper files override
+ * shallower ones), then the project-level .coderagignore, then `excludeGlobs`. A path is ignored when it or any
+ * parent directory is ignored; `include` globs additionally whitelist files.
+ */
+export function createPathFilter(repoRoot: string, options: PathFilterOptions = {}): PathFilter {
+  const useGitignore = options.useGitignore ?? true;
+  const include = (options.include ?? []).map((glob) => compileIgnoreRule(glob)).filter((rule) => rule !== null);
+  const rulesByDir = new Map<string, Promise<IgnoreRule[]>>();
+  const ignoredDirs = new Map<string, Promise<boolean>>();
+  const loadedFiles = new Set<string>();
+  let projectRules: Promise<IgnoreRule[]> | undefined;
+
+  async function loadRules(relFile: string, base: string): Promise<IgnoreRule[]> {
+    const content = await readIgnoreFile(path.join(repoRoot, relFile));
+    if (content === null) {
+      return [];
+    }
+    loadedFiles.add(relFile);
+    return parseIgnoreFile(content, base);
+  }
+
+  function gitignoreRules(dir: string): Promise<IgnoreRule[]> {
+    let rules = rulesByDir.get(dir);
+    if (!rules) {
+      rules = useGitignore ? loadRules(dir ? `${dir}/${GITIGNORE_FILE}` : GITIGNORE_FILE, dir) : Promise.resolve([]);
+      rulesByDir.set(dir, rules);
+    }
+    return rules;
+  }
+
+  async function rulesFor(dir: string): Promise<IgnoreRule[]> {
+    const dirs = [""];
+    const segments = dir ? dir.split("/") : [];
+    for (let i = 1; i <= segments.length; i += 1) {
+      dirs.push(segments.slice(0, i).join("/"));
+    }
+    projectRules ??= loadRules(CODERAG_IGNORE_FILE, "").then((rules) => [
+      ...rules,
+      ...(options.excludeGlobs ?? []).map((glob) => compileIgnoreRule(glob)).filter((rule) => rule !== null)
+    ]);
+    const nested = await Promise.all(dirs.map((entry) => gitignoreRules(entry)));
+    return [...nested.flat(), ...(await projectRules)];
+  }
+
+  async function isEntryIgnored(relPath: string, isDirectory: boolean): Promise<boolean> {
+    return matchIgnoreRules(await rulesFor(parentDir(relPath)), relPath, isDirectory) ?? false;
+  }
+
+  function isDirIgnored(relDir: string): Promise<boolean> {
+    let ignored = ignoredDirs.get(relDir);
+    if (!ignored) {
+      const parent = parentDir(relDir);
+      ignored = (parent ? isDirIgnored(parent) : Promise.resolve(false)).then(
+        (parentIgnored) => parentIgnored || isEntryIgnored(relDir, true)
+      );
+      ignoredDirs.set(relDir, ignored);
+    }
+    return ignored;
+  }
+
+  return {
+    isIgnored: async (relPath, isDirectory) => {
+      if (isExcludedPath(isDirectory ? `${relPath}/` : relPath, options)) {
+        return true;
+      }
+      if (isDirectory) {
+        return isDirIgnored(relPath);
+      }
+      const parent = parentDir(relPath);
+      if ((parent && (await isDirIgnored(parent))) || (await isEntryIgnored(relPath, false))) {
+        return true;
+      }
+      return include.length > 0 && matchIgnoreRules(include, relPath, false) !== true;
+    },
+    ignoreFiles: () => [...loadedFiles].sort()
+  };
+}
+
+/** Applies the file-level scan rules (extension, size, binary sniffing); null when the file is not indexable. */
+export async function inspectSourceFile(
+  repoRoot: string,
+  absPath: string,
+  options: Pick<ScanOptions, "maxFileSizeBytes">
+): Promise<SourceFile | null> {
+  const ext = path.extname(absPath).toLowerCase();
+  if (KNOWN_BINARY_EXTENSIONS.has(ext)) {
+    return null;
+  }
+
+  const stats = await stat(absPath);
+  if (!stats.isFile() || stats.size > options.maxFileSizeBytes) {
+    return null;
+  }
+
+  const sample = await readFirstBytes(absPath, Math.min(4096, options.maxFileSizeBytes));
+  if (isProbablyBinary(sample)) {
+    return null;
+  }
 
+  return {
+    absPath,
+    relPath: toPosixPath(path.relative(repoRoot, absPath)),
+    mtimeMs: stats.mtimeMs,
+    size: stats.size
+  };
+}
+
+export async function scanSourceFiles(
+  repoRoot: string,
+  options: ScanOptions,
+  filter: PathFilter = createPathFilter(repoRoot, options)
+): Promise<SourceFile[]> {
   const files: SourceFile[] = [];
 
   async function walk(currentDir: string): Promise<void> {
@@ -110,44 +268,101 @@ export async function scanSourceFiles(repoRoot: string, options: ScanOptions): P
       const relPath = toPosixPath(path.relative(repoRoot, absPath));
 
       if (entry.isDirectory()) {
-        if (excludedDirSet.has(entry.name.toLowerCase())) {
+        if (await filter.isIgnored(relPath, true)) {
           continue;
         }
         await walk(absPath);
         continue;
       }
 
-      if (!entry.isFile()) {
+      if (!entry.isFile() || (await filter.isIgnored(relPath, false))) {
         continue;
       }
 
-      const ext = path.extname(entry.name).toLowerCase();
-      if (KNOWN_BINARY_EXTENSIONS.has(ext)) {
-        continue;
+      const file = await inspectSourceFile(repoRoot, absPath, options);
+      if (file) {
+        files.push(file);
       }
+    }
+  }
 
-      const stats = await stat(absPath);
-      if (stats.size > options.maxFileSizeBytes) {
-        continue;
-      }
+  for (const root of options.roots ?? ["."]) {
+    await walk(path.join(repoRoot, root));
+  }
+  files.sort((a, b) => a.relPath.localeCompare(b.relPath));
+  return files;
+}
 
-      const sample = await readFirstBytes(absPath, Math.min(4096, options.maxFileSizeBytes));
-      if (isProbablyBinary(sample)) {
-        continue;
-      }
+export interface GitScanOptions extends ScanOptions {
+  includeUntracked?: boolean;
+  // Pre-fetched `listGitFiles` output, e.g. when several roots are scanned in one update.
+  entries?: GitFileEntry[];
+}
+
+/**
+ * Enumerates files via `git ls-files` instead of walking the file system and applies the same file-level rules.
+ * Git already handles .gitignore here, so the filter is expected to be created without it.
+ */
+export async function scanGitSourceFiles(
+  repoRoot: string,
+  options: GitScanOptions,
+  filter: PathFilter = createPathFilter(repoRoot, { ...options, useGitignore: false })
+): Promise<SourceFile[]> {
+  const entries = options.entries ?? (await listGitFiles(repoRoot, { includeUntracked: options.includeUntracked }));
+  const roots = (options.roots ?? []).map((root) => toPosixPath(path.normalize(root)).replace(/\/$/, ""));
+  const files: SourceFile[] = [];
 
-      files.push({
-        absPath,
-        relPath,
-        mtimeMs: stats.mtimeMs,
-        size: stats.size
-      });
+  for (const entry of entries) {
+    if (roots.length > 0 && !roots.some((root) => root === "." || entry.path === root || entry.path.startsWith(`${root}/`))) {
+      continue;
+    }
+    if (await filter.isIgnored(entry.path, false)) {
+      continue;
+    }
+    let file: SourceFile | null;
+    try {
+      file = await inspectSourceFile(repoRoot, path.join(repoRoot, entry.path), options);
+    } catch {
+      // Listed by git but gone from disk (or unreadable) by now.
+      continue;
+    }
+    if (file) {
+      files.push({ ...file, blobSha: entry.blobSha });
     }
   }
 
-  await walk(repoRoot);
   files.sort((a, b) => a.relPath.localeCompare(b.relPath));
   return files;
 }
 
+/**
+ * Files of a git tree (see `listTreeFiles`) as index sources. Contents are not on disk, so binary sniffing is left to
+ * whoever reads the blobs; `absPath` only locates the file within the repository.
+ */
+export async function scanGitRevisionFiles(
+  repoRoot: string,
+  entries: GitTreeEntry[],
+  options: ScanOptions,
+  filter: PathFilter = createPathFilter(repoRoot, { ...options, useGitignore: false })
+): Promise<SourceFile[]> {
+  const files: SourceFile[] = [];
+  for (const entry of entries) {
+    if (
+      KNOWN_BINARY_EXTENSIONS.has(path.extname(entry.path).toLowerCase()) ||
+      entry.size > options.maxFileSizeBytes ||
+      (await filter.isIgnored(entry.path, false))
+    ) {
+      continue;
+    }
+    files.push({
+      absPath: path.join(repoRoot, entry.path),
+      relPath: entry.path,
+      mtimeMs: 0,
+      size: entry.size,
+      blobSha: entry.blobSha
+    });
+  }
+  return files;
+}
+
 export { DEFAULT_EXCLUDED_DIRS };
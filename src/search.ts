@@ -1,33 +1,72 @@
 import path from "node:path";
-import { OllamaClient } from "./ollama.js";
-import { loadManifest, vectorSearch } from "./store.js";
+import { assertEmbeddingProvider, createProvider, type ProviderConfig } from "./provider.js";
+import { rerankCandidateCount, rerankResults } from "./rerank.js";
+import { resolveRetrievalMode, searchQueries, type RetrievalMode } from "./retrieval.js";
+import { buildChunkWhere, type ChunkFilter } from "./store.js";
 import type { RetrievalResult } from "./types.js";
+import { openIndex, resolveRepoFilter } from "./workspace.js";
 
 export interface SearchOptions {
   repoRoot: string;
   indexDir: string;
-  ollamaUrl: string;
+  provider: ProviderConfig;
   query: string;
   topK: number;
   embeddingModel?: string;
+  retrievalMode?: RetrievalMode;
+  rerankModel?: string;
+  rerankCandidates?: number;
+  // Workspace repositories to search; all when empty.
+  repoFilter?: string[];
+  // Metadata prefilter: top-K is computed among matching chunks only.
+  filter?: ChunkFilter;
 }
 
 export interface SearchResult {
   results: RetrievalResult[];
+  warnings: string[];
 }
 
 export async function searchIndex(options: SearchOptions): Promise<SearchResult> {
   const absIndexDir = path.isAbsolute(options.indexDir)
     ? options.indexDir
     : path.join(options.repoRoot, options.indexDir);
-  const manifest = await loadManifest(absIndexDir);
-  if (!manifest) {
-    throw new Error(`Index not found in ${absIndexDir}. Run 'code-rag index' first.`);
-  }
+  const { manifest, workspace, fullTextColumns } = await openIndex(absIndexDir, options.repoRoot);
+  const where = buildChunkWhere({
+    ...options.filter,
+    repos: resolveRepoFilter(workspace, options.repoFilter)
+  });
 
   const embeddingModel = options.embeddingModel ?? manifest.embeddingModel;
-  const client = new OllamaClient({ baseUrl: options.ollamaUrl });
-  const queryEmbedding = await client.embedSingle(embeddingModel, options.query);
-  const results = await vectorSearch(absIndexDir, queryEmbedding, options.topK);
-  return { results };
+  const warnings: string[] = [];
+  const retrievalMode = resolveRetrievalMode(options.retrievalMode ?? "hybrid", fullTextColumns, warnings);
+  if (retrievalMode !== "lexical") {
+    assertEmbeddingProvider(manifest.embeddingProvider, options.provider.provider);
+  }
+  const client = createProvider(options.provider);
+  const candidateCount = options.rerankModel
+    ? rerankCandidateCount(options.topK, options.rerankCandidates)
+    : options.topK;
+  const [candidates = []] = await searchQueries(
+    client,
+    [{ path: "", text: options.query, lexicalText: options.query }],
+    {
+      indexDir: absIndexDir,
+      embeddingModel,
+      mode: retrievalMode,
+      fullTextColumns,
+      topK: candidateCount,
+      where
+    }
+  );
+
+  if (!options.rerankModel) {
+    return { results: candidates, warnings };
+  }
+  const results = await rerankResults(client, candidates, {
+    model: options.rerankModel,
+    query: options.query,
+    topK: options.topK
+  });
+  return { results, warnings };
 }
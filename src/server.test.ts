@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { startServer, type CodeRagServer } from "./server.js";
+
+describe("startServer", () => {
+  let repoRoot = "";
+  let server: CodeRagServer;
+
+  before(async () => {
+    repoRoot = await mkdtemp(path.join(tmpdir(), "code-rag-serve-"));
+    server = await startServer({
+      host: "127.0.0.1",
+      port: 0,
+      index: {
+        repoRoot,
+        indexDir: ".coderag",
+        embeddingModel: "embed",
+        chunkingMode: "text",
+        chunkSize: 1400,
+        overlapLines: 20,
+        maxFileSizeBytes: 1024,
+        batchSize: 16,
+        excludedDirs: [],
+        provider: { provider: "ollama", baseUrl: "http://127.0.0.1:9" }
+      },
+      workspace: null,
+      reviewModel: "review"
+    });
+  });
+
+  after(async () => {
+    await server.close();
+    await rm(repoRoot, { recursive: true, force: true });
+  });
+
+  async function request(method: string, pathname: string, body?: string) {
+    const response = await fetch(`${server.url}${pathname}`, { method, body });
+    return { status: response.status, json: (await response.json()) as Record<string, unknown> };
+  }
+
+  it("reports the index status before anything is indexed", async () => {
+    const { status, json } = await request("GET", "/status");
+    assert.equal(status, 200);
+    assert.equal(json.indexDir, path.join(repoRoot, ".coderag"));
+    assert.deepEqual(json.repos, [{ repoRoot, manifest: null }]);
+  });
+
+  it("validates request bodies", async () => {
+    assert.deepEqual(await request("POST", "/search", "{}"), { status: 400, json: { error: '"query" is required' } });
+    assert.equal((await request("POST", "/search", "{")).status, 400);
+    assert.equal((await request("POST", "/search", '{"query": "x", "topK": "3"}')).status, 400);
+    assert.equal((await request("POST", "/search", '{"query": "x", "filter": {"paths": "src"}}')).status, 400);
+    assert.equal((await request("POST", "/review", '{"diff": ""}')).status, 400);
+  });
+
+  it("rejects unknown routes and methods", async () => {
+    assert.equal((await request("GET", "/nope")).status, 404);
+    assert.equal((await request("GET", "/search")).status, 405);
+  });
+});
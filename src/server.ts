@@ -0,0 +1,223 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  checkRepoNames,
+  ParamError,
+  parseParams,
+  REVIEW_PARAMETERS,
+  SEARCH_PARAMETERS,
+  toSearchHits,
+  type ReviewParameters,
+  type SearchParameters,
+  workspaceRepoRoot
+} from "./api.js";
+import {
+  buildIndex,
+  buildWorkspaceIndex,
+  resolveIndexLayout,
+  type IndexOptions,
+  type IndexStats,
+  type WorkspaceIndexStats
+} from "./indexer.js";
+import { renderReview } from "./report.js";
+import { runReview } from "./review.js";
+import { searchIndex } from "./search.js";
+import {
+  closeConnectionPool,
+  enableConnectionPool,
+  loadManifest,
+  loadWorkspaceManifest,
+  repoMetaDir
+} from "./store.js";
+import type { IndexManifest, WorkspaceManifest } from "./types.js";
+import type { WorkspaceConfig } from "./workspace.js";
+
+const DEFAULT_MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+export interface ServeOptions {
+  host: string;
+  port: number;
+  // How `POST /reindex` rebuilds the index; `repoRoot` is also the reviewed repository unless a request names one.
+  index: IndexOptions;
+  workspace: WorkspaceConfig | null;
+  reviewModel: string;
+  maxBodyBytes?: number;
+}
+
+export interface CodeRagServer {
+  url: string;
+  /** Stops accepting requests, waits for open ones and releases pooled connections. */
+  close: () => Promise<void>;
+}
+
+export interface IndexStatus {
+  indexDir: string;
+  reindexing: boolean;
+  workspace: WorkspaceManifest | null;
+  repos: Array<{ name?: string; repoRoot: string; manifest: IndexManifest | null }>;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+type RequestBody = Record<string, unknown>;
+
+async function readJsonBody(request: IncomingMessage, maxBytes: number): Promise<RequestBody> {
+  const parts: Buffer[] = [];
+  let size = 0;
+  for await (const part of request) {
+    const buffer = part as Buffer;
+    size += buffer.length;
+    if (size > maxBytes) {
+      throw new HttpError(413, `Request body exceeds ${maxBytes} bytes`);
+    }
+    parts.push(buffer);
+  }
+  const text = Buffer.concat(parts).toString("utf8").trim();
+  if (!text) {
+    return {};
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new HttpError(400, "Request body must be a JSON object");
+  }
+  return parsed as RequestBody;
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { "content-type": "application/json; charset=utf-8" });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * JSON API over the index: `GET /status`, `POST /search`, `POST /review` (diff in the body) and `POST /reindex`.
+ * LanceDB connections stay open for the lifetime of the server; reindex runs one at a time.
+ */
+export async function startServer(options: ServeOptions): Promise<CodeRagServer> {
+  const absIndexDir = options.workspace?.indexDir ?? resolveIndexLayout(options.index).absIndexDir;
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  let reindexing: Promise<IndexStats | WorkspaceIndexStats> | undefined;
+
+  async function status(): Promise<IndexStatus> {
+    const workspace = await loadWorkspaceManifest(absIndexDir);
+    const repos = workspace
+      ? await Promise.all(
+          workspace.repos.map(async (repo) => ({
+            name: repo.name,
+            repoRoot: repo.root,
+            manifest: await loadManifest(repoMetaDir(absIndexDir, repo.name))
+          }))
+        )
+      : [{ repoRoot: options.index.repoRoot, manifest: await loadManifest(absIndexDir) }];
+    return { indexDir: absIndexDir, reindexing: reindexing !== undefined, workspace, repos };
+  }
+
+  async function search(body: RequestBody): Promise<unknown> {
+    const params = parseParams<SearchParameters>(SEARCH_PARAMETERS, body);
+    const { results, warnings } = await searchIndex({
+      ...params,
+      repoRoot: options.index.repoRoot,
+      indexDir: absIndexDir,
+      provider: options.index.provider,
+      repoFilter: checkRepoNames(options.workspace, params.repoFilter)
+    });
+    return { results: toSearchHits(results), warnings };
+  }
+
+  async function review(body: RequestBody, signal: AbortSignal): Promise<unknown> {
+    const { repo, ...params } = parseParams<ReviewParameters>(REVIEW_PARAMETERS, body);
+    const result = await runReview({
+      ...params,
+      repoRoot: repo === undefined ? options.index.repoRoot : workspaceRepoRoot(options.workspace, repo),
+      indexDir: absIndexDir,
+      provider: options.index.provider,
+      reviewModel: params.reviewModel ?? options.reviewModel,
+      repoFilter: checkRepoNames(options.workspace, params.repoFilter),
+      signal
+    });
+    // Same shape as `review --format json`.
+    return JSON.parse(renderReview(result, "json")) as unknown;
+  }
+
+  async function reindex(): Promise<unknown> {
+    if (reindexing) {
+      throw new HttpError(409, "Reindex is already running");
+    }
+    reindexing = options.workspace
+      ? buildWorkspaceIndex(options.workspace.indexDir, options.workspace.repos, options.index)
+      : buildIndex(options.index);
+    try {
+      return await reindexing;
+    } finally {
+      reindexing = undefined;
+    }
+  }
+
+  const routes: Record<string, Record<string, (body: RequestBody, signal: AbortSignal) => Promise<unknown>>> = {
+    "/status": { GET: status },
+    "/search": { POST: search },
+    "/review": { POST: review },
+    "/reindex": { POST: reindex }
+  };
+
+  async function handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const pathname = new URL(request.url ?? "/", "http://localhost").pathname;
+    const route = routes[pathname];
+    if (!route) {
+      throw new HttpError(404, `Not found: ${pathname}`);
+    }
+    const handler = route[request.method ?? "GET"];
+    if (!handler) {
+      response.setHeader("allow", Object.keys(route).join(", "));
+      throw new HttpError(405, `${request.method} is not allowed on ${pathname}`);
+    }
+    const body = request.method === "POST" ? await readJsonBody(request, maxBodyBytes) : {};
+    // Stop generating a review nobody is waiting for.
+    const controller = new AbortController();
+    response.on("close", () => {
+      if (!response.writableFinished) {
+        controller.abort();
+      }
+    });
+    sendJson(response, 200, await handler(body, controller.signal));
+  }
+
+  enableConnectionPool();
+  const server = createServer((request, response) => {
+    handle(request, response).catch((error: unknown) => {
+      const status = error instanceof HttpError ? error.status : error instanceof ParamError ? 400 : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      sendJson(response, status, { error: message });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  const address = server.address() as AddressInfo;
+  const host = address.family === "IPv6" ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${host}:${address.port}`,
+    close: async () => {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await reindexing?.catch(() => undefined);
+      await closeConnectionPool();
+    }
+  };
+}
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  buildChunkWhere,
+  createFullTextIndexes,
+  lexicalSearchMany,
+  loadCachedEmbeddings,
+  replaceChunks,
+  saveCachedEmbeddings,
+  syncEmbeddingCache
+} from "./store.js";
+import type { Chunk } from "./types.js";
+
+describe("buildChunkWhere", () => {
+  it("returns undefined when nothing is filtered", () => {
+    assert.equal(buildChunkWhere(), undefined);
+    assert.equal(buildChunkWhere({ repos: [], paths: [] }), undefined);
+  });
+
+  it("ORs values of a field and ANDs fields", () => {
+    assert.equal(
+      buildChunkWhere({ languages: [".TS", "tsx"], nodeTypes: ["ClassDeclaration"] }),
+      "(language IN ('ts', 'tsx')) AND (nodeType IN ('ClassDeclaration'))"
+    );
+  });
+
+  it("matches paths and symbols with regular expressions and escapes quotes", () => {
+    assert.equal(
+      buildChunkWhere({ paths: ["/src"], symbols: ["get*", "it's"] }),
+      "(regexp_like(path, '^src(?:/.*)?$')) AND " +
+        "(regexp_like(symbol, '^get[^/]*$') OR regexp_like(symbol, '^it''s$'))"
+    );
+  });
+});
+
+function chunk(id: string, contentHash: string, embedding: number[]): Chunk {
+  return {
+    id,
+    path: `${id}.ts`,
+    language: "ts",
+    startLine: 1,
+    endLine: 1,
+    content: id,
+    chunkingStrategy: "text",
+    contentHash,
+    fileMtimeMs: 1,
+    fileSize: 1,
+    embedding
+  };
+}
+
+describe("embedding cache", () => {
+  let indexDir = "";
+
+  before(async () => {
+    indexDir = await mkdtemp(path.join(tmpdir(), "code-rag-cache-"));
+  });
+
+  after(async () => {
+    await rm(indexDir, { recursive: true, force: true });
+  });
+
+  it("loads stored embeddings by content hash", async () => {
+    await saveCachedEmbeddings(indexDir, "ollama:a", [
+      { contentHash: "h1", embedding: [1, 0] },
+      { contentHash: "h2", embedding: [0, 1] }
+    ]);
+    const cached = await loadCachedEmbeddings(indexDir, "ollama:a", ["h2", "h3"]);
+    assert.deepEqual([...cached], [["h2", [0, 1]]]);
+    assert.equal((await loadCachedEmbeddings(indexDir, "ollama:b", ["h2"])).size, 0);
+  });
+
+  it("syncs with the chunks table and keeps caches of other models", async () => {
+    await saveCachedEmbeddings(indexDir, "ollama:b", [{ contentHash: "h1", embedding: [1, 1, 1] }]);
+    await replaceChunks(indexDir, [chunk("x", "h2", [0, 1]), chunk("y", "h4", [1, 1])]);
+
+    assert.deepEqual(await syncEmbeddingCache(indexDir, "ollama:a"), { added: 1, removed: 1 });
+    const cached = await loadCachedEmbeddings(indexDir, "ollama:a", ["h1", "h2", "h4"]);
+    assert.deepEqual(
+      [...cached].sort(([a], [b]) => a.localeCompare(b)),
+      [
+        ["h2", [0, 1]],
+        ["h4", [1, 1]]
+      ]
+    );
+    assert.equal((await loadCachedEmbeddings(indexDir, "ollama:b", ["h1"])).size, 1);
+  });
+
+  it("drops caches of all but the most recently written models", async () => {
+    await saveCachedEmbeddings(indexDir, "ollama:c", [{ contentHash: "h1", embedding: [1] }]);
+    await saveCachedEmbeddings(indexDir, "ollama:d", [{ contentHash: "h1", embedding: [1] }]);
+
+    assert.deepEqual(await syncEmbeddingCache(indexDir, "ollama:a"), { added: 0, removed: 1 });
+    assert.equal((await loadCachedEmbeddings(indexDir, "ollama:b", ["h1"])).size, 0);
+    assert.equal((await loadCachedEmbeddings(indexDir, "ollama:c", ["h1"])).size, 1);
+    assert.equal((await loadCachedEmbeddings(indexDir, "ollama:d", ["h1"])).size, 1);
+  });
+});
+
+describe("full-text indexes", () => {
+  let indexDir = "";
+
+  before(async () => {
+    indexDir = await mkdtemp(path.join(tmpdir(), "code-rag-fts-"));
+  });
+
+  after(async () => {
+    await rm(indexDir, { recursive: true, force: true });
+  });
+
+  it("are created at index time and searched only on the recorded columns", async () => {
+    await replaceChunks(indexDir, [chunk("alpha", "h1", [0, 1]), chunk("beta", "h2", [1, 0])]);
+    await assert.rejects(lexicalSearchMany(indexDir, ["alpha"], 5, []), /Full-text index is not available/);
+
+    const columns = await createFullTextIndexes(indexDir);
+    assert.ok(columns.includes("content"));
+    const [results = []] = await lexicalSearchMany(indexDir, ["alpha"], 5, columns);
+    assert.deepEqual(
+      results.map((result) => result.chunk.id),
+      ["alpha"]
+    );
+  });
+});
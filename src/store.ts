@@ -1,16 +1,40 @@
-import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
 import path from "node:path";
 import * as lancedb from "@lancedb/lancedb";
-import type { Chunk, IndexManifest, RetrievalResult } from "./types.js";
+import type { CodeGraph } from "./graph.js";
+import { sha256 } from "./hash.js";
+import { globToRegExpSource, pathGlobToRegExpSource } from "./ignore.js";
+import type { Chunk, IndexManifest, RetrievalResult, WorkspaceManifest } from "./types.js";
 
 const CHUNKS_TABLE = "code_chunks";
 const MANIFEST_FILE = "manifest.json";
+const GRAPH_FILE = "graph.json";
+const WORKSPACE_FILE = "workspace.json";
+// Per-repository manifests and graphs of a workspace index live in `repos/<name>/`.
+const WORKSPACE_REPOS_DIR = "repos";
+// Columns covered by the BM25 full-text index, with their boost in lexical queries.
+const FTS_COLUMNS: ReadonlyArray<{ column: string; boost: number }> = [
+  { column: "content", boost: 1 },
+  { column: "symbol", boost: 2 },
+  { column: "path", boost: 1.5 }
+];
+// Table versions are pruned only once older than this, so readers that opened an earlier version
+// (a running server, a concurrent search) can still finish their queries during an update.
+const VERSION_RETENTION_MS = 5 * 60 * 1000;
+
+function versionCutoff(): Date {
+  return new Date(Date.now() - VERSION_RETENTION_MS);
+}
 
 function getManifestPath(indexDir: string): string {
   return path.join(indexDir, MANIFEST_FILE);
 }
 
 function toEmbeddingArray(value: unknown): number[] {
+  // Vector columns are read as Arrow vectors.
+  if (value && typeof (value as { toArray?: unknown }).toArray === "function") {
+    return toEmbeddingArray((value as { toArray: () => unknown }).toArray());
+  }
   if (Array.isArray(value)) {
     return value.map((item) => Number(item)).filter((item) => Number.isFinite(item));
   }
@@ -43,8 +67,12 @@ function toChunkingStrategy(value: unknown): "ast" | "text" {
 }
 
 function toChunk(row: Record<string, unknown>): Chunk {
+  // Only git-enumerated indexes have the column; other tables must not gain it on re-insert.
+  const fileBlobSha = toOptionalString(row.fileBlobSha);
+  const repo = toOptionalString(row.repo);
   return {
     id: toStringSafe(row.id),
+    ...(repo ? { repo } : {}),
     path: toStringSafe(row.path),
     language: toStringSafe(row.language),
     startLine: toNumberSafe(row.startLine),
@@ -56,10 +84,19 @@ function toChunk(row: Record<string, unknown>): Chunk {
     contentHash: toStringSafe(row.contentHash),
     fileMtimeMs: toNumberSafe(row.fileMtimeMs),
     fileSize: toNumberSafe(row.fileSize),
+    ...(fileBlobSha ? { fileBlobSha } : {}),
     embedding: toEmbeddingArray(row.embedding)
   };
 }
 
+function toLexicalScore(value: unknown): number {
+  const bm25 = typeof value === "number" ? value : Number.NaN;
+  if (!Number.isFinite(bm25) || bm25 <= 0) {
+    return 0;
+  }
+  return bm25 / (1 + bm25);
+}
+
 function toScore(distance: unknown): number {
   const numericDistance = typeof distance === "number" ? distance : Number.NaN;
   if (!Number.isFinite(numericDistance)) {
@@ -68,8 +105,47 @@ function toScore(distance: unknown): number {
   return 1 / (1 + Math.max(0, numericDistance));
 }
 
+// Open connections by index directory while pooling is enabled; null means connect per call.
+let connectionPool: Map<string, Promise<lancedb.Connection>> | null = null;
+
+/** Keeps LanceDB connections open between calls (long-running processes) until `closeConnectionPool`. */
+export function enableConnectionPool(): void {
+  connectionPool ??= new Map();
+}
+
+export async function closeConnectionPool(): Promise<void> {
+  const pool = connectionPool;
+  connectionPool = null;
+  for (const connection of pool?.values() ?? []) {
+    try {
+      (await connection).close();
+    } catch {
+      // Failed connects have nothing to close.
+    }
+  }
+}
+
+function pooledConnection(indexDir: string): Promise<lancedb.Connection> | null {
+  if (!connectionPool) {
+    return null;
+  }
+  const key = path.resolve(indexDir);
+  let connection = connectionPool.get(key);
+  if (!connection) {
+    const pool = connectionPool;
+    connection = lancedb.connect(key);
+    connection.catch(() => pool.delete(key));
+    pool.set(key, connection);
+  }
+  return connection;
+}
+
 async function withConnection<T>(indexDir: string, fn: (conn: lancedb.Connection) => Promise<T>): Promise<T> {
   await mkdir(indexDir, { recursive: true });
+  const pooled = pooledConnection(indexDir);
+  if (pooled) {
+    return fn(await pooled);
+  }
   const connection = await lancedb.connect(indexDir);
   try {
     return await fn(connection);
@@ -107,6 +183,162 @@ export async function saveManifest(indexDir: string, manifest: IndexManifest): P
   return manifestPath;
 }
 
+export async function loadGraph(indexDir: string): Promise<CodeGraph | null> {
+  try {
+    const content = await readFile(path.join(indexDir, GRAPH_FILE), "utf8");
+    return JSON.parse(content) as CodeGraph;
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException;
+    if (err.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function saveGraph(indexDir: string, graph: CodeGraph): Promise<string> {
+  await mkdir(indexDir, { recursive: true });
+  const graphPath = path.join(indexDir, GRAPH_FILE);
+  await writeFile(graphPath, JSON.stringify(graph), "utf8");
+  return graphPath;
+}
+
+/** Directory holding the manifest and graph of one repository: the index itself, or its workspace entry. */
+export function repoMetaDir(indexDir: string, repo?: string): string {
+  return repo ? path.join(indexDir, WORKSPACE_REPOS_DIR, repo) : indexDir;
+}
+
+export async function loadWorkspaceManifest(indexDir: string): Promise<WorkspaceManifest | null> {
+  try {
+    const content = await readFile(path.join(indexDir, WORKSPACE_FILE), "utf8");
+    return JSON.parse(content) as WorkspaceManifest;
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException;
+    if (err.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function saveWorkspaceManifest(indexDir: string, manifest: WorkspaceManifest): Promise<string> {
+  await mkdir(indexDir, { recursive: true });
+  const manifestPath = path.join(indexDir, WORKSPACE_FILE);
+  await writeFile(manifestPath, JSON.stringify(manifest, null, 2), "utf8");
+  return manifestPath;
+}
+
+/** Drops every row and the metadata of a repository that left the workspace. */
+export async function removeWorkspaceRepo(indexDir: string, repo: string): Promise<void> {
+  await withConnection(indexDir, async (connection) => {
+    const table = await openChunksTable(connection);
+    if (!table) {
+      return;
+    }
+    try {
+      await table.delete(`repo = ${sqlString(repo)}`);
+      await table.optimize({ cleanupOlderThan: versionCutoff() });
+    } finally {
+      table.close();
+    }
+  });
+  await rm(repoMetaDir(indexDir, repo), { recursive: true, force: true });
+}
+
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// Restricts a predicate to one workspace repository; single-repository tables have no `repo` column.
+function scoped(predicate: string, repo?: string): string {
+  return repo ? `repo = ${sqlString(repo)} AND (${predicate})` : predicate;
+}
+
+/** Chunk metadata filter: values of one field are alternatives, different fields must all match. */
+export interface ChunkFilter {
+  repos?: string[];
+  // Gitignore-style globs; a glob matching a directory selects everything inside it.
+  paths?: string[];
+  // File extensions as stored in `language`, e.g. "ts".
+  languages?: string[];
+  nodeTypes?: string[];
+  // Globs over symbol names (`*`, `?`); chunks without a symbol never match.
+  symbols?: string[];
+}
+
+function inList(column: string, values: string[]): string {
+  return `${column} IN (${values.map((value) => sqlString(value)).join(", ")})`;
+}
+
+function anyRegExp(column: string, sources: string[]): string {
+  return sources.map((source) => `regexp_like(${column}, ${sqlString(source)})`).join(" OR ");
+}
+
+/** SQL `where` clause for a chunk filter, applied before top-K; undefined when nothing is filtered. */
+export function buildChunkWhere(filter: ChunkFilter = {}): string | undefined {
+  const clauses: string[] = [];
+  if (filter.repos && filter.repos.length > 0) {
+    clauses.push(inList("repo", filter.repos));
+  }
+  if (filter.paths && filter.paths.length > 0) {
+    clauses.push(anyRegExp("path", filter.paths.map((glob) => pathGlobToRegExpSource(glob))));
+  }
+  if (filter.languages && filter.languages.length > 0) {
+    clauses.push(inList("language", filter.languages.map((language) => language.replace(/^\./, "").toLowerCase())));
+  }
+  if (filter.nodeTypes && filter.nodeTypes.length > 0) {
+    clauses.push(inList("nodeType", filter.nodeTypes));
+  }
+  if (filter.symbols && filter.symbols.length > 0) {
+    clauses.push(anyRegExp("symbol", filter.symbols.map((glob) => `^${globToRegExpSource(glob)}$`)));
+  }
+  return clauses.length > 0 ? clauses.map((clause) => `(${clause})`).join(" AND ") : undefined;
+}
+
+async function loadChunksWhere(indexDir: string, predicate: string): Promise<Chunk[]> {
+  return withConnection(indexDir, async (connection) => {
+    const table = await openChunksTable(connection);
+    if (!table) {
+      return [];
+    }
+    try {
+      const rows = (await table.query().where(predicate).toArray()) as Record<string, unknown>[];
+      return rows.map((row) => toChunk(row));
+    } finally {
+      table.close();
+    }
+  });
+}
+
+export async function loadChunksByPaths(indexDir: string, paths: string[], repo?: string): Promise<Chunk[]> {
+  if (paths.length === 0) {
+    return [];
+  }
+  return loadChunksWhere(indexDir, scoped(inList("path", [...new Set(paths)]), repo));
+}
+
+/** Whether the index holds chunks of the repo-relative `filePath` (of `repo` in a workspace index). */
+export async function hasIndexedPath(indexDir: string, filePath: string, repo?: string): Promise<boolean> {
+  return withConnection(indexDir, async (connection) => {
+    const table = await openChunksTable(connection);
+    if (!table) {
+      return false;
+    }
+    try {
+      return (await table.countRows(scoped(inList("path", [filePath]), repo))) > 0;
+    } finally {
+      table.close();
+    }
+  });
+}
+
+export async function loadChunksByIds(indexDir: string, ids: string[]): Promise<Chunk[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+  return loadChunksWhere(indexDir, inList("id", [...new Set(ids)]));
+}
+
 export async function loadAllChunks(indexDir: string): Promise<Chunk[]> {
   return withConnection(indexDir, async (connection) => {
     const table = await openChunksTable(connection);
@@ -122,6 +354,107 @@ export async function loadAllChunks(indexDir: string): Promise<Chunk[]> {
   });
 }
 
+export interface IndexedFileState {
+  mtimeMs: number;
+  size: number;
+  blobSha?: string;
+  chunks: number;
+}
+
+/** File mtime/size (and git blob id) as recorded on the indexed chunks; null when there is no chunks table yet. */
+export async function loadFileStates(indexDir: string, repo?: string): Promise<Map<string, IndexedFileState> | null> {
+  return withConnection(indexDir, async (connection) => {
+    const table = await openChunksTable(connection);
+    if (!table) {
+      return null;
+    }
+    try {
+      const hasBlobSha = (await table.schema()).fields.some((field) => field.name === "fileBlobSha");
+      const columns = ["path", "fileMtimeMs", "fileSize", ...(hasBlobSha ? ["fileBlobSha"] : [])];
+      const query = table.query().select(columns);
+      const rows = (await (repo ? query.where(`repo = ${sqlString(repo)}`) : query).toArray()) as Record<
+        string,
+        unknown
+      >[];
+      const states = new Map<string, IndexedFileState>();
+      for (const row of rows) {
+        const filePath = toStringSafe(row.path);
+        const previous = states.get(filePath);
+        states.set(filePath, {
+          mtimeMs: toNumberSafe(row.fileMtimeMs),
+          size: toNumberSafe(row.fileSize),
+          blobSha: toOptionalString(row.fileBlobSha),
+          chunks: (previous?.chunks ?? 0) + 1
+        });
+      }
+      return states;
+    } finally {
+      table.close();
+    }
+  });
+}
+
+export interface ChunkUpdate {
+  // Paths whose rows are deleted before `chunks` are inserted (changed and removed files).
+  removePaths: string[];
+  chunks: Chunk[];
+  // Retrain the ANN index instead of folding new rows into the existing one.
+  rebuildVectorIndex: boolean;
+  // Workspace repository the paths belong to.
+  repo?: string;
+  // Delete all rows of `repo` instead of `removePaths` (full rebuild of one workspace repository).
+  replaceRepo?: boolean;
+}
+
+// Keeps delete predicates reasonably small on large change sets.
+const DELETE_BATCH_SIZE = 200;
+
+/** Row-level update of the chunks table; returns the resulting row count (of `repo` when set). */
+export async function updateChunks(indexDir: string, update: ChunkUpdate): Promise<number> {
+  return withConnection(indexDir, async (connection) => {
+    const table = await openChunksTable(connection);
+    if (!table) {
+      if (update.replaceRepo) {
+        // First repository of a workspace creates the table.
+        if (update.chunks.length > 0) {
+          await createChunksTable(connection, update.chunks);
+        }
+        return update.chunks.length;
+      }
+      throw new Error(`Chunks table not found in ${indexDir}`);
+    }
+
+    try {
+      if (update.replaceRepo && update.repo) {
+        await table.delete(`repo = ${sqlString(update.repo)}`);
+      } else {
+        const paths = [...new Set(update.removePaths)];
+        for (let i = 0; i < paths.length; i += DELETE_BATCH_SIZE) {
+          const batch = paths.slice(i, i + DELETE_BATCH_SIZE);
+          await table.delete(scoped(`path IN (${batch.map((entry) => sqlString(entry)).join(", ")})`, update.repo));
+        }
+      }
+
+      if (update.chunks.length > 0) {
+        await table.add(update.chunks.map((chunk) => ({ ...chunk, embedding: [...chunk.embedding] })));
+      }
+
+      if (update.rebuildVectorIndex) {
+        try {
+          await table.createIndex("embedding", { replace: true });
+        } catch {
+          // Fall back to flat scan if index creation fails.
+        }
+      }
+      // Compacts fragments, adds new rows to existing (vector and full-text) indexes and drops outdated versions.
+      await table.optimize({ cleanupOlderThan: versionCutoff() });
+      return await table.countRows(update.repo ? `repo = ${sqlString(update.repo)}` : undefined);
+    } finally {
+      table.close();
+    }
+  });
+}
+
 export async function replaceChunks(indexDir: string, chunks: Chunk[]): Promise<void> {
   await withConnection(indexDir, async (connection) => {
     if (chunks.length === 0) {
@@ -133,41 +466,337 @@ export async function replaceChunks(indexDir: string, chunks: Chunk[]): Promise<
       return;
     }
 
-    const rows: Record<string, unknown>[] = chunks.map((chunk) => ({
-      ...chunk,
-      embedding: [...chunk.embedding]
-    }));
+    await createChunksTable(connection, chunks);
+  });
+}
 
-    const table = await connection.createTable(CHUNKS_TABLE, rows, {
-      mode: "overwrite"
-    });
+async function createChunksTable(connection: lancedb.Connection, chunks: Chunk[]): Promise<void> {
+  const rows: Record<string, unknown>[] = chunks.map((chunk) => ({
+    ...chunk,
+    embedding: [...chunk.embedding]
+  }));
 
+  const table = await connection.createTable(CHUNKS_TABLE, rows, {
+    mode: "overwrite"
+  });
+
+  try {
+    await table.createIndex("embedding");
+  } catch {
+    // Fall back to flat scan if index creation fails.
+  } finally {
+    table.close();
+  }
+}
+
+/**
+ * Creates the missing BM25 indexes and returns the indexed columns, for the manifest. Runs at index time only, after
+ * the chunks are written; indexes built before full-text search existed get theirs on the next `index` run.
+ */
+export async function createFullTextIndexes(indexDir: string): Promise<string[]> {
+  return withConnection(indexDir, async (connection) => {
+    const table = await openChunksTable(connection);
+    if (!table) {
+      return [];
+    }
+    try {
+      return await ensureFullTextIndexes(table);
+    } finally {
+      table.close();
+    }
+  });
+}
+
+async function ensureFullTextIndexes(table: lancedb.Table): Promise<string[]> {
+  const existing = new Set(
+    (await table.listIndices())
+      .filter((index) => index.indexType.toUpperCase().includes("FTS"))
+      .flatMap((index) => index.columns)
+  );
+
+  for (const { column } of FTS_COLUMNS) {
+    if (existing.has(column)) {
+      continue;
+    }
     try {
-      await table.createIndex("embedding");
+      await table.createIndex(column, { config: lancedb.Index.fts() });
+      existing.add(column);
     } catch {
-      // Fall back to flat scan if index creation fails.
+      // Column may be missing or all-null (e.g. no symbols in a text-only index).
+    }
+  }
+
+  return FTS_COLUMNS.map((entry) => entry.column).filter((column) => existing.has(column));
+}
+
+function toRetrievalResults(rows: Array<Record<string, unknown>>): RetrievalResult[] {
+  return rows.map((row) => {
+    const score = toScore(row._distance);
+    return { score, vectorScore: score, chunk: toChunk(row) };
+  });
+}
+
+export async function vectorSearch(
+  indexDir: string,
+  queryEmbedding: number[],
+  topK: number,
+  where?: string
+): Promise<RetrievalResult[]> {
+  const [results] = await vectorSearchMany(indexDir, [queryEmbedding], topK, where);
+  return results ?? [];
+}
+
+/**
+ * Runs several ANN queries over a single connection; results are returned in query order. `where` is a prefilter,
+ * so each query still returns up to `topK` matching rows.
+ */
+export async function vectorSearchMany(
+  indexDir: string,
+  queryEmbeddings: number[][],
+  topK: number,
+  where?: string
+): Promise<RetrievalResult[][]> {
+  return withConnection(indexDir, async (connection) => {
+    const table = await openChunksTable(connection);
+    if (!table) {
+      return queryEmbeddings.map(() => []);
+    }
+
+    try {
+      const results: RetrievalResult[][] = [];
+      for (const queryEmbedding of queryEmbeddings) {
+        const query = table.vectorSearch(queryEmbedding).limit(topK);
+        const rows = (await (where ? query.where(where) : query).toArray()) as Array<Record<string, unknown>>;
+        results.push(toRetrievalResults(rows));
+      }
+      return results;
     } finally {
       table.close();
     }
   });
 }
 
-export async function vectorSearch(indexDir: string, queryEmbedding: number[], topK: number): Promise<RetrievalResult[]> {
+/**
+ * BM25 search over `columns`, the full-text indexed ones the manifest lists; results are returned in query order.
+ * Never creates indexes.
+ */
+export async function lexicalSearchMany(
+  indexDir: string,
+  queries: string[],
+  topK: number,
+  columns: string[],
+  where?: string
+): Promise<RetrievalResult[][]> {
   return withConnection(indexDir, async (connection) => {
     const table = await openChunksTable(connection);
     if (!table) {
-      return [];
+      return queries.map(() => []);
     }
 
     try {
-      const rows = (await table.vectorSearch(queryEmbedding).limit(topK).toArray()) as Array<Record<string, unknown>>;
+      if (columns.length === 0) {
+        throw new Error("Full-text index is not available; re-run 'code-rag index'.");
+      }
+      const boosts = columns.map((column) => FTS_COLUMNS.find((entry) => entry.column === column)?.boost ?? 1);
 
-      return rows.map((row) => ({
-        score: toScore(row._distance),
-        chunk: toChunk(row)
-      }));
+      const results: RetrievalResult[][] = [];
+      for (const query of queries) {
+        if (!query.trim()) {
+          results.push([]);
+          continue;
+        }
+        const search = table
+          .query()
+          .fullTextSearch(new lancedb.MultiMatchQuery(query, columns, { boosts }))
+          .limit(topK);
+        const rows = (await (where ? search.where(where) : search).toArray()) as Array<Record<string, unknown>>;
+        results.push(
+          rows.map((row) => {
+            const score = toLexicalScore(row._score);
+            return { score, lexicalScore: score, chunk: toChunk(row) };
+          })
+        );
+      }
+      return results;
     } finally {
       table.close();
     }
   });
 }
+
+// One table per embedding model: vector sizes differ between models.
+const EMBEDDING_CACHE_TABLE_PREFIX = "embedding_cache_";
+// Keeps IN lists of content hashes reasonably small.
+const CACHE_QUERY_BATCH_SIZE = 500;
+// Caches kept per index, the synced model's included; switching back to a recent model reuses its embeddings.
+const MAX_CACHED_MODELS = 3;
+
+export interface EmbeddingCacheEntry {
+  contentHash: string;
+  embedding: number[];
+}
+
+export interface EmbeddingCacheSync {
+  added: number;
+  removed: number;
+}
+
+function embeddingCacheTable(model: string): string {
+  return `${EMBEDDING_CACHE_TABLE_PREFIX}${sha256(model).slice(0, 16)}`;
+}
+
+async function openTable(connection: lancedb.Connection, name: string): Promise<lancedb.Table | null> {
+  return (await connection.tableNames()).includes(name) ? connection.openTable(name) : null;
+}
+
+async function lastWriteTime(table: lancedb.Table): Promise<number> {
+  return Math.max(0, ...(await table.listVersions()).map((version) => version.timestamp.getTime()));
+}
+
+async function queryByContentHash(
+  table: lancedb.Table,
+  contentHashes: string[],
+  columns: string[]
+): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  const unique = [...new Set(contentHashes)];
+  for (let i = 0; i < unique.length; i += CACHE_QUERY_BATCH_SIZE) {
+    const batch = unique.slice(i, i + CACHE_QUERY_BATCH_SIZE);
+    rows.push(
+      ...((await table
+        .query()
+        .select(columns)
+        .where(inList("contentHash", batch))
+        .toArray()) as Record<string, unknown>[])
+    );
+  }
+  return rows;
+}
+
+async function loadContentHashes(table: lancedb.Table): Promise<Set<string>> {
+  const rows = (await table.query().select(["contentHash"]).toArray()) as Record<string, unknown>[];
+  return new Set(rows.map((row) => toStringSafe(row.contentHash)));
+}
+
+async function addCacheEntries(
+  connection: lancedb.Connection,
+  model: string,
+  entries: EmbeddingCacheEntry[]
+): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+  const rows = entries.map((entry) => ({ contentHash: entry.contentHash, embedding: [...entry.embedding] }));
+  const table = await openTable(connection, embeddingCacheTable(model));
+  if (!table) {
+    (await connection.createTable(embeddingCacheTable(model), rows)).close();
+    return;
+  }
+  try {
+    await table.add(rows);
+  } finally {
+    table.close();
+  }
+}
+
+/** Cached embeddings of `model` by content hash; hashes without an entry are left out. */
+export async function loadCachedEmbeddings(
+  indexDir: string,
+  model: string,
+  contentHashes: string[]
+): Promise<Map<string, number[]>> {
+  return withConnection(indexDir, async (connection) => {
+    const cached = new Map<string, number[]>();
+    const table = await openTable(connection, embeddingCacheTable(model));
+    if (!table || contentHashes.length === 0) {
+      table?.close();
+      return cached;
+    }
+    try {
+      for (const row of await queryByContentHash(table, contentHashes, ["contentHash", "embedding"])) {
+        cached.set(toStringSafe(row.contentHash), toEmbeddingArray(row.embedding));
+      }
+      return cached;
+    } finally {
+      table.close();
+    }
+  });
+}
+
+/** Stores new entries; callers pass content hashes that are not cached yet. */
+export async function saveCachedEmbeddings(
+  indexDir: string,
+  model: string,
+  entries: EmbeddingCacheEntry[]
+): Promise<void> {
+  await withConnection(indexDir, (connection) => addCacheEntries(connection, model, entries));
+}
+
+/**
+ * Makes the cache of `model` hold exactly the contents of the chunks table: embeddings missing from it (indexes built
+ * before the cache existed) are copied in and entries no chunk refers to any more are deleted. Caches of other models
+ * are left as they are, except that only the most recently written ones are kept (`MAX_CACHED_MODELS`).
+ */
+export async function syncEmbeddingCache(indexDir: string, model: string): Promise<EmbeddingCacheSync> {
+  return withConnection(indexDir, async (connection) => {
+    const tableName = embeddingCacheTable(model);
+    let removed = 0;
+    const others: Array<{ name: string; rows: number; writtenAt: number }> = [];
+    for (const name of await connection.tableNames()) {
+      if (name.startsWith(EMBEDDING_CACHE_TABLE_PREFIX) && name !== tableName) {
+        const other = await connection.openTable(name);
+        try {
+          others.push({ name, rows: await other.countRows(), writtenAt: await lastWriteTime(other) });
+        } finally {
+          other.close();
+        }
+      }
+    }
+    for (const stale of others.sort((a, b) => b.writtenAt - a.writtenAt).slice(MAX_CACHED_MODELS - 1)) {
+      removed += stale.rows;
+      await connection.dropTable(stale.name);
+    }
+
+    const cache = await openTable(connection, tableName);
+    const cachedHashes = new Set<string>();
+    const referenced = new Set<string>();
+    const missing = new Map<string, number[]>();
+    try {
+      for (const hash of cache ? await loadContentHashes(cache) : []) {
+        cachedHashes.add(hash);
+      }
+      const chunks = await openChunksTable(connection);
+      if (chunks) {
+        try {
+          for (const hash of await loadContentHashes(chunks)) {
+            referenced.add(hash);
+          }
+          const uncached = [...referenced].filter((hash) => !cachedHashes.has(hash));
+          for (const row of await queryByContentHash(chunks, uncached, ["contentHash", "embedding"])) {
+            missing.set(toStringSafe(row.contentHash), toEmbeddingArray(row.embedding));
+          }
+        } finally {
+          chunks.close();
+        }
+      }
+
+      const unreferenced = [...cachedHashes].filter((hash) => !referenced.has(hash));
+      for (let i = 0; i < unreferenced.length; i += DELETE_BATCH_SIZE) {
+        await cache?.delete(inList("contentHash", unreferenced.slice(i, i + DELETE_BATCH_SIZE)));
+      }
+      if (unreferenced.length > 0) {
+        await cache?.optimize({ cleanupOlderThan: versionCutoff() });
+      }
+      removed += unreferenced.length;
+    } finally {
+      cache?.close();
+    }
+
+    await addCacheEntries(
+      connection,
+      model,
+      [...missing].map(([contentHash, embedding]) => ({ contentHash, embedding }))
+    );
+    return { added: missing.size, removed };
+  });
+}
@@ -1,5 +1,7 @@
 export interface Chunk {
   id: string;
+  // Workspace repository name; unset in single-repository indexes.
+  repo?: string;
   path: string;
   language: string;
   startLine: number;
@@ -11,21 +13,73 @@ export interface Chunk {
   contentHash: string;
   fileMtimeMs: number;
   fileSize: number;
+  fileBlobSha?: string;
   embedding: number[];
 }
 
+// Where the file list comes from: a file system walk or `git ls-files`.
+export type IndexSource = "fs" | "git";
+
+export interface IndexIgnoreRules {
+  gitignore: boolean;
+  // Repo-relative .gitignore/.coderagignore files that contributed rules.
+  ignoreFiles: string[];
+  include: string[];
+  excludeGlobs: string[];
+}
+
+/** Backend serving embeddings and generations. */
+export type ProviderName = "ollama" | "openai";
+
 export interface IndexManifest {
   version: 1;
   generatedAt: string;
   repoRoot: string;
+  // Name of the repository within a workspace index.
+  repoName?: string;
   embeddingModel: string;
+  // Backend that computed the embeddings; absent for indexes built before providers existed (equivalent to "ollama").
+  embeddingProvider?: ProviderName;
   chunkingMode: "ast" | "text";
   chunkSize: number;
   overlapLines: number;
   excludedDirs: string[];
+  // Absent for indexes built before git enumeration existed (equivalent to "fs").
+  source?: IndexSource;
+  gitUntracked?: boolean;
+  // Set when the index was built from git objects (`index --rev`) rather than the working tree.
+  revision?: {
+    ref: string;
+    commit: string;
+  };
+  // Path rules beyond excluded directory names; absent for indexes built before they existed.
+  ignore?: IndexIgnoreRules;
   maxFileSizeBytes: number;
   filesIndexed: number;
   chunksIndexed: number;
+  // Row count when the ANN index was last trained and rows inserted/deleted since then.
+  vectorIndex?: {
+    trainedRows: number;
+    changedRows: number;
+  };
+  // Columns of the chunks table with a BM25 index; absent for indexes built before they were recorded.
+  fullTextColumns?: string[];
+}
+
+export interface WorkspaceRepo {
+  name: string;
+  root: string;
+}
+
+/** Top-level manifest of an index that holds several repositories in one chunks table. */
+export interface WorkspaceManifest {
+  version: 1;
+  generatedAt: string;
+  embeddingModel: string;
+  embeddingProvider?: ProviderName;
+  repos: WorkspaceRepo[];
+  // BM25-indexed columns of the shared chunks table, as in `IndexManifest`.
+  fullTextColumns?: string[];
 }
 
 export interface SourceFile {
@@ -33,9 +87,12 @@ export interface SourceFile {
   relPath: string;
   mtimeMs: number;
   size: number;
+  // Git blob id, known when files are enumerated through git.
+  blobSha?: string;
 }
 
 export interface IndexedChunkInput {
+  repo?: string;
   path: string;
   language: string;
   startLine: number;
@@ -47,9 +104,20 @@ export interface IndexedChunkInput {
   contentHash: string;
   fileMtimeMs: number;
   fileSize: number;
+  fileBlobSha?: string;
 }
 
+export type RetrievalOrigin = "diff" | "search" | "graph";
+
 export interface RetrievalResult {
   score: number;
+  // How the chunk was found; results without origin come from search.
+  origin?: RetrievalOrigin;
+  // Human-readable link to the diff, e.g. "caller of runReview".
+  relation?: string;
+  // Per-stage scores, set by the stage that produced the result.
+  vectorScore?: number;
+  lexicalScore?: number;
+  rerankScore?: number;
   chunk: Chunk;
 }
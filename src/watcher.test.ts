@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { buildIndex, type IndexOptions } from "./indexer.js";
+import { watchIndex, type IndexWatcher, type WatchUpdate } from "./watcher.js";
+
+const DEBOUNCE_MS = 200;
+
+async function readBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+  let text = "";
+  for await (const part of request) {
+    text += String(part);
+  }
+  return JSON.parse(text) as Record<string, unknown>;
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 10_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for the watcher");
+    }
+    await sleep(20);
+  }
+}
+
+describe("watchIndex", () => {
+  let server: Server;
+  let repoRoot = "";
+  let watcher: IndexWatcher;
+  const updates: WatchUpdate[] = [];
+  const errors: unknown[] = [];
+  // Embedding requests in flight, to catch overlapping updates; `delayMs` keeps an update running for a while.
+  let inFlight = 0;
+  let maxInFlight = 0;
+  let requests = 0;
+  let delayMs = 0;
+
+  before(async () => {
+    server = createServer((request, response) => {
+      void readBody(request).then(async (body) => {
+        requests += 1;
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await sleep(delayMs);
+        inFlight -= 1;
+        const inputs = body.input as string[];
+        response.end(JSON.stringify({ embeddings: inputs.map((input) => [input.length, 1]) }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    repoRoot = await mkdtemp(path.join(tmpdir(), "code-rag-watch-"));
+    for (const name of ["a", "b", "c"]) {
+      await writeFile(path.join(repoRoot, `${name}.ts`), `export const ${name} = 0;\n`, "utf8");
+    }
+    const options: IndexOptions = {
+      repoRoot,
+      indexDir: ".coderag",
+      embeddingModel: "embed",
+      chunkingMode: "text",
+      chunkSize: 400,
+      overlapLines: 0,
+      maxFileSizeBytes: 100_000,
+      batchSize: 1,
+      embedConcurrency: 1,
+      provider: { provider: "ollama", baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}` }
+    };
+    await buildIndex(options);
+    watcher = watchIndex(
+      { ...options, debounceMs: DEBOUNCE_MS },
+      { onUpdate: (update) => updates.push(update), onError: (error) => errors.push(error) }
+    );
+    // Lets the recursive watch settle before the first write.
+    await sleep(100);
+  });
+
+  after(async () => {
+    await watcher.close();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await rm(repoRoot, { recursive: true, force: true });
+  });
+
+  it("batches events of the debounce window into one update", async () => {
+    await writeFile(path.join(repoRoot, "a.ts"), "export const a = 1;\n", "utf8");
+    await writeFile(path.join(repoRoot, "b.ts"), "export const b = 1;\n", "utf8");
+    await waitFor(() => updates.length >= 1);
+    await sleep(DEBOUNCE_MS * 2);
+
+    assert.deepEqual(errors, []);
+    assert.equal(updates.length, 1);
+    assert.deepEqual(updates[0]?.paths, ["a.ts", "b.ts"]);
+    assert.equal(updates[0]?.stats.filesChanged, 2);
+  });
+
+  it("queues events arriving during an update instead of starting another one", async () => {
+    updates.length = 0;
+    delayMs = 500;
+    maxInFlight = 0;
+    const seen = requests;
+    await writeFile(path.join(repoRoot, "a.ts"), "export const a = 2;\n", "utf8");
+    await waitFor(() => requests > seen);
+    await writeFile(path.join(repoRoot, "b.ts"), "export const b = 2;\n", "utf8");
+    await waitFor(() => updates.length >= 2);
+    delayMs = 0;
+
+    assert.deepEqual(errors, []);
+    assert.equal(maxInFlight, 1);
+    assert.deepEqual(
+      updates.map((update) => update.paths),
+      [["a.ts"], ["b.ts"]]
+    );
+  });
+
+  it("rescans the repository when an ignore file changes", async () => {
+    updates.length = 0;
+    await writeFile(path.join(repoRoot, ".coderagignore"), "c.ts\n", "utf8");
+    await waitFor(() => updates.length >= 1);
+
+    assert.deepEqual(errors, []);
+    assert.equal(updates[0]?.rescanned, true);
+    assert.equal(updates[0]?.stats.filesRemoved, 1);
+  });
+});
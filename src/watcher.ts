@@ -0,0 +1,130 @@
+import { watch, type FSWatcher } from "node:fs";
+import path from "node:path";
+import {
+  buildIndex,
+  createIndexPathFilter,
+  resolveIndexLayout,
+  updateIndexedFiles,
+  type IndexOptions,
+  type IndexStats
+} from "./indexer.js";
+import { CODERAG_IGNORE_FILE, isExcludedPath } from "./scanner.js";
+
+export interface WatchOptions extends IndexOptions {
+  // Quiet period after the last file event before touched paths are re-indexed.
+  debounceMs: number;
+}
+
+export interface WatchUpdate {
+  paths: string[];
+  // True when an ignore file changed and the whole repository was rescanned.
+  rescanned: boolean;
+  stats: IndexStats;
+}
+
+export interface WatchHandlers {
+  onUpdate: (update: WatchUpdate) => void;
+  onError: (error: unknown) => void;
+}
+
+export interface IndexWatcher {
+  /** Stops watching and waits for an in-flight update to finish. */
+  close: () => Promise<void>;
+}
+
+function toPosixPath(value: string): string {
+  return value.split(path.sep).join(path.posix.sep);
+}
+
+function isIgnoreFile(relPath: string): boolean {
+  const name = path.posix.basename(relPath);
+  return name === ".gitignore" || name === CODERAG_IGNORE_FILE;
+}
+
+/**
+ * Watches the repository recursively and re-indexes touched paths in debounced batches. Updates never overlap:
+ * events arriving during an update are collected and flushed right after it. Editing an ignore file triggers a
+ * full incremental rescan, since it can add or drop files anywhere below it.
+ */
+export function watchIndex(options: WatchOptions, handlers: WatchHandlers): IndexWatcher {
+  const { excludedDirs } = resolveIndexLayout(options);
+  const pending = new Set<string>();
+  let filter = createIndexPathFilter(options);
+  let rescan = false;
+  let timer: NodeJS.Timeout | undefined;
+  let running: Promise<void> | undefined;
+  let closed = false;
+
+  function schedule(): void {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = undefined;
+      flush();
+    }, options.debounceMs);
+  }
+
+  function flush(): void {
+    if (closed || running || pending.size === 0) {
+      return;
+    }
+    const paths = [...pending].sort();
+    const rescanned = rescan;
+    pending.clear();
+    rescan = false;
+    running = (rescanned ? buildIndex(options) : updateIndexedFiles(options, paths))
+      .then((stats) => {
+        if (stats.filesChanged > 0 || stats.filesRemoved > 0) {
+          handlers.onUpdate({ paths, rescanned, stats });
+        }
+      })
+      .catch((error: unknown) => handlers.onError(error))
+      .finally(() => {
+        running = undefined;
+        if (pending.size > 0) {
+          schedule();
+        }
+      });
+  }
+
+  const watcher: FSWatcher = watch(options.repoRoot, { recursive: true }, (_event, filename) => {
+    if (!filename) {
+      return;
+    }
+    const relPath = toPosixPath(filename.toString());
+    // Index artifacts live inside the repo; reacting to them would re-trigger on every update.
+    if (isExcludedPath(`${relPath}/`, { excludedDirs })) {
+      return;
+    }
+    if (isIgnoreFile(relPath)) {
+      filter = createIndexPathFilter(options);
+      rescan = true;
+      pending.add(relPath);
+      schedule();
+      return;
+    }
+    // Events can outlive the file (deletes, renames), so only the path is checked here; updates re-check properly.
+    void filter.isIgnored(relPath, false).then(
+      (ignored) => {
+        if (!ignored) {
+          pending.add(relPath);
+          schedule();
+        }
+      },
+      (error: unknown) => handlers.onError(error)
+    );
+  });
+  watcher.on("error", (error) => handlers.onError(error));
+
+  return {
+    close: async () => {
+      closed = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      watcher.close();
+      await running;
+    }
+  };
+}
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { loadWorkspaceConfig, parseRepoSpec, resolveRepoFilter, validateWorkspaceRepos } from "./workspace.js";
+
+describe("parseRepoSpec", () => {
+  it("names repositories explicitly or after their directory", () => {
+    assert.deepEqual(parseRepoSpec("backend=../api", "/work/app"), { name: "backend", root: "/work/api" });
+    assert.deepEqual(parseRepoSpec("../shared", "/work/app"), { name: "shared", root: "/work/shared" });
+  });
+});
+
+describe("validateWorkspaceRepos", () => {
+  it("rejects duplicate and unsafe names", () => {
+    assert.throws(
+      () => validateWorkspaceRepos([parseRepoSpec("/a/lib", "/"), parseRepoSpec("/b/lib", "/")]),
+      /Duplicate repository name "lib"/
+    );
+    assert.throws(() => validateWorkspaceRepos([{ name: "../up", root: "/up" }]), /Invalid repository name/);
+    assert.throws(() => validateWorkspaceRepos([]), /no repositories/);
+  });
+});
+
+describe("loadWorkspaceConfig", () => {
+  let dir = "";
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "code-rag-workspace-"));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("resolves paths relative to the workspace file", async () => {
+    const file = path.join(dir, "workspace.json");
+    await writeFile(file, JSON.stringify({ repos: ["./web", { name: "backend", path: "../api" }] }));
+    assert.deepEqual(await loadWorkspaceConfig(file), {
+      indexDir: path.join(dir, ".coderag"),
+      repos: [
+        { name: "web", root: path.join(dir, "web") },
+        { name: "backend", root: path.resolve(dir, "../api") }
+      ]
+    });
+  });
+});
+
+describe("resolveRepoFilter", () => {
+  const workspace = {
+    version: 1 as const,
+    generatedAt: "",
+    embeddingModel: "m",
+    repos: [
+      { name: "web", root: "/w" },
+      { name: "backend", root: "/b" }
+    ]
+  };
+
+  it("keeps known names and treats an empty filter as all repositories", () => {
+    assert.deepEqual(resolveRepoFilter(workspace, ["backend"]), ["backend"]);
+    assert.equal(resolveRepoFilter(workspace, []), undefined);
+    assert.equal(resolveRepoFilter(null), undefined);
+  });
+
+  it("rejects unknown names and single-repository indexes", () => {
+    assert.throws(() => resolveRepoFilter(workspace, ["mobile"]), /Unknown repositories: mobile/);
+    assert.throws(() => resolveRepoFilter(null, ["web"]), /requires a workspace index/);
+  });
+});
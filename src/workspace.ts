@@ -0,0 +1,133 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { loadManifest, loadWorkspaceManifest, repoMetaDir } from "./store.js";
+import type { IndexManifest, WorkspaceManifest, WorkspaceRepo } from "./types.js";
+
+// Names become directory names under the index and prefixes in source labels.
+const REPO_NAME_RE = /^[A-Za-z0-9][\w.-]*$/;
+const DEFAULT_WORKSPACE_INDEX_DIR = ".coderag";
+
+export interface WorkspaceConfig {
+  indexDir: string;
+  repos: WorkspaceRepo[];
+}
+
+interface WorkspaceFile {
+  indexDir?: unknown;
+  repos?: unknown;
+}
+
+/** Parses `name=path` or `path` (named after its directory); relative paths are resolved against `baseDir`. */
+export function parseRepoSpec(spec: string, baseDir: string): WorkspaceRepo {
+  const separator = spec.indexOf("=");
+  const name = separator > 0 ? spec.slice(0, separator) : "";
+  const repoPath = separator > 0 ? spec.slice(separator + 1) : spec;
+  const root = path.resolve(baseDir, repoPath);
+  return { name: name || path.basename(root), root };
+}
+
+export function validateWorkspaceRepos(repos: WorkspaceRepo[]): WorkspaceRepo[] {
+  if (repos.length === 0) {
+    throw new Error("Workspace has no repositories");
+  }
+  const names = new Set<string>();
+  for (const repo of repos) {
+    if (!REPO_NAME_RE.test(repo.name)) {
+      throw new Error(`Invalid repository name "${repo.name}": use letters, digits, ".", "_" or "-"`);
+    }
+    if (names.has(repo.name)) {
+      throw new Error(`Duplicate repository name "${repo.name}"; name them explicitly with name=path`);
+    }
+    names.add(repo.name);
+  }
+  return repos;
+}
+
+/**
+ * Reads a workspace file: `{"indexDir": ".coderag", "repos": ["../shared", {"name": "backend", "path": "../api"}]}`.
+ * Paths are relative to the file.
+ */
+export async function loadWorkspaceConfig(filePath: string): Promise<WorkspaceConfig> {
+  const absPath = path.resolve(filePath);
+  const baseDir = path.dirname(absPath);
+  const parsed = JSON.parse(await readFile(absPath, "utf8")) as WorkspaceFile;
+  if (!Array.isArray(parsed.repos)) {
+    throw new Error(`${absPath}: "repos" must be an array`);
+  }
+
+  const repos = parsed.repos.map((entry: unknown) => {
+    if (typeof entry === "string") {
+      return parseRepoSpec(entry, baseDir);
+    }
+    const record = entry as { name?: unknown; path?: unknown } | null;
+    if (!record || typeof record.path !== "string") {
+      throw new Error(`${absPath}: every repository needs a "path"`);
+    }
+    const repo = parseRepoSpec(record.path, baseDir);
+    return typeof record.name === "string" ? { ...repo, name: record.name } : repo;
+  });
+
+  const indexDir = typeof parsed.indexDir === "string" ? parsed.indexDir : DEFAULT_WORKSPACE_INDEX_DIR;
+  return { indexDir: path.resolve(baseDir, indexDir), repos: validateWorkspaceRepos(repos) };
+}
+
+export interface IndexTarget {
+  absIndexDir: string;
+  // Manifest of `repo`, or of the first member when the reviewed repository is not part of the workspace.
+  manifest: IndexManifest;
+  workspace: WorkspaceManifest | null;
+  // Workspace member whose root is `repoRoot`.
+  repo?: string;
+  metaDir: string;
+  // BM25-indexed columns of the chunks table; empty for indexes built before they were recorded.
+  fullTextColumns: string[];
+}
+
+/** Opens a single-repository or workspace index and locates `repoRoot` in it. */
+export async function openIndex(absIndexDir: string, repoRoot: string): Promise<IndexTarget> {
+  const workspace = await loadWorkspaceManifest(absIndexDir);
+  if (!workspace) {
+    const manifest = await loadManifest(absIndexDir);
+    if (!manifest) {
+      throw new Error(`Index not found in ${absIndexDir}. Run 'code-rag index' first.`);
+    }
+    return {
+      absIndexDir,
+      manifest,
+      workspace: null,
+      metaDir: absIndexDir,
+      fullTextColumns: manifest.fullTextColumns ?? []
+    };
+  }
+
+  const member = workspace.repos.find((repo) => path.resolve(repo.root) === path.resolve(repoRoot));
+  const metaDir = repoMetaDir(absIndexDir, member?.name ?? workspace.repos[0]?.name);
+  const manifest = await loadManifest(metaDir);
+  if (!manifest) {
+    throw new Error(`Workspace index in ${absIndexDir} is incomplete. Run 'code-rag index' again.`);
+  }
+  return {
+    absIndexDir,
+    manifest,
+    workspace,
+    repo: member?.name,
+    metaDir,
+    fullTextColumns: workspace.fullTextColumns ?? []
+  };
+}
+
+/** Validates `--repo-filter` names against the workspace; undefined means all repositories. */
+export function resolveRepoFilter(workspace: WorkspaceManifest | null, names: string[] = []): string[] | undefined {
+  if (names.length === 0) {
+    return undefined;
+  }
+  if (!workspace) {
+    throw new Error("--repo-filter requires a workspace index");
+  }
+  const known = workspace.repos.map((repo) => repo.name);
+  const unknown = names.filter((name) => !known.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown repositories: ${unknown.join(", ")} (workspace has: ${known.join(", ")})`);
+  }
+  return names;
+}